@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AggregateRequestSchema } from '@/lib/core/schema';
+import { EventWindow, EstimationSettings, parseEventWindows, parseEstimationSettings } from '@/lib/core/windows';
+import { ExpectedReturnModel, parseExpectedReturnModel } from '@/lib/core/factors';
+import { BetaMethod, parseBetaMethod } from '@/lib/core/beta';
+import { SignificanceSettings, parseSignificanceSettings } from '@/lib/core/significance';
+import { BenchmarkSpec, formatBenchLabel, parseBenchSpec } from '@/lib/core/benchmarks';
+import { runAnalyzePipeline, EventSample } from '@/lib/core/analyze-pipeline';
+import { runFilingEventPipeline } from '@/lib/core/event-study';
+import { FilingEventSelector, formatEventSelector, parseEventSelectors } from '@/lib/core/filing-events';
+import { aggregateCAAR, twoSidedP } from '@/lib/core/caar';
+import { skewnessAdjustedT } from '@/lib/core/car';
+import { DEFAULT_PIPELINE_CONCURRENCY, mapWithConcurrency } from '@/lib/core/concurrency';
+import { CONFOUNDED_WEIGHT, ConfoundPolicy, confoundWeight, parseConfoundPolicy } from '@/lib/core/confounding';
+import {
+  checkRouteRateLimit, dateRangeResponse, errorResponse, paramErrorResponse, parseTickerList, rateLimitHeaders, readRouteParams,
+  routeErrorResponse, tickerErrorCode,
+} from '@/lib/core/api-route';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  return handleRequest(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handleRequest(request);
+}
+
+async function handleRequest(request: NextRequest) {
+  try {
+    const rateLimit = await checkRouteRateLimit(request);
+    if (rateLimit.response) return rateLimit.response;
+
+    const read = await readRouteParams(request, AggregateRequestSchema, { ticker: 'tickers' });
+    if (read.response) return read.response;
+    const p = read.params;
+    const tickers = parseTickerList(p.tickers);
+    const from = p.from || '';
+    const to = p.to || '';
+    if (tickers.length === 0 || tickers.length > 50 || !from || !to) {
+      return errorResponse('ERR_INVALID_INPUT', 400, 'Required: tickers (1-50, comma-separated), from, to');
+    }
+    const dateError = dateRangeResponse(from, to);
+    if (dateError) return dateError;
+
+    let windows: EventWindow[];
+    let estimation: EstimationSettings;
+    let model: ExpectedReturnModel;
+    let betaMethod: BetaMethod;
+    let bench: BenchmarkSpec;
+    let significance: SignificanceSettings | null;
+    let confoundPolicy: ConfoundPolicy;
+    let selectors: FilingEventSelector[] | null;
+    try {
+      windows = parseEventWindows(p.windows);
+      estimation = parseEstimationSettings(p.estimation_window, p.estimation_gap, p.exclude_events, p.winsorize);
+      model = parseExpectedReturnModel(p.model);
+      betaMethod = parseBetaMethod(p.beta_method);
+      bench = parseBenchSpec(p.bench);
+      significance = parseSignificanceSettings(p.significance, p.seed, p.resamples);
+      confoundPolicy = parseConfoundPolicy(p.confounded);
+      selectors = parseEventSelectors(p.events);
+    } catch (e) {
+      return paramErrorResponse(e);
+    }
+
+    // 티커별 파이프라인 병렬 실행(입력 순서 유지) 후 윈도우 단위로 이벤트 풀링
+    type TickerRun = { ticker: string; events: number; bench?: string; error?: string; samples: EventSample[] };
+    const runs = await mapWithConcurrency<string, TickerRun>(tickers, DEFAULT_PIPELINE_CONCURRENCY, async (ticker) => {
+      try {
+        const outcome = selectors
+          ? await runFilingEventPipeline({ ticker, from, to, selectors, bench, windows, estimation, model, betaMethod, significance })
+          : await runAnalyzePipeline({ ticker, from, to, bench, windows, estimation, model, betaMethod, significance });
+        if (!outcome.ok) return { ticker, events: 0, error: outcome.error, samples: [] };
+        const eventDates = new Set(outcome.samples.map(s => s.event_date));
+        const benchNote = outcome.data.notes.find(n => n.startsWith('bench='));
+        return { ticker, events: eventDates.size, bench: benchNote?.slice('bench='.length), samples: outcome.samples };
+      } catch (error) {
+        return { ticker, events: 0, error: tickerErrorCode(error), samples: [] };
+      }
+    });
+    const samples = runs.flatMap(r => r.samples);
+    const perTicker = runs.map(({ samples: _samples, ...rest }) => rest);
+
+    // 교란 세그먼트(윈도우 내 다른 중요 8-K): keep | drop | downweight
+    const weighted = samples.flatMap(s => {
+      const weight = confoundWeight(confoundPolicy, s.confounded);
+      return weight === null ? [] : [{ ...s, weight }];
+    });
+
+    const byWindow = windows.map(({ label }) => {
+      const group = weighted.filter(s => s.window === label);
+      const confoundedN = samples.filter(s => s.window === label && s.confounded).length;
+      const inferredN = group.filter(s => s.timing_inferred).length;
+      const bhars = group.map(s => s.bhar).filter((v): v is number => typeof v === 'number');
+      const lbt = skewnessAdjustedT(bhars);
+      const empiricalPs = group.map(s => s.empirical_p).filter((v): v is number => typeof v === 'number');
+      return {
+        window: label,
+        ...(aggregateCAAR(group) ?? { n: 0 }),
+        confounded_n: confoundedN,
+        timing_inferred_n: inferredN,
+        bhar: bhars.length ? {
+          n: bhars.length,
+          mean: bhars.reduce((s, v) => s + v, 0) / bhars.length,
+          skewness_adjusted_t: lbt ? { stat: lbt.t, p_value: twoSidedP(lbt.t) } : null,
+        } : null,
+        ...(significance ? {
+          significance: {
+            method: significance.method,
+            n: empiricalPs.length,
+            share_p_below_05: empiricalPs.length ? empiricalPs.filter(v => v < 0.05).length / empiricalPs.length : null,
+          },
+        } : {}),
+      };
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        tickers,
+        from,
+        to,
+        as_of: new Date().toISOString().split('T')[0],
+        windows: byWindow,
+        per_ticker: perTicker,
+        notes: [
+          `bench=${bench.kind === 'auto' ? 'auto (per ticker, see per_ticker[].bench)' : formatBenchLabel(bench)}`,
+          `estimation=${estimation.length}d; gap=${estimation.gap}d`,
+          `estimation_exclude_events=${estimation.excludeEvents ? 'on' : 'off'}${estimation.winsorize > 0 ? `; winsorize=${estimation.winsorize}` : ''}`,
+          `model=${model}`,
+          `beta_method=${betaMethod}`,
+          `events=${selectors ? selectors.map(formatEventSelector).join(',') : 'earnings'}`,
+          confoundPolicy === 'downweight'
+            ? `caar,tests=weighted (confounded=${CONFOUNDED_WEIGHT}); mean_car,median_car,sd_car,positive_share,bhar=unweighted; p_values=two_sided_normal`
+            : 'caar=equal_weight; p_values=two_sided_normal',
+          `confounded=${confoundPolicy}`,
+          'rank_test=corrado_multiday',
+          'bhar=vs_bench; t=lyon_barber_tsai_skewness_adjusted',
+          ...(significance
+            ? [`significance=${significance.method} per event (seed=${significance.seed}, resamples=${significance.resamples}); windows[].significance=share of events with p<0.05`]
+            : []),
+        ],
+      },
+    }, {
+      headers: rateLimitHeaders(rateLimit.remaining),
+    });
+  } catch (error) {
+    return routeErrorResponse('Aggregate', error);
+  }
+}
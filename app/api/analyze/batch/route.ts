@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BatchAnalyzeRequest, BatchAnalyzeRequestSchema, BatchTickerResult } from '@/lib/core/schema';
+import { EventWindow, EstimationSettings, parseEventWindows, parseEstimationSettings } from '@/lib/core/windows';
+import { ExpectedReturnModel, parseExpectedReturnModel } from '@/lib/core/factors';
+import { BenchmarkSpec, parseBenchSpec } from '@/lib/core/benchmarks';
+import { BetaMethod, parseBetaMethod } from '@/lib/core/beta';
+import { SignificanceSettings, parseSignificanceSettings } from '@/lib/core/significance';
+import { runAnalyzePipeline, computeExtendedFrom, resolveBenchmark, ResolvedBenchmark } from '@/lib/core/analyze-pipeline';
+import { DEFAULT_PIPELINE_CONCURRENCY, mapWithConcurrency } from '@/lib/core/concurrency';
+import {
+  checkRouteRateLimit, dateRangeResponse, errorResponse, paramErrorResponse, parseTickerList, rateLimitHeaders, readRouteParams,
+  routeErrorResponse, tickerErrorCode,
+} from '@/lib/core/api-route';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const MAX_TICKERS = parseInt(process.env.ANALYZE_BATCH_MAX_TICKERS || '25', 10) || 25;
+const MAX_CONCURRENCY = 5;
+
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await checkRouteRateLimit(request);
+    if (rateLimit.response) return rateLimit.response;
+
+    const read = await readRouteParams(request, BatchAnalyzeRequestSchema);
+    if (read.response) return read.response;
+    const body = read.params as BatchAnalyzeRequest; // POST only: always the validated body
+    const tickers = parseTickerList(body.tickers);
+    if (tickers.length === 0 || tickers.length > MAX_TICKERS) {
+      return errorResponse('ERR_TOO_MANY_TICKERS', 400, `tickers must contain 1-${MAX_TICKERS} symbols`);
+    }
+    const { from, to } = body;
+    const dateError = dateRangeResponse(from, to);
+    if (dateError) return dateError;
+
+    let windows: EventWindow[];
+    let estimation: EstimationSettings;
+    let model: ExpectedReturnModel;
+    let betaMethod: BetaMethod;
+    let bench: BenchmarkSpec;
+    let significance: SignificanceSettings | null;
+    try {
+      windows = parseEventWindows(body.windows);
+      estimation = parseEstimationSettings(body.estimation_window, body.estimation_gap, body.exclude_events, body.winsorize);
+      model = parseExpectedReturnModel(body.model);
+      betaMethod = parseBetaMethod(body.beta_method);
+      bench = parseBenchSpec(body.bench);
+      significance = parseSignificanceSettings(body.significance, body.seed, body.resamples);
+    } catch (e) {
+      return paramErrorResponse(e);
+    }
+
+    const noCache = body.nocache === true;
+    const concurrency = Math.min(MAX_CONCURRENCY, body.concurrency ?? DEFAULT_PIPELINE_CONCURRENCY);
+
+    // 고정 벤치마크(티커/바스켓)는 한 번만 다운로드해 모든 티커에 공유; bench=auto는 티커별로 선택
+    let resolvedBench: ResolvedBenchmark | undefined;
+    if (bench.kind !== 'auto') {
+      try {
+        resolvedBench = await resolveBenchmark(bench, tickers[0], computeExtendedFrom(from, windows, estimation), to, noCache);
+      } catch (err) {
+        console.error('[Batch] Bench API error:', err);
+        return errorResponse('ERR_NO_BENCH', 422);
+      }
+    }
+
+    const results = await mapWithConcurrency<string, BatchTickerResult>(tickers, concurrency, async (ticker) => {
+      try {
+        const outcome = await runAnalyzePipeline({ ticker, from, to, bench, noCache, windows, estimation, model, betaMethod, significance, resolvedBench });
+        if (!outcome.ok) {
+          return { ticker, ok: false, error: { code: outcome.error, status: outcome.status, message: outcome.message } };
+        }
+        return { ticker, ok: true, data: outcome.data };
+      } catch (error) {
+        console.warn(`[Batch] ${ticker} failed:`, error);
+        const code = tickerErrorCode(error);
+        return { ticker, ok: false, error: { code, status: code === 'ERR_INTERNAL' ? 500 : 422 } };
+      }
+    });
+
+    const failed = results.filter(r => !r.ok).length;
+    return NextResponse.json({
+      success: true,
+      data: {
+        as_of: new Date().toISOString().split('T')[0],
+        from,
+        to,
+        results,
+        summary: { requested: tickers.length, succeeded: tickers.length - failed, failed },
+        notes: [
+          `bench=${resolvedBench ? resolvedBench.label : 'auto'}`,
+          resolvedBench ? 'bench_fetch=shared' : 'bench_fetch=per_ticker',
+          `concurrency=${concurrency}`,
+          `estimation=${estimation.length}d; gap=${estimation.gap}d`,
+          `estimation_exclude_events=${estimation.excludeEvents ? 'on' : 'off'}${estimation.winsorize > 0 ? `; winsorize=${estimation.winsorize}` : ''}`,
+          `model=${model}`,
+          `beta_method=${betaMethod}`,
+        ],
+      },
+    }, {
+      headers: rateLimitHeaders(rateLimit.remaining),
+    });
+  } catch (error) {
+    return routeErrorResponse('Batch analyze', error);
+  }
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ChartRequestSchema } from '@/lib/core/schema';
+import { EventWindow, EstimationSettings, formatWindowLabel, parseEventWindows, parseEstimationSettings } from '@/lib/core/windows';
+import { ExpectedReturnModel, parseExpectedReturnModel } from '@/lib/core/factors';
+import { BenchmarkSpec, parseBenchSpec } from '@/lib/core/benchmarks';
+import { BetaMethod, parseBetaMethod } from '@/lib/core/beta';
+import { ChartOptions, MAX_CHART_EVENTS, buildChartSeries, parseChartOptions, renderChartPNG, renderChartSVG } from '@/lib/core/chart';
+import { runAnalyzePipeline } from '@/lib/core/analyze-pipeline';
+import { isValidISODate } from '@/lib/validation';
+import {
+  checkRouteRateLimit, dateRangeResponse, errorResponse, paramErrorResponse, rateLimitHeaders, readRouteParams, routeErrorResponse,
+} from '@/lib/core/api-route';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  return handleRequest(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handleRequest(request);
+}
+
+async function handleRequest(request: NextRequest) {
+  try {
+    const rateLimit = await checkRouteRateLimit(request);
+    if (rateLimit.response) return rateLimit.response;
+
+    const read = await readRouteParams(request, ChartRequestSchema);
+    if (read.response) return read.response;
+    const p = read.params;
+    const ticker = (p.ticker || '').trim().toUpperCase();
+    const from = p.from || '';
+    const to = p.to || '';
+    if (!ticker || !from || !to) {
+      return errorResponse('ERR_INVALID_INPUT', 400, 'Missing required parameters: ticker, from, to');
+    }
+    const dateError = dateRangeResponse(from, to);
+    if (dateError) return dateError;
+
+    const events = (typeof p.events === 'string' ? p.events.split(',') : p.events ?? [])
+      .map(d => d.trim())
+      .filter(Boolean);
+    if (events.some(d => !isValidISODate(d))) {
+      return errorResponse('ERR_INVALID_INPUT', 400, 'events must be announcement dates (YYYY-MM-DD), comma-separated.');
+    }
+
+    let windows: EventWindow[];
+    let estimation: EstimationSettings;
+    let model: ExpectedReturnModel;
+    let betaMethod: BetaMethod;
+    let bench: BenchmarkSpec;
+    let chart: ChartOptions;
+    try {
+      windows = parseEventWindows(p.windows);
+      estimation = parseEstimationSettings(p.estimation_window, p.estimation_gap);
+      model = parseExpectedReturnModel(p.model);
+      betaMethod = parseBetaMethod(p.beta_method);
+      bench = parseBenchSpec(p.bench);
+      chart = parseChartOptions(p.mode, p.format, p.width, p.height);
+    } catch (e) {
+      return paramErrorResponse(e);
+    }
+
+    // 요청 윈도우 전체를 덮는 구간의 일별 경로를 그리고, 각 윈도우는 경계로 표시
+    const span: [number, number] = [Math.min(...windows.map(w => w.window[0])), Math.max(...windows.map(w => w.window[1]))];
+    const spanLabel = formatWindowLabel(span);
+    const pipelineWindows = windows.some(w => w.label === spanLabel) ? windows : [...windows, { window: span, label: spanLabel }];
+
+    const outcome = await runAnalyzePipeline({ ticker, from, to, bench, windows: pipelineWindows, estimation, model, betaMethod, includePath: true });
+    if (!outcome.ok) {
+      return errorResponse(outcome.error, outcome.status, outcome.message);
+    }
+
+    const matched = outcome.data.segments
+      .filter(s => s.price_reaction.window === spanLabel && s.price_reaction.path && s.price_reaction.path.length > 0)
+      .filter(s => events.length === 0 || events.includes(s.earnings.date))
+      .sort((a, b) => a.earnings.date.localeCompare(b.earnings.date));
+    if (matched.length === 0) {
+      return errorResponse(
+        'ERR_NO_EVENTS',
+        404,
+        events.length ? 'None of the requested events were found in the range.' : 'No earnings events with price data in the range.'
+      );
+    }
+    // 최근 이벤트 우선
+    const plotted = matched.slice(-MAX_CHART_EVENTS);
+
+    const benchLabel = outcome.data.notes.find(n => n.startsWith('bench='))?.slice('bench='.length);
+    const spec = {
+      title: `${ticker} ${chart.mode === 'car' ? 'cumulative abnormal return' : 'price vs benchmark'}`,
+      subtitle: `model=${model}; bench=${benchLabel ?? 'n/a'}; events=${plotted.length}${matched.length > plotted.length ? ` of ${matched.length}` : ''}`,
+      mode: chart.mode,
+      series: buildChartSeries(plotted, chart.mode, { logReturns: model === 'market', ticker, benchLabel }),
+      windows: windows.map(w => w.window),
+    };
+
+    const headers = {
+      ...rateLimitHeaders(rateLimit.remaining),
+      'X-Chart-Events': plotted.map(s => s.earnings.date).join(','),
+      'Cache-Control': 'no-store',
+    };
+    if (chart.format === 'png') {
+      return new NextResponse(new Uint8Array(renderChartPNG(spec, chart.width, chart.height)), {
+        headers: { ...headers, 'Content-Type': 'image/png' },
+      });
+    }
+    return new NextResponse(renderChartSVG(spec, chart.width, chart.height), {
+      headers: { ...headers, 'Content-Type': 'image/svg+xml; charset=utf-8' },
+    });
+  } catch (error) {
+    return routeErrorResponse('Chart', error);
+  }
+}
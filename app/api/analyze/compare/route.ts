@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CompareRequestSchema } from '@/lib/core/schema';
+import { EventWindow, EstimationSettings, parseEstimationSettings, parseSingleWindow } from '@/lib/core/windows';
+import { ExpectedReturnModel, parseExpectedReturnModel } from '@/lib/core/factors';
+import { BetaMethod, parseBetaMethod } from '@/lib/core/beta';
+import { BenchmarkSpec, formatBenchLabel, parseBenchSpec } from '@/lib/core/benchmarks';
+import { runAnalyzePipeline } from '@/lib/core/analyze-pipeline';
+import { COMPARE_DECIMALS, CompareInput, compareByPeriod } from '@/lib/core/compare';
+import { getCompanyProfileFromSEC } from '@/lib/external/sec-edgar';
+import { DEFAULT_PIPELINE_CONCURRENCY, mapWithConcurrency } from '@/lib/core/concurrency';
+import {
+  SINGLE_WINDOW_ERRORS, checkRouteRateLimit, dateRangeResponse, errorResponse, paramErrorResponse, parseTickerList, rateLimitHeaders,
+  readRouteParams, routeErrorResponse, tickerErrorCode,
+} from '@/lib/core/api-route';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  return handleRequest(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handleRequest(request);
+}
+
+async function handleRequest(request: NextRequest) {
+  try {
+    const rateLimit = await checkRouteRateLimit(request);
+    if (rateLimit.response) return rateLimit.response;
+
+    const read = await readRouteParams(request, CompareRequestSchema);
+    if (read.response) return read.response;
+    const p = read.params;
+    const tickers = parseTickerList(p.tickers);
+    const from = p.from || '';
+    const to = p.to || '';
+    if (tickers.length < 2 || tickers.length > 10 || !from || !to) {
+      return errorResponse('ERR_INVALID_INPUT', 400, 'Required: tickers (2-10, comma-separated), from, to');
+    }
+    const dateError = dateRangeResponse(from, to);
+    if (dateError) return dateError;
+
+    // 비교 표는 단일 윈도우(기본 [-1,+5])의 CAR/t 기준
+    let window: EventWindow;
+    let estimation: EstimationSettings;
+    let model: ExpectedReturnModel;
+    let betaMethod: BetaMethod;
+    let bench: BenchmarkSpec;
+    try {
+      window = parseSingleWindow(p.window);
+      estimation = parseEstimationSettings(p.estimation_window, p.estimation_gap, p.exclude_events, p.winsorize);
+      model = parseExpectedReturnModel(p.model);
+      betaMethod = parseBetaMethod(p.beta_method);
+      bench = parseBenchSpec(p.bench);
+    } catch (e) {
+      return paramErrorResponse(e, SINGLE_WINDOW_ERRORS);
+    }
+
+    type TickerRun = { ticker: string; company: string | null; fiscal_year_end: string | null; events: number; error?: string; input: CompareInput };
+    const runs = await mapWithConcurrency<string, TickerRun>(tickers, DEFAULT_PIPELINE_CONCURRENCY, async (ticker) => {
+      try {
+        const [outcome, company] = await Promise.all([
+          runAnalyzePipeline({ ticker, from, to, bench, windows: [window], estimation, model, betaMethod }),
+          getCompanyProfileFromSEC(ticker).catch(() => null),
+        ]);
+        const fiscalYearEnd = company?.fiscalYearEnd ?? null;
+        const base = { ticker, company: company?.name ?? null, fiscal_year_end: fiscalYearEnd };
+        if (!outcome.ok) {
+          return { ...base, events: 0, error: outcome.error, input: { ticker, fiscalYearEnd, segments: [] } };
+        }
+        return {
+          ...base,
+          events: outcome.data.segments.filter(s => s.price_reaction.window === window.label).length,
+          input: { ticker, fiscalYearEnd, segments: outcome.data.segments },
+        };
+      } catch (error) {
+        return { ticker, company: null, fiscal_year_end: null, events: 0, error: tickerErrorCode(error), input: { ticker, fiscalYearEnd: null, segments: [] } };
+      }
+    });
+    const inputs = runs.map(r => r.input);
+    const perTicker = runs.map(({ input: _input, ...rest }) => rest);
+
+    const { rows, duplicates } = compareByPeriod(inputs, window.label);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        tickers,
+        base: tickers[0],
+        from,
+        to,
+        as_of: new Date().toISOString().split('T')[0],
+        window: window.label,
+        periods: rows.length,
+        complete_periods: rows.filter(r => r.complete).length,
+        rows,
+        per_ticker: perTicker,
+        notes: [
+          `bench=${bench.kind === 'auto' ? 'auto' : formatBenchLabel(bench)}`,
+          `estimation=${estimation.length}d; gap=${estimation.gap}d`,
+          `estimation_exclude_events=${estimation.excludeEvents ? 'on' : 'off'}${estimation.winsorize > 0 ? `; winsorize=${estimation.winsorize}` : ''}`,
+          `model=${model}`,
+          `beta_method=${betaMethod}`,
+          'period=calendar quarter covering most of each fiscal quarter (EDGAR fiscalYearEnd; missing → 1231)',
+          `diff=<ticker>_minus_${tickers[0]}; values=rounded_${COMPARE_DECIMALS}dp`,
+          ...(duplicates > 0 ? [`duplicate_periods_dropped=${duplicates}`] : []),
+        ],
+      },
+    }, {
+      headers: rateLimitHeaders(rateLimit.remaining),
+    });
+  } catch (error) {
+    return routeErrorResponse('Compare', error);
+  }
+}
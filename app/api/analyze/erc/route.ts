@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ErcRequestSchema } from '@/lib/core/schema';
+import { EventWindow, EstimationSettings, parseEstimationSettings, parseSingleWindow } from '@/lib/core/windows';
+import { ExpectedReturnModel, parseExpectedReturnModel } from '@/lib/core/factors';
+import { BetaMethod, parseBetaMethod } from '@/lib/core/beta';
+import { BenchmarkSpec, formatBenchLabel, parseBenchSpec } from '@/lib/core/benchmarks';
+import { runAnalyzePipeline } from '@/lib/core/analyze-pipeline';
+import { ERCPoint, ERCResult, SurpriseMeasure, ercRegression, parseSurpriseMeasure } from '@/lib/core/erc';
+import { DEFAULT_PIPELINE_CONCURRENCY, mapWithConcurrency } from '@/lib/core/concurrency';
+import {
+  SINGLE_WINDOW_ERRORS, checkRouteRateLimit, dateRangeResponse, errorResponse, paramErrorResponse, parseTickerList, rateLimitHeaders,
+  readRouteParams, routeErrorResponse, tickerErrorCode,
+} from '@/lib/core/api-route';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  return handleRequest(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handleRequest(request);
+}
+
+async function handleRequest(request: NextRequest) {
+  try {
+    const rateLimit = await checkRouteRateLimit(request);
+    if (rateLimit.response) return rateLimit.response;
+
+    const read = await readRouteParams(request, ErcRequestSchema, { ticker: 'tickers' });
+    if (read.response) return read.response;
+    const p = read.params;
+    const tickers = parseTickerList(p.tickers);
+    const from = p.from || '';
+    const to = p.to || '';
+    if (tickers.length === 0 || tickers.length > 50 || !from || !to) {
+      return errorResponse('ERR_INVALID_INPUT', 400, 'Required: tickers (1-50, comma-separated), from, to');
+    }
+    const dateError = dateRangeResponse(from, to);
+    if (dateError) return dateError;
+
+    // ERC는 단일 윈도우(기본 [-1,+5])에 대해서만 회귀
+    let window: EventWindow;
+    let estimation: EstimationSettings;
+    let model: ExpectedReturnModel;
+    let betaMethod: BetaMethod;
+    let bench: BenchmarkSpec;
+    let measure: SurpriseMeasure;
+    try {
+      window = parseSingleWindow(p.window);
+      estimation = parseEstimationSettings(p.estimation_window, p.estimation_gap, p.exclude_events, p.winsorize);
+      model = parseExpectedReturnModel(p.model);
+      betaMethod = parseBetaMethod(p.beta_method);
+      bench = parseBenchSpec(p.bench);
+      measure = parseSurpriseMeasure(p.surprise);
+    } catch (e) {
+      return paramErrorResponse(e, SINGLE_WINDOW_ERRORS);
+    }
+
+    // 티커별 파이프라인 병렬 실행(입력 순서 유지)
+    type TickerRun = { ticker: string; events: number; points: number; error?: string; regression?: ERCResult | null; own: ERCPoint[] };
+    const runs = await mapWithConcurrency<string, TickerRun>(tickers, DEFAULT_PIPELINE_CONCURRENCY, async (ticker) => {
+      try {
+        const outcome = await runAnalyzePipeline({ ticker, from, to, bench, windows: [window], estimation, model, betaMethod });
+        if (!outcome.ok) return { ticker, events: 0, points: 0, error: outcome.error, own: [] };
+        const own: ERCPoint[] = [];
+        for (const seg of outcome.data.segments) {
+          if (seg.price_reaction.window !== window.label) continue;
+          const x = seg.earnings[measure];
+          if (typeof x !== 'number' || !isFinite(x) || !isFinite(seg.price_reaction.car)) continue;
+          own.push({
+            ticker,
+            event_date: seg.earnings.date,
+            surprise: x,
+            car: seg.price_reaction.car,
+            expectation_model: measure.startsWith('rev') ? seg.earnings.rev_expectation_model : seg.earnings.expectation_model,
+          });
+        }
+        return { ticker, events: outcome.data.segments.length, points: own.length, regression: ercRegression(own), own };
+      } catch (error) {
+        return { ticker, events: 0, points: 0, error: tickerErrorCode(error), own: [] };
+      }
+    });
+    const points = runs.flatMap(r => r.own);
+    const perTicker = runs.map(({ own: _own, ...rest }) => rest);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        tickers,
+        from,
+        to,
+        as_of: new Date().toISOString().split('T')[0],
+        window: window.label,
+        surprise: measure,
+        regression: ercRegression(points),
+        per_ticker: perTicker,
+        points,
+        notes: [
+          `bench=${bench.kind === 'auto' ? 'auto' : formatBenchLabel(bench)}`,
+          `estimation=${estimation.length}d; gap=${estimation.gap}d`,
+          `estimation_exclude_events=${estimation.excludeEvents ? 'on' : 'off'}${estimation.winsorize > 0 ? `; winsorize=${estimation.winsorize}` : ''}`,
+          `model=${model}`,
+          `beta_method=${betaMethod}`,
+          'erc=ols(car ~ surprise); se=hc1; p_values=two_sided_normal',
+        ],
+      },
+    }, {
+      headers: rateLimitHeaders(rateLimit.remaining),
+    });
+  } catch (error) {
+    return routeErrorResponse('ERC', error);
+  }
+}
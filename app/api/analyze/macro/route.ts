@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MacroRequestSchema } from '@/lib/core/schema';
+import { EventWindow, EstimationSettings, parseEventWindows, parseEstimationSettings, parseIncludeSpec } from '@/lib/core/windows';
+import { ExpectedReturnModel, parseExpectedReturnModel } from '@/lib/core/factors';
+import { BenchmarkSpec, parseBenchSpec } from '@/lib/core/benchmarks';
+import { SignificanceSettings, parseSignificanceSettings } from '@/lib/core/significance';
+import { BetaMethod, parseBetaMethod } from '@/lib/core/beta';
+import { StudyMeasure, parseMacroTypes, parseStudyMeasure, summarizeReturns } from '@/lib/core/macro';
+import { runMacroEventStudy } from '@/lib/core/event-study';
+import { aggregateCAAR } from '@/lib/core/caar';
+import { MACRO_CALENDAR, MacroEventType } from '@/lib/data/macro-events';
+import {
+  checkRouteRateLimit, dateRangeResponse, errorResponse, paramErrorResponse, parseFlag, rateLimitHeaders, readRouteParams,
+  routeErrorResponse,
+} from '@/lib/core/api-route';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  return handleRequest(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handleRequest(request);
+}
+
+async function handleRequest(request: NextRequest) {
+  try {
+    const rateLimit = await checkRouteRateLimit(request);
+    if (rateLimit.response) return rateLimit.response;
+
+    const read = await readRouteParams(request, MacroRequestSchema);
+    if (read.response) return read.response;
+    const p = read.params;
+    const ticker = (p.ticker || '').trim().toUpperCase();
+    const from = p.from || '';
+    const to = p.to || '';
+    if (!ticker || !from || !to) {
+      return errorResponse('ERR_INVALID_INPUT', 400, 'Missing required parameters: ticker, from, to');
+    }
+    const dateError = dateRangeResponse(from, to);
+    if (dateError) return dateError;
+
+    const noCache = parseFlag(p.nocache);
+
+    let types: MacroEventType[];
+    let measure: StudyMeasure;
+    let windows: EventWindow[];
+    let estimation: EstimationSettings;
+    let model: ExpectedReturnModel;
+    let betaMethod: BetaMethod;
+    let bench: BenchmarkSpec;
+    let significance: SignificanceSettings | null;
+    let includePath: boolean;
+    try {
+      types = parseMacroTypes(p.types);
+      measure = parseStudyMeasure(p.measure);
+      windows = parseEventWindows(p.windows);
+      estimation = parseEstimationSettings(p.estimation_window, p.estimation_gap, p.exclude_events, p.winsorize);
+      model = parseExpectedReturnModel(p.model);
+      betaMethod = parseBetaMethod(p.beta_method);
+      bench = parseBenchSpec(p.bench);
+      significance = parseSignificanceSettings(p.significance, p.seed, p.resamples);
+      includePath = parseIncludeSpec(p.include).has('path');
+    } catch (e) {
+      return paramErrorResponse(e);
+    }
+
+    const outcome = await runMacroEventStudy({
+      ticker, from, to, types, bench, noCache, windows, estimation, model, betaMethod, significance, includePath,
+    });
+    if (!outcome.ok) {
+      return errorResponse(outcome.error, outcome.status, outcome.message);
+    }
+
+    // 이벤트 유형 × 윈도우별 풀링 (같은 날 겹친 발표는 각 유형에 모두 포함)
+    const typesByDate = new Map(outcome.events.map(e => [e.date, e.types]));
+    const summary = types.flatMap(type => windows.map(({ label }) => {
+      const group = outcome.samples.filter(s => s.window === label && (typesByDate.get(s.event_date) ?? []).includes(type));
+      const coincident = group.filter(s => (typesByDate.get(s.event_date) ?? []).length > 1).length;
+      if (measure === 'raw') {
+        const raw = summarizeReturns(group.map(s => s.raw).filter((v): v is number => typeof v === 'number'));
+        return { type, window: label, ...(raw ?? { n: 0 }), coincident_n: coincident };
+      }
+      return { type, window: label, ...(aggregateCAAR(group) ?? { n: 0 }), coincident_n: coincident };
+    }));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ticker,
+        from,
+        to,
+        as_of: outcome.data.as_of,
+        measure,
+        dataset: {
+          version: MACRO_CALENDAR.version,
+          coverage: MACRO_CALENDAR.coverage,
+          sources: MACRO_CALENDAR.sources,
+        },
+        events: outcome.events.length,
+        summary,
+        segments: outcome.data.segments,
+        notes: [
+          ...outcome.data.notes,
+          measure === 'raw'
+            ? 'summary=raw_buy_and_hold; t=mean/(sd/sqrt(n)); p_values=two_sided_normal'
+            : 'summary=caar; p_values=two_sided_normal',
+        ],
+      },
+    }, {
+      headers: {
+        ...rateLimitHeaders(rateLimit.remaining),
+        ...(noCache ? { 'Cache-Control': 'no-store, no-cache, must-revalidate' } : {}),
+      },
+    });
+  } catch (error) {
+    return routeErrorResponse('Macro event', error);
+  }
+}
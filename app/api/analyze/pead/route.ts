@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PeadRequestSchema } from '@/lib/core/schema';
+import { EventWindow, EstimationSettings, parseEstimationSettings, parseSingleWindow } from '@/lib/core/windows';
+import { ExpectedReturnModel, parseExpectedReturnModel } from '@/lib/core/factors';
+import { BetaMethod, parseBetaMethod } from '@/lib/core/beta';
+import { BenchmarkSpec, formatBenchLabel, parseBenchSpec } from '@/lib/core/benchmarks';
+import { runAnalyzePipeline } from '@/lib/core/analyze-pipeline';
+import { SurpriseMeasure, parseSurpriseMeasure } from '@/lib/core/erc';
+import { PEADEvent, PEAD_MIN_EVENTS, PEAD_MIN_PATH_N, PEAD_WINDOW, assignQuintiles, carAtWindowEnd, peadStudy } from '@/lib/core/pead';
+import { DEFAULT_PIPELINE_CONCURRENCY, mapWithConcurrency } from '@/lib/core/concurrency';
+import {
+  SINGLE_WINDOW_ERRORS, checkRouteRateLimit, dateRangeResponse, errorResponse, paramErrorResponse, parseTickerList, rateLimitHeaders,
+  readRouteParams, routeErrorResponse, tickerErrorCode,
+} from '@/lib/core/api-route';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  return handleRequest(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handleRequest(request);
+}
+
+async function handleRequest(request: NextRequest) {
+  try {
+    const rateLimit = await checkRouteRateLimit(request);
+    if (rateLimit.response) return rateLimit.response;
+
+    const read = await readRouteParams(request, PeadRequestSchema, { ticker: 'tickers' });
+    if (read.response) return read.response;
+    const p = read.params;
+    const tickers = parseTickerList(p.tickers);
+    const from = p.from || '';
+    const to = p.to || '';
+    if (tickers.length === 0 || tickers.length > 50 || !from || !to) {
+      return errorResponse('ERR_INVALID_INPUT', 400, 'Required: tickers (1-50, comma-separated), from, to');
+    }
+    const dateError = dateRangeResponse(from, to);
+    if (dateError) return dateError;
+
+    // 드리프트 윈도우는 단일(기본 [+2,+60]), 일별 경로로 이벤트 시간 CAR 평균
+    let window: EventWindow;
+    let estimation: EstimationSettings;
+    let model: ExpectedReturnModel;
+    let betaMethod: BetaMethod;
+    let bench: BenchmarkSpec;
+    let measure: SurpriseMeasure;
+    try {
+      window = parseSingleWindow(p.window, PEAD_WINDOW);
+      estimation = parseEstimationSettings(p.estimation_window, p.estimation_gap, p.exclude_events, p.winsorize);
+      model = parseExpectedReturnModel(p.model);
+      betaMethod = parseBetaMethod(p.beta_method);
+      bench = parseBenchSpec(p.bench);
+      measure = parseSurpriseMeasure(p.surprise);
+    } catch (e) {
+      return paramErrorResponse(e, SINGLE_WINDOW_ERRORS);
+    }
+
+    type TickerRun = { ticker: string; events: number; used: number; error?: string; own: PEADEvent[] };
+    const runs = await mapWithConcurrency<string, TickerRun>(tickers, DEFAULT_PIPELINE_CONCURRENCY, async (ticker) => {
+      try {
+        const outcome = await runAnalyzePipeline({ ticker, from, to, bench, windows: [window], estimation, model, betaMethod, includePath: true });
+        if (!outcome.ok) return { ticker, events: 0, used: 0, error: outcome.error, own: [] };
+        const own: PEADEvent[] = [];
+        for (const seg of outcome.data.segments) {
+          if (seg.price_reaction.window !== window.label) continue;
+          const x = seg.earnings[measure];
+          const path = seg.price_reaction.path;
+          if (typeof x !== 'number' || !isFinite(x) || !path || path.length === 0) continue;
+          own.push({ ticker, event_date: seg.earnings.date, surprise: x, path: path.map(p => ({ offset: p.offset, car: p.car })) });
+        }
+        return { ticker, events: outcome.data.segments.length, used: own.length, own };
+      } catch (error) {
+        return { ticker, events: 0, used: 0, error: tickerErrorCode(error), own: [] };
+      }
+    });
+    const events = runs.flatMap(r => r.own);
+    const perTicker = runs.map(({ own: _own, ...rest }) => rest);
+
+    const windowEnd = window.window[1];
+    const result = peadStudy(events, windowEnd);
+    const quintileOf = result ? assignQuintiles(events) : [];
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        tickers,
+        from,
+        to,
+        as_of: new Date().toISOString().split('T')[0],
+        window: window.label,
+        surprise: measure,
+        n: events.length,
+        quintiles: result?.quintiles ?? null,
+        spread: result?.spread ?? null,
+        events: events.map((e, i) => ({
+          ticker: e.ticker,
+          event_date: e.event_date,
+          surprise: e.surprise,
+          quintile: quintileOf[i] ?? null,
+          car_end: carAtWindowEnd(e, windowEnd),
+          last_offset: e.path[e.path.length - 1].offset,
+        })),
+        per_ticker: perTicker,
+        notes: [
+          `bench=${bench.kind === 'auto' ? 'auto' : formatBenchLabel(bench)}`,
+          `estimation=${estimation.length}d; gap=${estimation.gap}d`,
+          `estimation_exclude_events=${estimation.excludeEvents ? 'on' : 'off'}${estimation.winsorize > 0 ? `; winsorize=${estimation.winsorize}` : ''}`,
+          `model=${model}`,
+          `beta_method=${betaMethod}`,
+          `pead=pooled_rank_quintiles; min_events=${PEAD_MIN_EVENTS}; ties=ticker,date`,
+          `car_end=window_end_complete_paths_only; path_min_n=${PEAD_MIN_PATH_N}`,
+          'spread=top_minus_bottom; t=welch; p_values=two_sided_normal',
+          ...(result ? [] : [`insufficient_events (need ${PEAD_MIN_EVENTS} with ${measure} and price path)`]),
+        ],
+      },
+    }, {
+      headers: rateLimitHeaders(rateLimit.remaining),
+    });
+  } catch (error) {
+    return routeErrorResponse('PEAD', error);
+  }
+}
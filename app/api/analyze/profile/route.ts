@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ProfileRequestSchema } from '@/lib/core/schema';
+import { EventWindow, EstimationSettings, parseEventWindows, parseEstimationSettings } from '@/lib/core/windows';
+import { ExpectedReturnModel, parseExpectedReturnModel } from '@/lib/core/factors';
+import { BenchmarkSpec, parseBenchSpec } from '@/lib/core/benchmarks';
+import { runAnalyzePipeline } from '@/lib/core/analyze-pipeline';
+import { PROFILE_DECIMALS, buildWindowProfile } from '@/lib/core/profile';
+import { getCompanyProfileFromSEC } from '@/lib/external/sec-edgar';
+import { isValidISODate } from '@/lib/validation';
+import {
+  checkRouteRateLimit, dateRangeResponse, errorResponse, paramErrorResponse, rateLimitHeaders, readRouteParams, routeErrorResponse,
+} from '@/lib/core/api-route';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_PROFILE_YEARS = 10;
+
+export async function GET(request: NextRequest) {
+  return handleRequest(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handleRequest(request);
+}
+
+async function handleRequest(request: NextRequest) {
+  try {
+    const rateLimit = await checkRouteRateLimit(request);
+    if (rateLimit.response) return rateLimit.response;
+
+    const read = await readRouteParams(request, ProfileRequestSchema);
+    if (read.response) return read.response;
+    const p = read.params;
+    const ticker = (p.ticker || '').trim().toUpperCase();
+    if (!ticker) {
+      return errorResponse('ERR_INVALID_INPUT', 400, 'Missing required parameter: ticker');
+    }
+    // 기본 구간: 최근 10년
+    const to = p.to || new Date().toISOString().split('T')[0];
+    let from = p.from || '';
+    if (!from && isValidISODate(to)) {
+      const start = new Date(`${to}T00:00:00Z`);
+      start.setUTCFullYear(start.getUTCFullYear() - DEFAULT_PROFILE_YEARS);
+      from = start.toISOString().split('T')[0];
+    }
+    const dateError = dateRangeResponse(from, to);
+    if (dateError) return dateError;
+
+    let windows: EventWindow[];
+    let estimation: EstimationSettings;
+    let model: ExpectedReturnModel;
+    let bench: BenchmarkSpec;
+    try {
+      windows = parseEventWindows(p.windows);
+      estimation = parseEstimationSettings(p.estimation_window, p.estimation_gap);
+      model = parseExpectedReturnModel(p.model);
+      bench = parseBenchSpec(p.bench);
+    } catch (e) {
+      return paramErrorResponse(e);
+    }
+
+    const [outcome, company] = await Promise.all([
+      runAnalyzePipeline({ ticker, from, to, bench, windows, estimation, model }),
+      getCompanyProfileFromSEC(ticker).catch(() => null),
+    ]);
+    if (!outcome.ok) {
+      return errorResponse(outcome.error, outcome.status, outcome.message);
+    }
+
+    const segments = outcome.data.segments;
+    const fiscalYearEnd = company?.fiscalYearEnd ?? null;
+    const eventDates = Array.from(new Set(segments.map(s => s.earnings.date))).sort();
+    const withSurprise = new Set(segments.filter(s => typeof s.earnings.eps_surprise === 'number').map(s => s.earnings.date));
+    const consensus = new Set(segments.filter(s => s.earnings.expectation_model === 'consensus').map(s => s.earnings.date));
+    const benchNote = outcome.data.notes.find(n => n.startsWith('bench='));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ticker,
+        company: company?.name ?? null,
+        from,
+        to,
+        as_of: outcome.data.as_of,
+        events: eventDates.length,
+        first_event: eventDates[0] ?? null,
+        last_event: eventDates[eventDates.length - 1] ?? null,
+        windows: windows.map(w => buildWindowProfile(segments, w.label, fiscalYearEnd)),
+        notes: [
+          benchNote ?? `bench=${bench.kind}`,
+          `model=${model}`,
+          `fiscal_year_end=${fiscalYearEnd ?? '1231 (assumed)'}`,
+          `beat_miss=eps_surprise sign; with_surprise=${withSurprise.size}; consensus=${consensus.size}`,
+          `values=rounded_${PROFILE_DECIMALS}dp; car=price_reaction.car`,
+          ...(eventDates.length === 0 ? outcome.data.notes.slice(0, 1) : []),
+        ],
+      },
+    }, {
+      headers: rateLimitHeaders(rateLimit.remaining),
+    });
+  } catch (error) {
+    return routeErrorResponse('Profile', error);
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { EventStudyRequest, EventStudyRequestSchema } from '@/lib/core/schema';
+import { EventWindow, EstimationSettings, parseEventWindows, parseEstimationSettings, parseIncludeSpec } from '@/lib/core/windows';
+import { ExpectedReturnModel, parseExpectedReturnModel } from '@/lib/core/factors';
+import { BenchmarkSpec, formatBenchLabel, parseBenchSpec } from '@/lib/core/benchmarks';
+import { SignificanceSettings, parseSignificanceSettings } from '@/lib/core/significance';
+import { BetaMethod, parseBetaMethod } from '@/lib/core/beta';
+import { MAX_EVENT_LABEL, MAX_EVENT_TICKERS, MAX_USER_EVENTS, UserEvent, parseUserEvents } from '@/lib/core/events';
+import { runEventStudy } from '@/lib/core/event-study';
+import { aggregateCAAR, twoSidedP } from '@/lib/core/caar';
+import { skewnessAdjustedT } from '@/lib/core/car';
+import { checkRouteRateLimit, errorResponse, paramErrorResponse, rateLimitHeaders, readRouteParams, routeErrorResponse } from '@/lib/core/api-route';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await checkRouteRateLimit(request);
+    if (rateLimit.response) return rateLimit.response;
+
+    const read = await readRouteParams(request, EventStudyRequestSchema);
+    if (read.response) return read.response;
+    const body = read.params as EventStudyRequest; // POST only: always the validated body
+
+    let events: UserEvent[];
+    let windows: EventWindow[];
+    let estimation: EstimationSettings;
+    let model: ExpectedReturnModel;
+    let betaMethod: BetaMethod;
+    let bench: BenchmarkSpec;
+    let significance: SignificanceSettings | null;
+    let includePath: boolean;
+    try {
+      events = parseUserEvents(body.events);
+      windows = parseEventWindows(body.windows);
+      estimation = parseEstimationSettings(body.estimation_window, body.estimation_gap, body.exclude_events, body.winsorize);
+      model = parseExpectedReturnModel(body.model);
+      betaMethod = parseBetaMethod(body.beta_method);
+      bench = parseBenchSpec(body.bench);
+      significance = parseSignificanceSettings(body.significance, body.seed, body.resamples);
+      includePath = parseIncludeSpec(body.include).has('path');
+    } catch (e) {
+      return paramErrorResponse(e, {
+        ERR_INVALID_EVENTS: `events must be 1-${MAX_USER_EVENTS} entries of {ticker, date: YYYY-MM-DD, when?: bmo|amc|dmh|unknown, label?: up to ${MAX_EVENT_LABEL} chars}.`,
+        ERR_TOO_MANY_TICKERS: `events may span at most ${MAX_EVENT_TICKERS} tickers.`,
+      });
+    }
+
+    const outcome = await runEventStudy({
+      events, bench, windows, estimation, model, betaMethod, significance, includePath, noCache: body.nocache === true,
+    });
+    if (!outcome.ok) {
+      return errorResponse(outcome.error, outcome.status, outcome.message);
+    }
+
+    // 전체 이벤트 풀링 CAAR (윈도우 단위)
+    const caar = windows.map(({ label }) => {
+      const group = outcome.samples.filter(s => s.window === label);
+      const bhars = group.map(s => s.bhar).filter((v): v is number => typeof v === 'number');
+      const lbt = skewnessAdjustedT(bhars);
+      return {
+        window: label,
+        ...(aggregateCAAR(group) ?? { n: 0 }),
+        confounded_n: group.filter(s => s.confounded).length,
+        timing_inferred_n: group.filter(s => s.timing_inferred).length,
+        bhar: bhars.length ? {
+          n: bhars.length,
+          mean: bhars.reduce((s, v) => s + v, 0) / bhars.length,
+          skewness_adjusted_t: lbt ? { stat: lbt.t, p_value: twoSidedP(lbt.t) } : null,
+        } : null,
+      };
+    });
+
+    const analyzed = new Set(outcome.samples.map(s => `${s.ticker}|${s.event_date}`)).size;
+    return NextResponse.json({
+      success: true,
+      data: {
+        as_of: new Date().toISOString().split('T')[0],
+        events: { requested: events.length, analyzed },
+        results: outcome.results,
+        caar,
+        notes: [
+          `bench=${bench.kind === 'auto' ? 'auto (per ticker, see results[].notes)' : formatBenchLabel(bench)}`,
+          `estimation=${estimation.length}d; gap=${estimation.gap}d; exclude_events=${estimation.excludeEvents ? 'on' : 'off'}`,
+          `model=${model}`,
+          `beta_method=${betaMethod}`,
+          'caar=equal_weight; p_values=two_sided_normal',
+          'rank_test=corrado_multiday',
+          'bhar=vs_bench; t=lyon_barber_tsai_skewness_adjusted',
+        ],
+      },
+    }, {
+      headers: {
+        ...rateLimitHeaders(rateLimit.remaining),
+        ...(body.nocache ? { 'Cache-Control': 'no-store, no-cache, must-revalidate' } : {}),
+      },
+    });
+  } catch (error) {
+    return routeErrorResponse('Event study', error);
+  }
+}
@@ -69,7 +69,7 @@ export default function AnalyzeDocsPage() {
             실적(EPS)·매출 데이터는 Alpha Vantage/SEC, 가격 데이터는 Yahoo Finance에서 수집합니다.
           </li>
           <li>
-            실적 발표일을 기준으로 두 개의 기본 윈도우([-1,+5], [-5,+20])에 대한 누적 초과 수익률(CAR)을 제공합니다.
+            실적 발표일을 기준으로 두 개의 기본 윈도우([-1,+5], [-5,+20]) 또는 요청한 윈도우에 대한 누적 초과 수익률(CAR)을 제공합니다.
           </li>
         </ul>
       </Section>
@@ -126,6 +126,69 @@ export default function AnalyzeDocsPage() {
                   분석 기간의 종료일 (YYYY-MM-DD). 시작일보다 같거나 이후여야 합니다.
                 </td>
               </tr>
+              <tr>
+                <td className="px-4 py-3 font-mono text-xs text-slate-600 dark:text-slate-300">windows</td>
+                <td className="px-4 py-3 text-slate-700 dark:text-slate-300">선택</td>
+                <td className="px-4 py-3 text-slate-700 dark:text-slate-300">
+                  CAR 윈도우 목록 (예: <code className="font-mono">-20:-1,0:1,2:60</code>). 최대 10개, 기본값은 [-1,+5], [-5,+20]입니다.
+                </td>
+              </tr>
+              <tr>
+                <td className="px-4 py-3 font-mono text-xs text-slate-600 dark:text-slate-300">estimation_window</td>
+                <td className="px-4 py-3 text-slate-700 dark:text-slate-300">선택</td>
+                <td className="px-4 py-3 text-slate-700 dark:text-slate-300">
+                  시장모형 추정창 길이(거래일, 30~1000). 기본값 252.
+                </td>
+              </tr>
+              <tr>
+                <td className="px-4 py-3 font-mono text-xs text-slate-600 dark:text-slate-300">estimation_gap</td>
+                <td className="px-4 py-3 text-slate-700 dark:text-slate-300">선택</td>
+                <td className="px-4 py-3 text-slate-700 dark:text-slate-300">
+                  가장 이른 이벤트 윈도우 시작(늦어도 Day0 수익률 직전)과 추정창 종료 사이의 추가 공백(거래일, 0~250). 기본값 0.
+                </td>
+              </tr>
+              <tr>
+                <td className="px-4 py-3 font-mono text-xs text-slate-600 dark:text-slate-300">beta_method</td>
+                <td className="px-4 py-3 text-slate-700 dark:text-slate-300">선택</td>
+                <td className="px-4 py-3 text-slate-700 dark:text-slate-300">
+                  시장모형 베타 추정법: <code className="font-mono">ols</code>(기본), <code className="font-mono">scholes_williams</code>, <code className="font-mono">dimson</code>, <code className="font-mono">huber</code>. 진단값은 <code className="font-mono">alpha_beta</code>에 포함됩니다.
+                </td>
+              </tr>
+              <tr>
+                <td className="px-4 py-3 font-mono text-xs text-slate-600 dark:text-slate-300">exclude_events / winsorize</td>
+                <td className="px-4 py-3 text-slate-700 dark:text-slate-300">선택</td>
+                <td className="px-4 py-3 text-slate-700 dark:text-slate-300">
+                  다른 실적 이벤트·8-K 공시일 [-2,+2] 거래일을 추정창에서 제외(기본 true). <code className="font-mono">winsorize</code>는 추정 수익률 꼬리 절단 비율(0~0.1, 기본 0).
+                </td>
+              </tr>
+              <tr>
+                <td className="px-4 py-3 font-mono text-xs text-slate-600 dark:text-slate-300">bench</td>
+                <td className="px-4 py-3 text-slate-700 dark:text-slate-300">선택</td>
+                <td className="px-4 py-3 text-slate-700 dark:text-slate-300">
+                  벤치마크. 기본 <code className="font-mono">SPY</code>. 임의 티커, 바스켓(<code className="font-mono">XLF,KRE</code> 또는 <code className="font-mono">XLF:0.7,KRE:0.3</code>), 또는 <code className="font-mono">auto</code>(SEC SIC 코드 → 섹터 ETF, 실패 시 SPY). 선택 사유는 <code className="font-mono">notes</code>의 <code className="font-mono">bench_reason</code>에 표시됩니다.
+                </td>
+              </tr>
+              <tr>
+                <td className="px-4 py-3 font-mono text-xs text-slate-600 dark:text-slate-300">significance</td>
+                <td className="px-4 py-3 text-slate-700 dark:text-slate-300">선택</td>
+                <td className="px-4 py-3 text-slate-700 dark:text-slate-300">
+                  <code className="font-mono">bootstrap</code> 또는 <code className="font-mono">permutation</code>. 추정창 잔차로 CAR 귀무분포를 만들어 경험적 p-value와 백분위를 <code className="font-mono">price_reaction.significance</code>에 추가합니다. <code className="font-mono">seed</code>(기본 42), <code className="font-mono">resamples</code>(기본 2000)로 재현성을 제어합니다.
+                </td>
+              </tr>
+              <tr>
+                <td className="px-4 py-3 font-mono text-xs text-slate-600 dark:text-slate-300">include</td>
+                <td className="px-4 py-3 text-slate-700 dark:text-slate-300">선택</td>
+                <td className="px-4 py-3 text-slate-700 dark:text-slate-300">
+                  <code className="font-mono">path</code>: 각 윈도우에 일별 경로 <code className="font-mono">price_reaction.path</code>(날짜, Day0 기준 offset, 수익률, 벤치마크·기대수익률, AR, 누적 CAR)를 추가합니다.
+                </td>
+              </tr>
+              <tr>
+                <td className="px-4 py-3 font-mono text-xs text-slate-600 dark:text-slate-300">model</td>
+                <td className="px-4 py-3 text-slate-700 dark:text-slate-300">선택</td>
+                <td className="px-4 py-3 text-slate-700 dark:text-slate-300">
+                  기대수익률 모형: <code className="font-mono">market</code>(기본), <code className="font-mono">market_adjusted</code>, <code className="font-mono">ff3</code>, <code className="font-mono">ff5</code>, <code className="font-mono">carhart</code>. 팩터모형은 서버에 Ken French 일간 팩터 파일이 있어야 하며, 응답에 <code className="font-mono">factor_loadings</code>와 <code className="font-mono">r2</code>가 포함됩니다.
+                </td>
+              </tr>
             </tbody>
           </table>
         </div>
@@ -192,7 +255,7 @@ export default function AnalyzeDocsPage() {
             <strong>period</strong>: Day0 거래일을 기준으로 한 분석 윈도우의 실제 날짜 범위
           </li>
           <li>
-            <strong>price_reaction</strong>: 시장 대비 초과 수익률(CAR) 및 구성 값
+            <strong>price_reaction</strong>: 시장 대비 초과 수익률(CAR) 및 구성 값. <code className="font-mono">settings</code>에 해당 값을 만든 윈도우/추정창/gap 설정이 포함되며, <code className="font-mono">bhar</code>는 복리 기준 매수후보유 초과수익률입니다(왜도조정 t는 집계 API에서만 제공).
           </li>
           <li>
             <strong>source_urls</strong>: 데이터를 수집한 원천 링크 모음
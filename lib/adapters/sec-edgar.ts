@@ -2,14 +2,16 @@
 // 8-K 기반 이벤트일(D0) 해석 어댑터: index.json + Exhibit 99(Press Release)
 
 import { fetchAllSECReports, NormalizedSECFiling } from '@/lib/external/sec-edgar';
+import { sessionPhaseAtET, sessionPhaseET, whenFromSessionPhase } from '@/lib/core/tradingCalendar';
 
-type WhenFlag = 'bmo' | 'amc' | 'unknown';
+type WhenFlag = 'bmo' | 'amc' | 'dmh' | 'unknown';
+export type WhenSource = 'acceptance_timestamp' | 'press_text';
 type EventDateSource = '8-K_ex99' | 'filed_at' | 'period_of_report';
 
 export async function resolveEarningsEventDate(opts: {
   ticker: string;
   quarterEnd: string; // YYYY-MM-DD
-}): Promise<{ eventDateET: Date; when: WhenFlag; source: EventDateSource }> {
+}): Promise<{ eventDateET: Date; when: WhenFlag; source: EventDateSource; whenSource?: WhenSource | null }> {
   const ticker = String(opts.ticker || '').toUpperCase();
   const qeISO = opts.quarterEnd;
   const qe = new Date(qeISO);
@@ -69,7 +71,7 @@ export async function resolveEarningsEventDate(opts: {
 
   // 폴백: 아무것도 없으면 분기말 자체를 반환
   if (!chosen) {
-    return { eventDateET: snapETMidnight(qeISO), when: 'unknown', source: 'period_of_report' };
+    return { eventDateET: snapETMidnight(qeISO), when: 'unknown', source: 'period_of_report', whenSource: null };
   }
 
   // 소스 판정: press_release 존재 여부 → 8-K_ex99, 그 외 filed_at/period_of_report
@@ -85,25 +87,33 @@ export async function resolveEarningsEventDate(opts: {
   else if (chosen.period_of_report && candidateISO === chosen.period_of_report) source = 'period_of_report';
   else source = 'filed_at';
 
-  // BMO/AMC 판정: Exhibit 99 본문 우선 → 없으면 8-K 본문(primary) 헤더/문구에서 추정
+  // BMO/AMC 판정: EDGAR 접수 시각(acceptanceDateTime, 발표일과 같은 날일 때) 우선
+  // → Exhibit 99 본문 → 8-K 본문(primary) 헤더/문구
   let when: WhenFlag = 'unknown';
-  if (press && press.href) {
+  let whenSource: WhenSource | null = null;
+  const accepted = chosen.accepted_at ? sessionPhaseAtET(chosen.accepted_at) : null;
+  if (accepted && accepted.date === candidateISO) {
+    // 휴장일 접수는 다음 세션 전이므로 AMC와 동일하게 처리
+    when = whenFromSessionPhase(accepted.phase);
+    whenSource = 'acceptance_timestamp';
+  } else if (press && press.href) {
     try {
       const res = await secFetchLight(press.href, { headers: { Accept: 'text/html,text/plain,*/*' } });
       const text = (await res.text()).replace(/\s+/g, ' ').slice(0, 20000);
-      const flag = detectWhenFromTextET(text);
+      const flag = detectWhenFromTextET(text, candidateISO);
       if (flag) when = flag;
     } catch {}
   } else if (chosen?.urls?.primary) {
     try {
       const res = await secFetchLight(chosen.urls.primary, { headers: { Accept: 'text/html,text/plain,*/*' } });
       const text = (await res.text()).replace(/\s+/g, ' ').slice(0, 20000);
-      const flag = detectWhenFromTextET(text);
+      const flag = detectWhenFromTextET(text, candidateISO);
       if (flag) when = flag;
     } catch {}
   }
 
-  return { eventDateET: snapETMidnight(candidateISO!), when, source };
+  if (!whenSource && when !== 'unknown') whenSource = 'press_text';
+  return { eventDateET: snapETMidnight(candidateISO!), when, source, whenSource };
 }
 
 function toISODate(d: Date): string | null {
@@ -140,7 +150,8 @@ async function secFetchLight(url: string, init: RequestInit = {}): Promise<Respo
 }
 
 // ---- Helpers: Detect BMO/AMC from press text (ET only) ----
-function detectWhenFromTextET(text: string): WhenFlag | null {
+// Clock times are compared with that day's NYSE session, so 1:30 p.m. on an early-close day is AMC.
+function detectWhenFromTextET(text: string, dateISO?: string | null): WhenFlag | null {
   const t = text.toLowerCase();
   if (/after\s+(the\s+)?market\s+(close|closes)/i.test(text) || /\bafter-hours?\b/i.test(text)) return 'amc';
   if (/before\s+(the\s+)?market\s+(open|opens)/i.test(text) || /\bpre-market\b/i.test(text)) return 'bmo';
@@ -154,9 +165,10 @@ function detectWhenFromTextET(text: string): WhenFlag | null {
     const ap = m[3].toLowerCase();
     if (ap.startsWith('p') && hour !== 12) hour += 12;
     if (ap.startsWith('a') && hour === 12) hour = 0;
+    if (dateISO) return whenFromSessionPhase(sessionPhaseET(dateISO, hour * 60 + min));
     if (hour > 16 || (hour === 16 && min >= 0)) return 'amc';
     if (hour < 9 || (hour === 9 && min < 30)) return 'bmo';
-    return 'unknown';
+    return 'dmh';
   }
   return null;
 }
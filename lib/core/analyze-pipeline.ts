@@ -0,0 +1,1056 @@
+// lib/core/analyze-pipeline.ts
+// /api/analyze 파이프라인: 실적 수집 → EPS 표준화 → 변곡점 탐지 → Day0 → 윈도우별 시장모형 CAR
+// Rate limiting / request parsing stay in the route handlers; everything from provider
+// resolution to the final AnalysisResponse lives here so other routes can reuse it.
+
+import { AnalysisResponse, AnalysisSegment, PriceData } from '@/lib/core/schema';
+import { fetchAdjPrices, fetchEarnings, probeAlphaVantageCause } from '@/lib/external/yahoo-finance';
+import { getOfflineAliases, orderAliasesByCutover } from '@/lib/core/symbols';
+import { getTickerAliasesFromSEC, getCompanyProfileFromSEC } from '@/lib/external/sec-edgar';
+import { detectBreakpoints, getLastEpsNormalizationMeta } from '@/lib/core/breakpoints';
+import { resolveDay0, getTradingDates, formatDateRange, getLastResolveDay0Meta } from '@/lib/core/calendar';
+import { EstimationFilter, GapDecomposition, alignPriceData, computeBHAR, computeGapDecomposition, computeModelCAR } from '@/lib/core/car';
+import { buildSourceUrls } from '@/lib/core/source-urls';
+import { shouldUseFinnhubEarnings, shouldUseFinnhubPrices } from '@/lib/external/finnhub';
+import { resolveEarningsEventDate } from '@/lib/adapters/sec-edgar';
+import { normalizeGAAPDilutedEPS } from '@/lib/core/earnings-normalize';
+import { buildLabelWithWindow, rangesOverlap } from '@/lib/core/labels';
+import { computeEarningsSurprises, EarningsSurprise } from '@/lib/core/surprise';
+import { computeVolumeMetrics } from '@/lib/core/liquidity';
+import { SignificanceSettings, empiricalSignificance } from '@/lib/core/significance';
+import { ConfoundingFiling, findConfoundingFilings } from '@/lib/core/confounding';
+import { TimingInference, inferTimingFromReaction } from '@/lib/core/timing';
+import { NormalizedSECFiling, fetchAllSECReports, fetchRevenueData } from '@/lib/external/sec-edgar';
+import { isDebugFlag, debugLog } from '@/lib/core/debug';
+import { EventWindow, EstimationSettings, effectiveEstimationGap, minEstimationObs } from '@/lib/core/windows';
+import { BenchmarkSpec, DEFAULT_BENCH, buildBasketSeries, formatBenchLabel, sectorETFForSIC, sectorETFHistoryGap } from '@/lib/core/benchmarks';
+import { BetaMethod } from '@/lib/core/beta';
+import { ExpectedReturnModel, FactorSeries, isFactorModel, loadFactorSeries, missingFactors } from '@/lib/core/factors';
+
+export type AnalyzeOptions = {
+  ticker: string;
+  from: string;
+  to: string;
+  bench: BenchmarkSpec;
+  noCache?: boolean;
+  windows: EventWindow[];
+  estimation: EstimationSettings;
+  // Expected-return model (default 'market'); factor models read FACTOR_DATA_PATH
+  model?: ExpectedReturnModel;
+  // Market-model beta estimator (default 'ols'); ignored by market_adjusted / factor models
+  betaMethod?: BetaMethod;
+  // Optional empirical (bootstrap/permutation) significance per segment
+  significance?: SignificanceSettings | null;
+  // Attach the daily AR path to each window (include=path)
+  includePath?: boolean;
+  // Preloaded benchmark covering computeExtendedFrom(from)..to (batch callers share one download; not for bench=auto)
+  resolvedBench?: ResolvedBenchmark;
+};
+
+export type ResolvedBenchmark = {
+  label: string;      // "XLF", "basket(XLF:0.5,KRE:0.5)"
+  tickers: string[];  // underlying price series
+  prices: PriceData[];
+  reason: string;     // why this benchmark was used (reported in notes)
+  sector_etf_history_short?: true; // bench=auto fell back to SPY: the sector ETF starts after the price range
+};
+
+// Per-segment market-model internals used by cross-sectional aggregation (never serialized as-is)
+export type EventSample = {
+  ticker: string;
+  window: string;      // window label, e.g. "[-1,+5]"
+  event_date: string;  // corrected announcement date
+  day0: string;
+  car: number;
+  ars: number[];       // event-window abnormal returns
+  resid_sd: number;    // estimation-period residual SD
+  est_resid: number[]; // estimation-period residuals
+  bhar?: number;       // buy-and-hold abnormal return over the same window
+  raw?: number;        // the stock's own buy-and-hold return over the window
+  empirical_p?: number; // bootstrap/permutation p-value (significance=…)
+  confounded?: boolean; // another material 8-K inside the window (undefined when SEC data is unavailable)
+  timing_inferred?: true; // Day0 session inferred from the price reaction (no BMO/AMC flag from any source)
+};
+
+// Where a segment's BMO/AMC timing came from (event-study dates supplied with `when` report 'user')
+export type WhenSource = 'acceptance_timestamp' | 'press_text' | 'provider' | 'user' | 'macro_calendar' | 'price_reaction' | 'default';
+
+// Trading days on each side of another event's Day0 dropped from the estimation window
+const EVENT_EXCLUSION_HALF_WIDTH = 2;
+
+export type AnalyzeOutcome =
+  | { ok: true; data: AnalysisResponse; samples: EventSample[] }
+  | { ok: false; status: number; error: string; message: string };
+
+/**
+ * Extract earnings data from SEC Reports for historical analysis
+ */
+type MinimalEarnings = { date: string; when: 'bmo' | 'amc' | 'dmh' | 'unknown'; eps: number | null; revenue: number | null; eps_src?: 'sec_pr' };
+
+async function extractEarningsFromSECReports(ticker: string, from: string, to: string): Promise<MinimalEarnings[]> {
+  try {
+    console.log(`Extracting earnings from SEC Reports for ${ticker} from ${from} to ${to}`);
+    const secReports = await fetchAllSECReports(ticker, from, to);
+    const earnings: MinimalEarnings[] = [];
+    
+    console.log(`Found ${secReports.length} SEC reports`);
+    
+    // Extract revenues from 10-Q and 10-K reports (no EPS approximation)
+    for (const report of secReports) {
+      if (report.form === '10-Q' || report.form === '10-K') {
+        console.log(`Processing ${report.form} report`);
+        
+        // Look for earnings data in facts
+        if (report.facts?.revenues) {
+          const revenueData = report.facts.revenues;
+          if (revenueData?.value && revenueData?.period) {
+            console.log(`Found revenue data: ${revenueData.period} = ${revenueData.value}`);
+            const eventISO = report.event_date || report.period_of_report || (report.filed_at ? report.filed_at.slice(0,10) : null);
+            if (!eventISO) continue;
+            earnings.push({
+              date: eventISO,
+              when: 'unknown',
+              eps: null,
+              revenue: revenueData.value ?? null,
+            });
+          }
+        }
+        
+        // Also try to extract from 8-K earnings announcements
+      }
+      if (report.form === '8-K' && (report as any).event_types?.includes('earnings')) {
+          console.log(`Found 8-K earnings announcement`);
+          // Use event_date (preferred) or filing date as earnings date
+          const eventISO = report.event_date || report.period_of_report || (report.filed_at ? report.filed_at.slice(0,10) : null);
+          if (!eventISO) continue;
+          // Try to parse EPS from press release text (Exhibit 99)
+          let epsFromPR: number | null = null;
+          try {
+            const press = (report.exhibits || []).find((e) => e.type === 'press_release' && /(htm|html|txt)$/i.test(e.href));
+            const href = press?.href || report.urls?.primary;
+            if (href) {
+              const res = await fetch(href, { headers: { 'Accept': 'text/html,text/plain,*/*', 'User-Agent': process.env.SEC_USER_AGENT || 'gpts-api-server/1.0' } });
+              if (res.ok) {
+                const raw = await res.text();
+                const text = raw.replace(/\s+/g, ' ').slice(0, 200000);
+                epsFromPR = extractDilutedEPSFromText(text);
+              }
+            }
+          } catch {}
+          earnings.push({ date: eventISO, when: 'unknown', eps: epsFromPR, revenue: null, eps_src: epsFromPR != null ? 'sec_pr' : undefined });
+      }
+    }
+    
+    console.log(`Extracted ${earnings.length} earnings data points from SEC Reports`);
+    return earnings;
+  } catch (error) {
+    console.warn('Failed to extract earnings from SEC Reports:', error);
+    return [];
+  }
+}
+
+// Very lightweight diluted EPS extractor from press text
+function extractDilutedEPSFromText(text: string): number | null {
+  // Pattern 1: "Diluted earnings per share ... $X.XX" or "Diluted EPS $X.XX"
+  const patterns: RegExp[] = [
+    /diluted\s+(?:earnings|net\s+income)?.{0,40}?(?:per\s+share|eps)[^$\d]{0,20}\$\s*([0-9]+(?:\.[0-9]+)?)/i,
+    /earnings\s+per\s+share[^$]*diluted[^$]*\$\s*([0-9]+(?:\.[0-9]+)?)/i,
+    /diluted\s+eps[^$]*\$\s*([0-9]+(?:\.[0-9]+)?)/i,
+    /net\s+income\s+per\s+share[^$]*?basic[^$]*?\$\s*([0-9]+(?:\.[0-9]+)?)[^$]*?diluted[^$]*?\$\s*([0-9]+(?:\.[0-9]+)?)/i,
+  ];
+  for (const re of patterns) {
+    const m = re.exec(text);
+    if (m) {
+      const val = m[2] ? parseFloat(m[2]) : parseFloat(m[1]);
+      if (isFinite(val)) return val;
+    }
+  }
+  return null;
+}
+/**
+ * Extend fetch window backwards to ensure YoY comparisons have prior data even at range start
+ * and the market-model estimation window (+gap, +pre-event offsets) is covered (trading→calendar ≈ ×1.45).
+ */
+export function computeExtendedFrom(from: string, windows: EventWindow[], estimation: EstimationSettings): string {
+  const maxPreEvent = Math.max(0, ...windows.map(w => -w.window[0]));
+  const extendDays = Math.max(400, Math.ceil((estimation.length + estimation.gap + maxPreEvent) * 1.45) + 10); // ≥ ~13 months
+  const d = new Date(from);
+  if (isNaN(d.getTime())) return from;
+  d.setDate(d.getDate() - extendDays);
+  const y = d.getFullYear();
+  const m = `${d.getMonth() + 1}`.padStart(2, '0');
+  const dd = `${d.getDate()}`.padStart(2, '0');
+  return `${y}-${m}-${dd}`;
+}
+
+async function fetchBenchTicker(ticker: string, from: string, to: string, noCache: boolean): Promise<PriceData[]> {
+  const prices = await fetchAdjPrices(ticker, from, to, { noCache });
+  if (prices.length < 2) throw new Error(`no bench prices for ${ticker}`);
+  return prices;
+}
+
+/**
+ * Resolve a benchmark spec into a price series. bench=auto maps the company's SEC SIC code to a
+ * sector SPDR ETF and falls back to SPY when the SIC is unknown/unmapped, the ETF has no prices, or
+ * its history starts after `from` (XLC 2018-06, XLRE 2015-10): aligning on a shorter ETF series would
+ * silently drop the stock's earlier dates. Throws ERR_NO_BENCH when no usable series can be loaded.
+ */
+export async function resolveBenchmark(
+  spec: BenchmarkSpec,
+  ticker: string,
+  from: string,
+  to: string,
+  noCache = false
+): Promise<ResolvedBenchmark> {
+  if (spec.kind === 'auto') {
+    let etf = DEFAULT_BENCH;
+    let reason: string;
+    try {
+      const profile = await getCompanyProfileFromSEC(ticker);
+      const hit = profile?.sic ? sectorETFForSIC(profile.sic) : null;
+      if (hit) {
+        etf = hit.etf;
+        reason = `auto: SIC ${profile!.sic} (${profile!.sicDescription || 'n/a'}) -> ${hit.etf} (${hit.sector})`;
+      } else {
+        reason = profile?.sic ? `auto: SIC ${profile.sic} unmapped -> ${DEFAULT_BENCH}` : `auto: SIC unavailable -> ${DEFAULT_BENCH}`;
+      }
+    } catch (e) {
+      console.warn(`[Bench] SIC lookup failed for ${ticker}:`, e);
+      reason = `auto: SIC lookup failed -> ${DEFAULT_BENCH}`;
+    }
+    const fallbackToDefault = (why: string) =>
+      resolveBenchmark({ kind: 'ticker', ticker: DEFAULT_BENCH }, ticker, from, to, noCache)
+        .then(r => ({ ...r, reason: `${reason}; ${why} -> ${DEFAULT_BENCH}`, sector_etf_history_short: true as const }));
+    const knownStart = sectorETFHistoryGap(etf, from);
+    if (knownStart) return fallbackToDefault(`${etf} history starts ${knownStart} > ${from}`);
+    try {
+      const prices = await fetchBenchTicker(etf, from, to, noCache);
+      const firstBar = etf === DEFAULT_BENCH ? null : sectorETFHistoryGap(etf, from, prices[0].date);
+      if (firstBar) return fallbackToDefault(`${etf} history starts ${firstBar} > ${from}`);
+      return { label: etf, tickers: [etf], prices, reason };
+    } catch (err) {
+      if (etf === DEFAULT_BENCH) {
+        console.error(`Bench API error (${etf}):`, err);
+        throw new Error('ERR_NO_BENCH');
+      }
+      console.warn(`[Bench] ${etf} prices unavailable, falling back to ${DEFAULT_BENCH}`, err);
+      return resolveBenchmark({ kind: 'ticker', ticker: DEFAULT_BENCH }, ticker, from, to, noCache)
+        .then(r => ({ ...r, reason: `${reason}; ${etf} prices unavailable -> ${DEFAULT_BENCH}` }));
+    }
+  }
+
+  const label = formatBenchLabel(spec);
+  if (spec.kind === 'ticker') {
+    try {
+      const prices = await fetchBenchTicker(spec.ticker, from, to, noCache);
+      return { label, tickers: [spec.ticker], prices, reason: 'user' };
+    } catch (err) {
+      console.error(`Bench API error (${spec.ticker}):`, err);
+      throw new Error('ERR_NO_BENCH');
+    }
+  }
+
+  const tickers = spec.members.map(m => m.ticker);
+  let series: PriceData[][];
+  try {
+    series = await Promise.all(tickers.map(t => fetchBenchTicker(t, from, to, noCache)));
+  } catch (err) {
+    console.error(`Bench API error (${label}):`, err);
+    throw new Error('ERR_NO_BENCH');
+  }
+  const prices = buildBasketSeries(series, spec.members.map(m => m.weight));
+  if (prices.length < 2) throw new Error('ERR_NO_BENCH');
+  return { label, tickers, prices, reason: 'user_basket; daily_rebalanced' };
+}
+
+/**
+ * Resolve canonical provider ticker by date-aware alias/cutover (e.g., GOOGL→GOOG before 2014-04-03).
+ */
+export async function resolveProviderTicker(ticker: string, from: string, to: string): Promise<string> {
+  let providerTicker = ticker.toUpperCase();
+  try {
+    const offlineAliases = getOfflineAliases(ticker);
+    const secAliases = await getTickerAliasesFromSEC(ticker).catch(() => [] as string[]);
+    const merged = Array.from(new Set<string>([...offlineAliases, ...secAliases]));
+    const ordered = orderAliasesByCutover(ticker, merged, from, to);
+    if (ordered.length > 0) providerTicker = ordered[0];
+    console.log(`[Symbols] providerTicker resolved: ${ticker} -> ${providerTicker} for ${from}..${to}`);
+  } catch (e) {
+    console.warn('[Symbols] providerTicker resolution failed, using raw ticker', e);
+  }
+  return providerTicker;
+}
+
+// Aligned prices and settings shared by every event of one ticker (analyze breakpoints, event-study dates)
+export type EventContext = {
+  ticker: string;
+  prices: PriceData[];        // aligned with bench (alignPriceData)
+  bench: PriceData[];
+  tradingDates: string[];
+  windows: EventWindow[];
+  estimation: EstimationSettings;
+  model: ExpectedReturnModel;
+  factors: FactorSeries | null;
+  betaMethod: BetaMethod;
+  significance?: SignificanceSettings | null;
+  includePath?: boolean;
+  filings8K: NormalizedSECFiling[] | null; // null when SEC lookup failed (no confounding check)
+  estimationFilterFor: (day0Idx: number) => EstimationFilter;
+};
+
+/**
+ * Estimation filter per Day0: other events' and 8-K filings' [-2,+2] trading days are excluded
+ * (when estimation.excludeEvents), plus the winsorize share.
+ */
+export function buildEstimationFilter(
+  tradingDates: string[],
+  eventDates: string[],
+  filings8K: NormalizedSECFiling[] | null,
+  estimation: EstimationSettings
+): (day0Idx: number) => EstimationFilter {
+  const eventDay0s: number[] = [];
+  if (estimation.excludeEvents) {
+    const firstOnOrAfter = (iso: string) => {
+      const idx = tradingDates.findIndex(d => d >= iso);
+      if (idx >= 0) eventDay0s.push(idx);
+    };
+    for (const iso of eventDates) firstOnOrAfter(iso);
+    for (const f of filings8K ?? []) {
+      if (f.form !== '8-K') continue;
+      const iso = f.event_date || (f.filed_at ? f.filed_at.slice(0, 10) : null);
+      if (iso) firstOnOrAfter(iso);
+    }
+  }
+  return (day0Idx: number): EstimationFilter => {
+    const excludeDates = new Set<string>();
+    for (const idx of eventDay0s) {
+      if (Math.abs(idx - day0Idx) <= EVENT_EXCLUSION_HALF_WIDTH) continue; // the event itself
+      for (let k = idx - EVENT_EXCLUSION_HALF_WIDTH; k <= idx + EVENT_EXCLUSION_HALF_WIDTH; k++) {
+        if (k >= 0 && k < tradingDates.length) excludeDates.add(tradingDates[k]);
+      }
+    }
+    return { excludeDates, winsorize: estimation.winsorize };
+  };
+}
+
+/**
+ * Timing unknown: compare the announcement-date session with the next one (abnormal return + volume).
+ * ARs come from the event's own model, factors and beta method, so they match the reported ones.
+ * Null when the date is not a trading day in the data or the reaction can't be scored.
+ */
+export function inferDay0Session(ctx: EventContext, dateISO: string): TimingInference | null {
+  const announceIdx = ctx.tradingDates.indexOf(dateISO);
+  if (announceIdx <= 0 || announceIdx + 1 >= ctx.tradingDates.length) return null;
+  const mm = computeModelCAR(ctx.prices, ctx.bench, announceIdx, [-1, 1], {
+    model: ctx.model,
+    factors: ctx.factors,
+    estimationWindow: ctx.estimation.length,
+    estimationGap: effectiveEstimationGap(ctx.estimation, ctx.windows),
+    filter: ctx.estimationFilterFor(announceIdx),
+    betaMethod: ctx.betaMethod,
+  });
+  const volSame = computeVolumeMetrics(ctx.prices, announceIdx, [0, 0]);
+  const volNext = computeVolumeMetrics(ctx.prices, announceIdx + 1, [0, 0]);
+  if (mm.__ars?.length !== 2 || typeof mm.__residSD !== 'number') return null;
+  return inferTimingFromReaction(
+    { ar: mm.__ars[0], abn_volume_z: volSame?.abn_log_volume_z_day0 ?? null },
+    { ar: mm.__ars[1], abn_volume_z: volNext?.abn_log_volume_z_day0 ?? null },
+    mm.__residSD
+  );
+}
+
+export type WindowReaction = {
+  period: AnalysisSegment['period'];
+  price_reaction: AnalysisSegment['price_reaction'];
+  volume?: AnalysisSegment['volume'];
+  confounded?: boolean;
+  confounding_filings?: ConfoundingFiling[];
+  sample: EventSample | null; // null when the model produced no AR series
+};
+
+/**
+ * Overnight/intraday split of Day0 and Day+1, computed once per event: it doesn't depend on the
+ * window, only on the model's alpha/beta, which are estimated before Day0.
+ */
+export function computeEventGapSplit(ctx: EventContext, day0Idx: number): GapDecomposition | null {
+  const { alpha_beta } = computeModelCAR(ctx.prices, ctx.bench, day0Idx, [0, 1], {
+    model: ctx.model,
+    factors: ctx.factors,
+    estimationWindow: ctx.estimation.length,
+    estimationGap: effectiveEstimationGap(ctx.estimation, ctx.windows),
+    filter: ctx.estimationFilterFor(day0Idx),
+    betaMethod: ctx.betaMethod,
+  });
+  return computeGapDecomposition(ctx.prices, ctx.bench, day0Idx, alpha_beta);
+}
+
+/**
+ * CAR / BHAR / volume / significance / confounding for one event window at Day0; `gapSplit` is the
+ * event's computeEventGapSplit, attached to every window.
+ * Adds window-level flags (window_clamped, short_window, factor_model_unavailable, estimation_short,
+ * volume_unavailable, confounded_segments) to `notesFlags`. Throws when the window can't be computed
+ * (e.g. ERR_WINDOW_PARTIAL).
+ * `ownAccessions`: the event's own 8-K filings, not counted as confounding.
+ */
+export function computeWindowReaction(
+  ctx: EventContext,
+  day0Idx: number,
+  eventWindow: EventWindow,
+  eventDate: string,
+  notesFlags: Set<string>,
+  gapSplit: GapDecomposition | null,
+  ownAccessions?: Set<string>
+): WindowReaction {
+  const { window, label } = eventWindow;
+  const { prices, bench, tradingDates, estimation, model } = ctx;
+  const estimationGap = effectiveEstimationGap(estimation, ctx.windows);
+  const carMM = computeModelCAR(prices, bench, day0Idx, window, {
+    model,
+    factors: ctx.factors,
+    estimationWindow: estimation.length,
+    estimationGap,
+    filter: ctx.estimationFilterFor(day0Idx),
+    betaMethod: ctx.betaMethod,
+  });
+  const bhar = computeBHAR(prices, bench, day0Idx, window);
+  const volume = computeVolumeMetrics(prices, day0Idx, window);
+  const significance = ctx.significance && carMM.__ars && carMM.__estResid
+    ? empiricalSignificance(carMM.car, carMM.__ars, carMM.__estResid, ctx.significance, `${eventDate}|${label}`)
+    : null;
+  if (!volume) notesFlags.add('volume_unavailable');
+  debugLog(isDebugFlag('DEBUG_ANALYZE'), `CAR result for ${label}:`, carMM);
+
+  const priceReactionFlags: { partial?: true; short_window?: true; factor_model_unavailable?: true; estimation_short?: true } = {};
+  // 제외(다른 이벤트/8-K ±2일) 후 남은 추정 관측치가 너무 적으면 표시
+  const estimationN = carMM.alpha_beta.n;
+  if (estimationN < minEstimationObs(estimation)) {
+    notesFlags.add('estimation_short');
+    priceReactionFlags.estimation_short = true;
+  }
+  if (carMM.factor_model_unavailable) {
+    notesFlags.add('factor_model_unavailable');
+    priceReactionFlags.factor_model_unavailable = true;
+  }
+  // model actually used (a factor model may fall back to the market model)
+  const usedModel = carMM.model ?? model;
+  if (carMM.__partial) {
+    notesFlags.add('window_clamped');
+    priceReactionFlags.partial = true;
+  }
+  if (typeof carMM.__windowDays === 'number' && carMM.__windowDays < 3) {
+    notesFlags.add('short_window');
+    priceReactionFlags.short_window = true;
+  }
+
+  const period = formatDateRange(day0Idx + window[0], day0Idx + window[1], tradingDates);
+  if (!period.start) {
+    period.start = tradingDates[0];
+  }
+  if (!period.end) {
+    period.end = tradingDates[tradingDates.length - 1];
+  }
+  const otherFilings = ctx.filings8K && ownAccessions ? ctx.filings8K.filter(f => !ownAccessions.has(f.accession)) : ctx.filings8K;
+  const confounding = otherFilings ? findConfoundingFilings(otherFilings, period) : null;
+  if (confounding && confounding.length > 0) notesFlags.add('confounded_segments');
+  const confounded = confounding ? confounding.length > 0 : undefined;
+
+  return {
+    period,
+    price_reaction: {
+      window: label,
+      car: carMM.car,
+      ret_sum: carMM.ret_sum,
+      bench_sum: carMM.bench_sum,
+      window_days: carMM.__windowDays,
+      car_tstat: carMM.car_tstat,
+      market_model_used: true,
+      alpha_beta: carMM.alpha_beta,
+      model: usedModel,
+      factor_loadings: carMM.factor_loadings,
+      r2: carMM.r2,
+      bhar: bhar ? {
+        value: bhar.bhar,
+        stock_bh: bhar.stock_bh,
+        bench_bh: bhar.bench_bh,
+        days: bhar.days,
+      } : undefined,
+      significance: significance ?? undefined,
+      path: ctx.includePath ? carMM.__path : undefined,
+      gap_split: gapSplit ?? undefined,
+      settings: {
+        window: [window[0], window[1]],
+        estimation_window: estimation.length,
+        estimation_gap: estimationGap,
+        estimation_excluded_days: carMM.__excludedDays ?? 0,
+        estimation_n: estimationN,
+        winsorize: estimation.winsorize,
+        model: usedModel,
+        ...(model === 'market' ? { beta_method: ctx.betaMethod } : {}),
+      },
+      tstat_flags: carMM.tstat_flags,
+      flags: Object.keys(priceReactionFlags).length ? priceReactionFlags : undefined,
+    },
+    volume: volume ?? undefined,
+    confounded,
+    confounding_filings: confounding && confounding.length > 0 ? confounding : undefined,
+    sample: carMM.__ars && typeof carMM.__residSD === 'number' ? {
+      ticker: ctx.ticker,
+      window: label,
+      event_date: eventDate,
+      day0: tradingDates[day0Idx],
+      car: carMM.car,
+      ars: carMM.__ars,
+      resid_sd: carMM.__residSD,
+      est_resid: carMM.__estResid || [],
+      bhar: bhar?.bhar,
+      raw: bhar?.stock_bh,
+      empirical_p: significance?.p_value,
+      confounded,
+    } : null,
+  };
+}
+
+// overlap flagging between windows for the same event date
+export function flagWindowOverlaps(segments: AnalysisSegment[]): void {
+  for (let i = 0; i < segments.length; i++) {
+    for (let j = i + 1; j < segments.length; j++) {
+      try {
+        const a = segments[i];
+        const b = segments[j];
+        if (a.earnings.date === b.earnings.date) {
+          if (rangesOverlap(a.period.start, a.period.end, b.period.start, b.period.end)) {
+            segments[i].overlap_flag = true;
+            segments[j].overlap_flag = true;
+          }
+        }
+      } catch {}
+    }
+  }
+}
+
+/**
+ * Factor series for factor models (null for market / market_adjusted); ERR_NO_FACTORS when missing.
+ */
+export async function loadModelFactors(
+  model: ExpectedReturnModel
+): Promise<{ ok: true; factors: FactorSeries | null } | { ok: false; status: number; error: string; message: string }> {
+  if (!isFactorModel(model)) return { ok: true, factors: null };
+  let factors: FactorSeries;
+  try {
+    factors = await loadFactorSeries(model);
+  } catch {
+    return {
+      ok: false,
+      status: 422,
+      error: 'ERR_NO_FACTORS',
+      message: 'No factor data found; place Ken French daily CSV/JSON files under FACTOR_DATA_PATH (default lib/data/factors).',
+    };
+  }
+  const missing = missingFactors(factors, model);
+  if (missing.length > 0) {
+    return {
+      ok: false,
+      status: 422,
+      error: 'ERR_NO_FACTORS',
+      message: `Factor data is missing ${missing.join(', ')} required by model=${model}`,
+    };
+  }
+  return { ok: true, factors };
+}
+
+export async function runAnalyzePipeline(opts: AnalyzeOptions): Promise<AnalyzeOutcome> {
+  const { ticker, from, to, windows, estimation } = opts;
+  const noCache = opts.noCache === true;
+  const model = opts.model || 'market';
+  const betaMethod = opts.betaMethod || 'ols';
+  const loaded = await loadModelFactors(model);
+  if (!loaded.ok) return loaded;
+  const factors = loaded.factors;
+  const useFinnhubEarnings = shouldUseFinnhubEarnings();
+  const priceProviderLabel = shouldUseFinnhubPrices() ? 'finnhub' : 'yahoo';
+
+  console.log(`Fetching data for ${ticker} from ${from} to ${to}`);
+
+  const providerTicker = await resolveProviderTicker(ticker, from, to);
+
+  const originalFrom = from;
+  const originalTo = to;
+  const extendedFrom = computeExtendedFrom(from, windows, estimation);
+
+  type EarningsResult = Awaited<ReturnType<typeof fetchEarnings>>;
+  let earnings: EarningsResult;
+  let earningsSource = 'finnhub';
+  
+  let causeNotes: string[] = [];
+  try {
+    earnings = await fetchEarnings(providerTicker, extendedFrom, to, { noCache });
+  } catch (error) {
+    console.error('Earnings provider error:', error);
+    if (
+      error instanceof Error &&
+      (error.message === 'ERR_RATE_LIMITED' || error.message === 'ERR_SOURCE_UNAVAILABLE')
+    ) {
+      const notes = [
+        'source=finnhub_unavailable',
+        `bench=${opts.bench.kind === 'auto' ? 'auto' : formatBenchLabel(opts.bench)}`,
+        `price_provider=${priceProviderLabel}`,
+      ];
+      return {
+        ok: true,
+        data: {
+          ticker,
+          as_of: new Date().toISOString().split('T')[0],
+          segments: [],
+          notes,
+        },
+        samples: [],
+      };
+    }
+    throw error;
+  }
+
+  const [prices, resolvedBench] = await Promise.all([
+    fetchAdjPrices(providerTicker, extendedFrom, to, { noCache }).catch(err => {
+      console.error('Prices API error:', err);
+      throw new Error('ERR_NO_PRICES');
+    }),
+    opts.resolvedBench ? Promise.resolve(opts.resolvedBench) : resolveBenchmark(opts.bench, ticker, extendedFrom, to, noCache),
+  ]);
+  const bench = resolvedBench.prices;
+  const benchTicker = resolvedBench.label;
+
+  if (prices.length === 0) {
+    return {
+      ok: false,
+      status: 404,
+      error: 'ERR_NO_PRICES',
+      message: 'No price data available for the specified period',
+    };
+  }
+
+  const notesBase = new Set<string>([
+    'price_TTL=60m',
+    'fund_TTL=72h',
+    'timestamps=ET; adjustedClose=true',
+    `bench=${benchTicker}`,
+    `bench_reason=${resolvedBench.reason}`,
+    ...(resolvedBench.sector_etf_history_short ? ['sector_etf_history_short'] : []),
+    `estimation=${estimation.length}d; gap=${estimation.gap}d`,
+    `estimation_exclude_events=${estimation.excludeEvents ? 'on' : 'off'}${estimation.winsorize > 0 ? `; winsorize=${estimation.winsorize}` : ''}`,
+    `model=${model}`,
+    ...(model === 'market' && betaMethod !== 'ols' ? [`beta_method=${betaMethod}`] : []),
+    ...(opts.significance ? [`significance=${opts.significance.method}; seed=${opts.significance.seed}; resamples=${opts.significance.resamples}`] : []),
+    `price_provider=${priceProviderLabel}`,
+  ]);
+
+  if (useFinnhubEarnings) {
+    notesBase.add('source=finnhub');
+  }
+  
+  // If no earnings data from Finnhub, try SEC Reports as fallback
+  // Merge in SEC-derived earnings to enrich revenue/EPS only when needed (consistent across envs)
+  const enableSEC = process.env.ANALYZE_SEC_ENRICH === '1';
+  const needEnrich = earnings.length === 0 || earnings.some(e => e.revenue == null || e.eps == null);
+  if (needEnrich && enableSEC) {
+    try {
+      const timeoutMs = parseInt(process.env.ANALYZE_SEC_TIMEOUT_MS || '2500', 10);
+      const secPromise = extractEarningsFromSECReports(ticker, extendedFrom, to);
+      const secEarnings: MinimalEarnings[] = await Promise.race([
+        secPromise,
+        new Promise<MinimalEarnings[]>((resolve) => setTimeout(() => resolve([] as MinimalEarnings[]), isNaN(timeoutMs) ? 2500 : timeoutMs))
+      ]);
+      if (secEarnings.length > 0) {
+        const byDate = new Map<string, { date: string; eps: number | null; revenue: number | null; when?: string; eps_src?: 'sec_pr' }>();
+        for (const e of earnings) byDate.set(e.date, { ...e } as any);
+        const padDays = 45 * 24 * 3600 * 1000; // ±45 days match window
+        const earnList = Array.from(byDate.values()).map(e => ({ ...e, ts: new Date(e.date).getTime() }));
+        for (const s of secEarnings) {
+          const ts = new Date(s.date).getTime();
+          // exact date first
+          const exact = byDate.get(s.date);
+          if (exact) {
+            if (exact.revenue == null && s.revenue != null) exact.revenue = s.revenue;
+            if (exact.eps == null && s.eps != null) { exact.eps = s.eps; if (s.eps_src) exact.eps_src = s.eps_src; }
+            byDate.set(s.date, exact);
+            continue;
+          }
+          // nearest within ±45d
+          let bestIdx = -1; let bestDelta = Number.POSITIVE_INFINITY;
+          for (let i = 0; i < earnList.length; i++) {
+            const d = Math.abs(earnList[i].ts - ts);
+            if (d <= padDays && d < bestDelta) { bestDelta = d; bestIdx = i; }
+          }
+          if (bestIdx >= 0) {
+            const merged = earnList[bestIdx];
+            if (merged.revenue == null && s.revenue != null) merged.revenue = s.revenue;
+            if (merged.eps == null && s.eps != null) { (merged as any).eps = s.eps; if (s.eps_src) (merged as any).eps_src = s.eps_src; }
+            byDate.set(merged.date, { date: merged.date, eps: (merged as any).eps ?? null, revenue: merged.revenue ?? null, when: (merged as any).when, eps_src: (merged as any).eps_src });
+          } else {
+            // add as new earnings point if it falls inside range
+            if (ts >= new Date(from).getTime() && ts <= new Date(to).getTime()) {
+              byDate.set(s.date, { date: s.date, eps: s.eps ?? null, revenue: s.revenue ?? null, when: s.when, eps_src: s.eps_src });
+            }
+          }
+        }
+        earnings = Array.from(byDate.values())
+          .map(e => ({
+            date: e.date,
+            when: (e.when === 'bmo' || e.when === 'amc' || e.when === 'dmh') ? (e.when as 'bmo'|'amc'|'dmh') : 'unknown' as const,
+            eps: e.eps ?? null,
+            revenue: e.revenue ?? null,
+            // propagate sec_pr source
+            ...(e.eps_src ? { eps_src: e.eps_src } : {}),
+          }))
+          .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+      }
+    } catch {}
+  }
+
+  // Backfill revenue from XBRL companyfacts when missing
+  try {
+    const revSeries = await fetchRevenueData(ticker, extendedFrom, to);
+    if (revSeries.length) {
+      const byDate = new Map(earnings.map(e => [e.date, e]));
+      for (const r of revSeries) {
+        const ex = byDate.get(r.date);
+        if (ex && (ex.revenue == null)) {
+          ex.revenue = r.revenue;
+        }
+      }
+      earnings = Array.from(byDate.values()).sort((a,b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    }
+  } catch (e) {
+    console.log(`[Revenue backfill] skipped: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  
+  // Add earnings source information
+  if (earningsSource === 'sec_reports') {
+    notesBase.add('earnings_source=sec_reports');
+  }
+
+  if (earnings.length === 0) {
+    console.log('No earnings data found, returning empty segments');
+    // Diagnose root causes across providers and include in notes
+    try {
+      // Finnhub
+      notesBase.add('cause_finnhub=no_data');
+    } catch {}
+    try {
+      // Alpha Vantage probe
+      const av = await probeAlphaVantageCause(providerTicker, extendedFrom, to);
+      notesBase.add(`cause_alpha_vantage=${av}`);
+    } catch {}
+    try {
+      // SEC global 429 block flag from cache, if any
+      const blocked = await (async ()=>{
+        try { const v = await (await import('@/lib/kv')).CacheService.get('sec:block:until'); return v; } catch { return null; }
+      })();
+      if (blocked) notesBase.add('cause_sec=blocked_429'); else notesBase.add('cause_sec=unknown_or_not_used');
+    } catch {}
+    return {
+      ok: true,
+      data: {
+        ticker,
+        as_of: new Date().toISOString().split('T')[0],
+        segments: [],
+        notes: [
+          'No earnings data available for the specified period',
+          ...Array.from(notesBase),
+        ],
+      },
+      samples: [],
+    };
+  }
+
+  // 2. 데이터 정렬 및 정렬
+  const { prices: alignedPrices, bench: alignedBench } = alignPriceData(prices, bench);
+  const tradingDates = getTradingDates(alignedPrices);
+
+  // 벤더 EPS/추정치는 표준화 전에 보관 (컨센서스 대비 서프라이즈는 같은 기준의 실적치로 계산)
+  const vendorByDate = new Map(earnings.map(e => [e.date, { eps: e.eps, epsEstimate: e.epsEstimate ?? null, revenueEstimate: e.revenueEstimate ?? null }]));
+
+  // 3. EPS 표준화(회사facts + 분할 소급) 시도
+  try {
+    const normalized = await normalizeGAAPDilutedEPS(ticker, extendedFrom, to, earnings.map(e => ({ date: e.date, eps: e.eps, source: (e as any).eps_src === 'sec_pr' ? 'sec_pr' : undefined })) as any);
+    const normMap = new Map(normalized.map(x => [x.date, x]));
+    const allowVendorEps = process.env.EPS_VENDOR_FALLBACK === '1';
+    earnings = earnings.map(e => {
+      const n = normMap.get(e.date);
+      const secOrRatio = (typeof n?.eps === 'number') ? n?.eps : null;
+      const vendor = (typeof e.eps === 'number') ? e.eps : null;
+      const finalEps = allowVendorEps ? (secOrRatio ?? vendor) : secOrRatio;
+      return { ...e, eps: finalEps, eps_debug: n?.debug } as any;
+    });
+  } catch (e) {
+    console.warn(`[EPS Normalize] skipped: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  // 4. 변곡점 탐지 (이벤트일 교정 시도)
+  debugLog(isDebugFlag('DEBUG_ANALYZE'), 'Earnings data for breakpoint detection:', JSON.stringify(earnings, null, 2));
+  const breakpoints = detectBreakpoints(prices, earnings);
+  debugLog(isDebugFlag('DEBUG_ANALYZE'), 'Detected breakpoints:', JSON.stringify(breakpoints, null, 2));
+  debugLog(isDebugFlag('DEBUG_ANALYZE'), `Total breakpoints detected: ${breakpoints.length}`);
+
+  if (breakpoints.length === 0) {
+    return {
+      ok: true,
+      data: {
+        ticker,
+        as_of: new Date().toISOString().split('T')[0],
+        segments: [],
+        notes: [
+          'No significant earnings breakpoints detected',
+          ...Array.from(notesBase),
+        ],
+      },
+      samples: [],
+    };
+  }
+
+  // 서프라이즈/SUE: 컨센서스 우선, 없으면 전년 동분기(seasonal random walk)
+  const priceBefore = (date: string): number | null => {
+    let last: number | null = null;
+    for (const p of alignedPrices) {
+      if (p.date >= date) break;
+      last = p.adjClose;
+    }
+    return last;
+  };
+  const surprises = computeEarningsSurprises(
+    breakpoints
+      .filter(b => b.type === 'earnings')
+      .map(b => {
+        const v = vendorByDate.get(b.announceDate);
+        return {
+          date: b.announceDate,
+          eps: b.eps ?? null,
+          revenue: b.revenue ?? null,
+          epsEstimate: v?.epsEstimate ?? null,
+          revenueEstimate: v?.revenueEstimate ?? null,
+          epsActualVendor: v?.eps ?? null,
+        };
+      }),
+    priceBefore
+  );
+  const surpriseModelsUsed = new Set<string>();
+
+  // 8-K 공시: 추정창 오염 제거 + 윈도우 내 교란 이벤트 탐지에 공용 (실패 시 둘 다 생략)
+  let filings8K: NormalizedSECFiling[] | null = null;
+  try {
+    filings8K = (await fetchAllSECReports(ticker, extendedFrom, to)).filter(f => f.form === '8-K' || f.form === '8-K/A');
+  } catch (e) {
+    console.warn(`[SEC] 8-K lookup skipped: ${e instanceof Error ? e.message : String(e)}`);
+    notesBase.add('sec_8k_unavailable');
+  }
+
+  // 추정창 오염 제거: 다른 변곡점 + 8-K 공시일의 [-2,+2] 거래일은 시장모형 추정에서 제외
+  const estimationFilterFor = buildEstimationFilter(tradingDates, breakpoints.map(b => b.announceDate), filings8K, estimation);
+  const ctx: EventContext = {
+    ticker,
+    prices: alignedPrices,
+    bench: alignedBench,
+    tradingDates,
+    windows,
+    estimation,
+    model,
+    factors,
+    betaMethod,
+    significance: opts.significance,
+    includePath: opts.includePath,
+    filings8K,
+    estimationFilterFor,
+  };
+
+  // 5. 각 변곡점에 대해 CAR 계산
+  const segments: AnalysisResponse['segments'] = [];
+  const samples: EventSample[] = [];
+  const notesFlags = new Set<string>();
+
+  for (const breakpoint of breakpoints) {
+    try {
+      // 이벤트일 교정: 8-K Exhibit 99 → filed_at → period_of_report
+      let correctedDateISO = breakpoint.announceDate;
+      let correctedWhen = breakpoint.when;
+      // 타이밍 출처: EDGAR 접수 시각 > 보도자료 문구 > 실적 제공자 플래그 > 기본값(AMC 가정)
+      let whenSource: WhenSource =
+        (correctedWhen === 'bmo' || correctedWhen === 'amc' || correctedWhen === 'dmh') ? 'provider' : 'default';
+      let eventDateSource: '8-K_ex99'|'filed_at'|'period_of_report' = 'filed_at';
+      let eventDateCorrected = false;
+
+      try {
+        const quarterEndISO = breakpoint.announceDate; // 근사치: 분기말 기반 교정을 위해 필요 시 개선
+        const resolved = await resolveEarningsEventDate({ ticker, quarterEnd: quarterEndISO });
+        const iso = new Date(resolved.eventDateET).toISOString().slice(0,10);
+        if (iso && iso !== correctedDateISO) {
+          correctedDateISO = iso;
+          eventDateCorrected = true;
+        }
+        if (resolved.when === 'bmo' || resolved.when === 'amc' || resolved.when === 'dmh') {
+          correctedWhen = resolved.when;
+          if (resolved.whenSource) whenSource = resolved.whenSource;
+        }
+        eventDateSource = resolved.source;
+      } catch {}
+
+      // 타이밍 미상: 발표일 세션 vs 다음 세션의 비정상 수익률·거래량으로 Day0 세션 추정 (earnings.when은 'unknown' 유지)
+      let timingInference: TimingInference | null = null;
+      let day0When: string = correctedWhen;
+      if (whenSource === 'default') {
+        timingInference = inferDay0Session(ctx, correctedDateISO);
+        if (timingInference) {
+          whenSource = 'price_reaction';
+          day0When = timingInference.session === 'announcement_day' ? 'bmo' : 'amc';
+        }
+      }
+
+      // Day0 계산 (교정값 반영)
+      debugLog(isDebugFlag('DEBUG_ANALYZE'), `Processing breakpoint: ${breakpoint.announceDate}`);
+      const day0Idx = resolveDay0(correctedDateISO, day0When, tradingDates);
+      debugLog(isDebugFlag('DEBUG_ANALYZE'), `Day0 index for ${breakpoint.announceDate}: ${day0Idx}`);
+
+      const day0Meta = getLastResolveDay0Meta();
+      if (day0Meta?.fallbackUsed) {
+        notesFlags.add('day0_fallback');
+        if (day0Meta.fallbackReason === 'no_future') {
+          notesFlags.add('day0_fallback_no_future');
+        }
+      }
+      if (day0Meta?.earlyClose) notesFlags.add('day0_early_close');
+      if (day0Meta?.calendarMismatch) notesFlags.add('day0_calendar_mismatch');
+
+      if (day0Idx === null) {
+        console.warn(`Day0 not found for ${breakpoint.announceDate}`);
+        continue;
+      }
+
+      const day0Date = tradingDates[day0Idx];
+      const surprise: Partial<EarningsSurprise> = surprises.get(breakpoint.announceDate) ?? {};
+      if (surprise.expectation_model) surpriseModelsUsed.add(surprise.expectation_model);
+
+      // 윈도우별 CAR 계산 (갭/장중 분해는 이벤트당 한 번)
+      const gapSplit = computeEventGapSplit(ctx, day0Idx);
+      for (const eventWindow of windows) {
+        const { label } = eventWindow;
+        try {
+          debugLog(isDebugFlag('DEBUG_ANALYZE'), `Computing CAR for ${breakpoint.announceDate} window ${label} (Day0: ${day0Idx})`);
+          const reaction = computeWindowReaction(ctx, day0Idx, eventWindow, correctedDateISO, notesFlags, gapSplit);
+
+          const labelParts: string[] = [];
+          if (typeof breakpoint.epsYoY === 'number') {
+            labelParts.push(`EPS YoY ${(breakpoint.epsYoY * 100).toFixed(0)}%`);
+          } else if (breakpoint.flags?.eps_yoy_nm) {
+            labelParts.push('EPS YoY NM');
+          }
+
+          if (typeof breakpoint.revYoY === 'number') {
+            labelParts.push(`Rev YoY ${(breakpoint.revYoY * 100).toFixed(0)}%`);
+          } else if (breakpoint.flags?.rev_yoy_nm) {
+            labelParts.push('Rev YoY NM');
+          }
+
+          const segmentLabel = `${breakpoint.announceDate} ${labelParts.join(' ')}`.trim();
+
+          const label_with_window = buildLabelWithWindow(
+            correctedDateISO,
+            (typeof breakpoint.epsYoY === 'number') ? breakpoint.epsYoY : null,
+            (typeof breakpoint.revYoY === 'number') ? breakpoint.revYoY : null,
+            label,
+            reaction.price_reaction.car
+          );
+
+          const segment: AnalysisSegment = {
+            label: segmentLabel,
+            label_with_window,
+            earnings: {
+              date: correctedDateISO,
+              when: (correctedWhen === 'bmo' || correctedWhen === 'amc' || correctedWhen === 'dmh') 
+                ? (correctedWhen as 'bmo' | 'amc' | 'dmh')
+                : 'unknown',
+              when_source: whenSource,
+              timing_inference: timingInference ?? undefined,
+              eps: breakpoint.eps ?? null,
+              eps_basis: 'GAAP_diluted',
+              split_adjusted: true,
+              // Use computed values only; if unavailable or NM, leave null and signal via flags
+              eps_yoy: (typeof breakpoint.epsYoY === 'number') ? breakpoint.epsYoY : null,
+              rev_yoy: (typeof breakpoint.revYoY === 'number') ? breakpoint.revYoY : null,
+              ...surprise,
+              flags: breakpoint.flags ? {
+                eps_yoy_nm: breakpoint.flags.eps_yoy_nm ? true : undefined,
+                rev_yoy_nm: breakpoint.flags.rev_yoy_nm ? true : undefined,
+              } : undefined,
+              // @ts-ignore debug hook: expose chosen EPS source & split factor
+              eps_debug: (earnings.find(x => x.date === correctedDateISO) as any)?.eps_debug
+            },
+            period: reaction.period,
+            day0: day0Date,
+            price_reaction: reaction.price_reaction,
+            volume: reaction.volume,
+            confounded: reaction.confounded,
+            confounding_filings: reaction.confounding_filings,
+            source_urls: buildSourceUrls(ticker, resolvedBench.tickers, from, to, priceProviderLabel),
+            // 품질 메타 추가
+            // @ts-ignore - schema 확장 전 임시 주입; 이후 타입 갱신 시 제거
+            data_quality: { event_date_source: eventDateSource, event_date_corrected: eventDateCorrected }
+          };
+
+          segments.push(segment);
+          if (reaction.sample) {
+            samples.push({ ...reaction.sample, timing_inferred: whenSource === 'price_reaction' ? true : undefined });
+          }
+          debugLog(isDebugFlag('DEBUG_ANALYZE'), `Added segment for ${breakpoint.announceDate} window ${label}`);
+        } catch (error) {
+          console.warn(`CAR calculation failed for window ${label}:`, error);
+        }
+      }
+    } catch (error) {
+      console.warn(`Day0 resolution failed for ${breakpoint.announceDate}:`, error);
+    }
+  }
+
+  console.log(`Final segments count: ${segments.length}`);
+  debugLog(isDebugFlag('DEBUG_ANALYZE'), 'Final segments:', JSON.stringify(segments, null, 2));
+
+  const normalizationMeta = getLastEpsNormalizationMeta();
+  if (normalizationMeta) {
+    notesFlags.add(`eps_normalized=true`);
+  }
+  if (surpriseModelsUsed.size > 0) {
+    notesFlags.add(`surprise_expectation=${Array.from(surpriseModelsUsed).sort().join('+')}; sue_price=pre_event_adjclose`);
+  }
+
+  const responseNotes = new Set<string>();
+  notesBase.forEach(note => responseNotes.add(note));
+  notesFlags.forEach(note => responseNotes.add(note));
+
+  // Filter segments back to original requested window
+  const inRequestedRange = (iso: string) => {
+    const d = new Date(iso).getTime();
+    const f = new Date(originalFrom).getTime();
+    const t = new Date(originalTo).getTime();
+    return !isNaN(d) && d >= f && d <= t;
+  };
+  const filteredSegments = segments.filter(seg => inRequestedRange(seg.earnings.date));
+  const filteredSamples = samples.filter(s => inRequestedRange(s.event_date));
+
+  // 타이밍 출처별 이벤트 수: 확정(접수 시각/문구/제공자)과 가격반응 추정, 기본값을 구분해 보고
+  const timingByEvent = new Map(filteredSegments.map(seg => [seg.earnings.date, seg.earnings.when_source ?? 'default']));
+  if (timingByEvent.size > 0) {
+    const counts = new Map<string, number>();
+    timingByEvent.forEach(src => counts.set(src, (counts.get(src) ?? 0) + 1));
+    responseNotes.add(`timing_sources=${Array.from(counts).sort().map(([k, v]) => `${k}:${v}`).join(',')}`);
+    // 가격반응 추정도 불가해 AMC(다음 거래일 Day0)로 처리한 이벤트가 있을 때만
+    if (counts.has('default')) responseNotes.add('assume_AMC_if_unknown');
+  }
+
+  flagWindowOverlaps(segments);
+
+  const response: AnalysisResponse = {
+    ticker,
+    as_of: new Date().toISOString().split('T')[0],
+    segments: filteredSegments,
+    notes: Array.from(responseNotes),
+  };
+
+  return { ok: true, data: response, samples: filteredSamples };
+}
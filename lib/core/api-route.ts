@@ -0,0 +1,154 @@
+// lib/core/api-route.ts
+// Shared plumbing for the analyze-family routes: rate limiting, GET/POST parameter reading,
+// ticker-list and date-range validation, and ERR_* code → HTTP response mapping.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { RateLimiter } from '@/lib/core/rate-limit';
+import { MAX_EVENT_SELECTORS } from '@/lib/core/filing-events';
+import { isValidISODate } from '@/lib/validation';
+
+export function errorResponse(error: string, status: number, message?: string): NextResponse {
+  return NextResponse.json({ success: false, error, ...(message ? { message } : {}) }, { status });
+}
+
+export function rateLimitHeaders(remaining: number): Record<string, string> {
+  return { 'X-RateLimit-Remaining': remaining.toString() };
+}
+
+/**
+ * Per-IP rate limit. `response` is the 429 to return when the caller is over the limit.
+ */
+export async function checkRouteRateLimit(request: NextRequest): Promise<{ remaining: number; response: NextResponse | null }> {
+  const ip = request.ip || request.headers.get('x-forwarded-for') || 'unknown';
+  const rateLimit = await RateLimiter.checkRateLimit(ip);
+  if (rateLimit.allowed) return { remaining: rateLimit.remaining, response: null };
+  return {
+    remaining: 0,
+    response: NextResponse.json({
+      success: false,
+      error: 'Rate limit exceeded',
+      message: 'Too many requests. Please try again later.',
+    }, {
+      status: 429,
+      headers: { 'Retry-After': '60', 'X-RateLimit-Remaining': '0' },
+    }),
+  };
+}
+
+// GET query values arrive as strings (or null); POST bodies as validated by the route's schema
+export type RouteParams<T> = { [K in keyof T]?: T[K] | string | null };
+
+/**
+ * GET → query parameters (`aliases` maps alternate query names to schema keys; the schema key wins),
+ * POST → JSON body checked with `schema.safeParse`. `response` is the 400 for an invalid body.
+ */
+export async function readRouteParams<S extends z.ZodTypeAny>(
+  request: NextRequest,
+  schema: S,
+  aliases: Record<string, string> = {}
+): Promise<{ params: RouteParams<z.infer<S>>; response: null } | { params: null; response: NextResponse }> {
+  if (request.method === 'GET') {
+    const query: Record<string, string> = {};
+    new URL(request.url).searchParams.forEach((value, name) => {
+      const key = aliases[name] ?? name;
+      if (name === key || !(key in query)) query[key] = value;
+    });
+    return { params: query as RouteParams<z.infer<S>>, response: null };
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return { params: null, response: errorResponse('ERR_INVALID_INPUT', 400, 'Request body must be JSON.') };
+  }
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    return {
+      params: null,
+      response: errorResponse(
+        'ERR_INVALID_INPUT',
+        400,
+        parsed.error.issues.map((i: z.ZodIssue) => `${i.path.join('.')}: ${i.message}`).join('; ')
+      ),
+    };
+  }
+  return { params: parsed.data, response: null };
+}
+
+/**
+ * Comma-separated string or array → trimmed, upper-cased, de-duplicated tickers.
+ */
+export function parseTickerList(raw: string | string[] | null | undefined): string[] {
+  const parts = typeof raw === 'string' ? raw.split(',') : raw ?? [];
+  return Array.from(new Set(parts.map(t => t.trim().toUpperCase()).filter(Boolean)));
+}
+
+// "1" / "true" (query) or true (body)
+export function parseFlag(raw: boolean | string | null | undefined): boolean {
+  if (typeof raw === 'boolean') return raw;
+  return raw != null && (raw === '1' || raw.toLowerCase() === 'true');
+}
+
+/**
+ * 400 for a malformed date (ERR_INVALID_DATE_FORMAT) or from > to (ERR_INVALID_DATE_RANGE), else null.
+ */
+export function dateRangeResponse(from: string, to: string): NextResponse | null {
+  if (!isValidISODate(from) || !isValidISODate(to)) {
+    return errorResponse(
+      'ERR_INVALID_DATE_FORMAT',
+      400,
+      'from/to must be valid ISO dates (YYYY-MM-DD) with a sane year (1900-2100).'
+    );
+  }
+  if (new Date(from).getTime() > new Date(to).getTime()) {
+    return errorResponse('ERR_INVALID_DATE_RANGE', 400, '`from` must be earlier than or equal to `to`.');
+  }
+  return null;
+}
+
+// Messages for the ERR_* codes thrown by the shared parameter parsers (windows, estimation, model, ...)
+export const PARAM_ERROR_MESSAGES: Record<string, string> = {
+  ERR_INVALID_WINDOWS: 'windows must be up to 10 comma-separated start:end offsets (start < end, |offset| <= 250), e.g. -20:-1,0:1,2:60',
+  ERR_INVALID_ESTIMATION: 'estimation_window must be an integer in 30-1000, estimation_gap an integer in 0-250, exclude_events true/false, winsorize a number in 0-0.1.',
+  ERR_INVALID_MODEL: 'model must be one of market, market_adjusted, ff3, ff5, carhart.',
+  ERR_INVALID_BETA_METHOD: 'beta_method must be one of ols, scholes_williams, dimson, huber.',
+  ERR_INVALID_BENCH: 'bench must be auto, a ticker, or a basket of up to 10 tickers (e.g. XLF,KRE or XLF:0.7,KRE:0.3).',
+  ERR_INVALID_SIGNIFICANCE: 'significance must be bootstrap or permutation, seed an integer in 0-4294967295, resamples an integer in 100-20000.',
+  ERR_INVALID_INCLUDE: 'include must be a comma-separated list of: path.',
+  ERR_INVALID_EVENTS: `events must be earnings or up to ${MAX_EVENT_SELECTORS} comma-separated 8-K selectors: 8k:<item> (e.g. 8k:5.02) or 8k:<event type> (e.g. 8k:governance_exec).`,
+  ERR_INVALID_CONFOUND: 'confounded must be one of keep, drop, downweight.',
+  ERR_INVALID_SURPRISE: 'surprise must be one of sue_price, sue_sd, eps_surprise_pct, rev_surprise_pct.',
+  ERR_INVALID_CHART: 'mode must be car or price, format svg or png, width an integer in 320-2000, height an integer in 200-1200.',
+  ERR_INVALID_MACRO_TYPES: 'types must be a comma-separated list of fomc, cpi, nfp.',
+  ERR_INVALID_MEASURE: 'measure must be car or raw.',
+};
+
+// paramErrorResponse overrides for routes taking one `window` (parseSingleWindow)
+export const SINGLE_WINDOW_ERRORS: Record<string, string> = {
+  ERR_INVALID_WINDOWS: 'window must be a single start:end offset (start < end, |offset| <= 250), e.g. -1:5',
+};
+
+/**
+ * 400 for an error thrown while parsing request parameters; `overrides` replaces route-specific messages.
+ */
+export function paramErrorResponse(e: unknown, overrides: Record<string, string> = {}): NextResponse {
+  const code = e instanceof Error && e.message.startsWith('ERR_') ? e.message : 'ERR_INVALID_INPUT';
+  return errorResponse(code, 400, overrides[code] ?? PARAM_ERROR_MESSAGES[code]);
+}
+
+// ERR_* message of a per-ticker failure inside multi-ticker routes, else ERR_INTERNAL
+export function tickerErrorCode(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.startsWith('ERR_') ? message : 'ERR_INTERNAL';
+}
+
+/**
+ * Top-level catch: ERR_* → 422, anything else → 500.
+ */
+export function routeErrorResponse(label: string, error: unknown): NextResponse {
+  console.error(`${label} API error:`, error);
+  if (error instanceof Error && error.message.startsWith('ERR_')) return errorResponse(error.message, 422);
+  return errorResponse('Internal server error', 500);
+}
@@ -0,0 +1,177 @@
+// lib/core/benchmarks.ts
+// Benchmark selection for CAR: fixed ticker, weighted basket, or bench=auto (SEC SIC → sector SPDR ETF).
+
+import type { PriceData } from '@/lib/core/schema';
+
+export const DEFAULT_BENCH = 'SPY';
+export const MAX_BASKET_SIZE = 10;
+
+export type BenchmarkSpec =
+  | { kind: 'auto' }
+  | { kind: 'ticker'; ticker: string }
+  | { kind: 'basket'; members: Array<{ ticker: string; weight: number }> };
+
+type SICRange = { from: number; to: number; etf: string; sector: string };
+
+// SIC → Select Sector SPDR. More specific ranges first; first match wins.
+// GICS and SIC disagree at the edges (e.g. 7370 internet platforms are Communication Services,
+// 6324 managed care is Health Care, 5331 warehouse clubs are Staples) — those are listed explicitly.
+export const SIC_SECTOR_ETF: SICRange[] = [
+  // explicit overrides
+  { from: 4922, to: 4925, etf: 'XLE', sector: 'Energy' },                   // natural gas transmission/pipelines
+  { from: 6324, to: 6324, etf: 'XLV', sector: 'Health Care' },              // hospital & medical service plans
+  { from: 6798, to: 6798, etf: 'XLRE', sector: 'Real Estate' },             // REITs
+  { from: 7370, to: 7370, etf: 'XLC', sector: 'Communication Services' },   // internet / data processing platforms
+  { from: 5331, to: 5331, etf: 'XLP', sector: 'Consumer Staples' },         // variety stores / warehouse clubs
+  { from: 5912, to: 5912, etf: 'XLP', sector: 'Consumer Staples' },         // drug stores
+  { from: 3711, to: 3711, etf: 'XLY', sector: 'Consumer Discretionary' },   // motor vehicles
+  { from: 3714, to: 3714, etf: 'XLY', sector: 'Consumer Discretionary' },   // motor vehicle parts
+  { from: 5122, to: 5122, etf: 'XLV', sector: 'Health Care' },              // drug wholesale
+  { from: 4700, to: 4799, etf: 'XLY', sector: 'Consumer Discretionary' },   // travel arrangement
+  { from: 4950, to: 4959, etf: 'XLI', sector: 'Industrials' },              // waste management
+  { from: 5171, to: 5172, etf: 'XLE', sector: 'Energy' },                   // petroleum wholesale
+  // Energy
+  { from: 1200, to: 1399, etf: 'XLE', sector: 'Energy' },
+  { from: 2900, to: 2999, etf: 'XLE', sector: 'Energy' },
+  { from: 4610, to: 4619, etf: 'XLE', sector: 'Energy' },
+  // Materials
+  { from: 1000, to: 1099, etf: 'XLB', sector: 'Materials' },
+  { from: 1400, to: 1499, etf: 'XLB', sector: 'Materials' },
+  { from: 2400, to: 2499, etf: 'XLB', sector: 'Materials' },
+  { from: 2600, to: 2699, etf: 'XLB', sector: 'Materials' },
+  { from: 2800, to: 2829, etf: 'XLB', sector: 'Materials' },
+  { from: 2850, to: 2899, etf: 'XLB', sector: 'Materials' },
+  { from: 3200, to: 3399, etf: 'XLB', sector: 'Materials' },
+  // Health Care
+  { from: 2830, to: 2839, etf: 'XLV', sector: 'Health Care' },
+  { from: 3840, to: 3851, etf: 'XLV', sector: 'Health Care' },
+  { from: 8000, to: 8099, etf: 'XLV', sector: 'Health Care' },
+  // Consumer Staples
+  { from: 2000, to: 2199, etf: 'XLP', sector: 'Consumer Staples' },
+  { from: 2840, to: 2844, etf: 'XLP', sector: 'Consumer Staples' },
+  { from: 5140, to: 5149, etf: 'XLP', sector: 'Consumer Staples' },
+  { from: 5400, to: 5499, etf: 'XLP', sector: 'Consumer Staples' },
+  // Information Technology
+  { from: 3570, to: 3579, etf: 'XLK', sector: 'Information Technology' },
+  { from: 3660, to: 3679, etf: 'XLK', sector: 'Information Technology' },
+  { from: 3820, to: 3829, etf: 'XLK', sector: 'Information Technology' },
+  { from: 7371, to: 7379, etf: 'XLK', sector: 'Information Technology' },
+  // Communication Services
+  { from: 2710, to: 2799, etf: 'XLC', sector: 'Communication Services' },
+  { from: 4800, to: 4899, etf: 'XLC', sector: 'Communication Services' },
+  { from: 7810, to: 7819, etf: 'XLC', sector: 'Communication Services' },
+  // Utilities
+  { from: 4900, to: 4949, etf: 'XLU', sector: 'Utilities' },
+  // Real Estate
+  { from: 6500, to: 6599, etf: 'XLRE', sector: 'Real Estate' },
+  // Financials
+  { from: 6000, to: 6499, etf: 'XLF', sector: 'Financials' },
+  { from: 6700, to: 6799, etf: 'XLF', sector: 'Financials' },
+  // Consumer Discretionary
+  { from: 2300, to: 2399, etf: 'XLY', sector: 'Consumer Discretionary' },
+  { from: 2500, to: 2599, etf: 'XLY', sector: 'Consumer Discretionary' },
+  { from: 3000, to: 3199, etf: 'XLY', sector: 'Consumer Discretionary' },
+  { from: 3630, to: 3659, etf: 'XLY', sector: 'Consumer Discretionary' },
+  { from: 3940, to: 3949, etf: 'XLY', sector: 'Consumer Discretionary' },
+  { from: 5200, to: 5999, etf: 'XLY', sector: 'Consumer Discretionary' },
+  { from: 7000, to: 7099, etf: 'XLY', sector: 'Consumer Discretionary' },
+  { from: 7900, to: 7999, etf: 'XLY', sector: 'Consumer Discretionary' },
+  // Industrials
+  { from: 1500, to: 1799, etf: 'XLI', sector: 'Industrials' },
+  { from: 3400, to: 3569, etf: 'XLI', sector: 'Industrials' },
+  { from: 3580, to: 3629, etf: 'XLI', sector: 'Industrials' },
+  { from: 3700, to: 3799, etf: 'XLI', sector: 'Industrials' },
+  { from: 4000, to: 4699, etf: 'XLI', sector: 'Industrials' },
+  { from: 7380, to: 7389, etf: 'XLI', sector: 'Industrials' },
+  { from: 8700, to: 8748, etf: 'XLI', sector: 'Industrials' },
+];
+
+export function sectorETFForSIC(sic: string | number | null | undefined): { etf: string; sector: string } | null {
+  const code = typeof sic === 'number' ? sic : parseInt(String(sic ?? ''), 10);
+  if (!Number.isFinite(code)) return null;
+  const hit = SIC_SECTOR_ETF.find(r => code >= r.from && code <= r.to);
+  return hit ? { etf: hit.etf, sector: hit.sector } : null;
+}
+
+// First trading day of the Select Sector SPDRs launched after the original nine (1998-12-22).
+// bench=auto only uses a sector ETF whose history covers the whole price range (estimation included).
+export const SECTOR_ETF_INCEPTION: Record<string, string> = {
+  XLRE: '2015-10-08',
+  XLC: '2018-06-19',
+};
+
+// slack for weekends/holidays between the requested start and the first bar
+const HISTORY_SLACK_DAYS = 7;
+
+/**
+ * First date of a sector ETF's history that is too late for a price range starting at `from`
+ * (from the inception table, or the first fetched bar when given), else null.
+ */
+export function sectorETFHistoryGap(etf: string, from: string, firstDate?: string): string | null {
+  const start = firstDate ?? SECTOR_ETF_INCEPTION[etf];
+  if (!start) return null;
+  const limit = new Date(`${from}T00:00:00Z`);
+  limit.setUTCDate(limit.getUTCDate() + HISTORY_SLACK_DAYS);
+  return start > limit.toISOString().split('T')[0] ? start : null;
+}
+
+const TICKER_RE = /^[A-Z0-9][A-Z0-9.\-^=]{0,11}$/;
+
+/**
+ * Parse a bench parameter:
+ *   "auto"                 → SIC-based sector ETF
+ *   "XLF" / "^GSPC"        → single ticker
+ *   "XLF,KRE"              → equal-weight basket
+ *   "XLF:0.7,KRE:0.3"      → weighted basket (weights normalized to 1)
+ * POST callers may also pass an array of tickers. Throws ERR_INVALID_BENCH.
+ */
+export function parseBenchSpec(raw: string | string[] | null | undefined): BenchmarkSpec {
+  if (raw == null || (typeof raw === 'string' && raw.trim() === '')) return { kind: 'ticker', ticker: DEFAULT_BENCH };
+  const parts = (Array.isArray(raw) ? raw : raw.split(','))
+    .map(p => String(p).trim())
+    .filter(Boolean);
+  if (parts.length === 0 || parts.length > MAX_BASKET_SIZE) throw new Error('ERR_INVALID_BENCH');
+  if (parts.length === 1 && parts[0].toLowerCase() === 'auto') return { kind: 'auto' };
+
+  const members = parts.map(p => {
+    const m = p.match(/^([^:]+?)(?::\s*([0-9]*\.?[0-9]+))?$/);
+    if (!m) throw new Error('ERR_INVALID_BENCH');
+    const ticker = m[1].trim().toUpperCase();
+    const weight = m[2] != null ? parseFloat(m[2]) : 1;
+    if (!TICKER_RE.test(ticker) || !(weight > 0)) throw new Error('ERR_INVALID_BENCH');
+    return { ticker, weight };
+  });
+  if (new Set(members.map(m => m.ticker)).size !== members.length) throw new Error('ERR_INVALID_BENCH');
+
+  if (members.length === 1) return { kind: 'ticker', ticker: members[0].ticker };
+  const total = members.reduce((s, m) => s + m.weight, 0);
+  return { kind: 'basket', members: members.map(m => ({ ticker: m.ticker, weight: m.weight / total })) };
+}
+
+export function formatBenchLabel(spec: Exclude<BenchmarkSpec, { kind: 'auto' }>): string {
+  if (spec.kind === 'ticker') return spec.ticker;
+  return `basket(${spec.members.map(m => `${m.ticker}:${Number(m.weight.toFixed(4))}`).join(',')})`;
+}
+
+/**
+ * Synthetic daily-rebalanced basket: level_t = 100 · Π(1 + Σ w_j r_j,t) on the dates every member trades.
+ */
+export function buildBasketSeries(series: PriceData[][], weights: number[]): PriceData[] {
+  if (series.length === 0 || series.length !== weights.length) return [];
+  const maps = series.map(s => new Map(s.map(p => [p.date, p.adjClose])));
+  const dates = series[0]
+    .map(p => p.date)
+    .filter(d => maps.every(m => typeof m.get(d) === 'number' && m.get(d)! > 0))
+    .sort();
+  const out: PriceData[] = [];
+  let level = 100;
+  for (let i = 0; i < dates.length; i++) {
+    if (i > 0) {
+      let r = 0;
+      maps.forEach((m, j) => { r += weights[j] * (m.get(dates[i])! / m.get(dates[i - 1])! - 1); });
+      level *= 1 + r;
+    }
+    out.push({ date: dates[i], adjClose: level });
+  }
+  return out;
+}
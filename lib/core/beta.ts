@@ -0,0 +1,191 @@
+// lib/core/beta.ts
+// Market-model beta estimators on consecutive daily returns (xs = market, ys = stock, same index = same day).
+// - ols:              r_t = α + β·m_t
+// - scholes_williams: β = (β₋₁ + β₀ + β₊₁) / (1 + 2ρ_m), each β_k a simple slope of r_t on m_{t+k}
+// - dimson:           r_t on m_{t−L..t+L} jointly, β = Σ coefficients (default L = 1)
+// - huber:            IRLS with Huber weights, k = 1.345 × MAD-based scale
+// Days with include[t] = false (e.g. other events' windows) are not used as observations, but their
+// market returns still serve as leads/lags of neighbouring days.
+
+import { olsFit } from './regression';
+
+export type BetaMethod = 'ols' | 'scholes_williams' | 'dimson' | 'huber';
+
+export const BETA_METHODS: BetaMethod[] = ['ols', 'scholes_williams', 'dimson', 'huber'];
+
+export type BetaEstimate = {
+  alpha: number;
+  beta: number;
+  method: BetaMethod;
+  n: number;            // observations used (included days with the required leads/lags)
+  n_effective: number;  // n for OLS/SW/Dimson, Σ weights for Huber
+  lags: number;         // market leads/lags used (0 for OLS/Huber)
+  iterations: number;   // IRLS iterations (Huber), 1 otherwise
+  resid: number[];      // contemporaneous residuals r_t − α − β·m_t over the used days
+  residSD: number;
+  r2: number;
+};
+
+export const MIN_BETA_OBS = 20;
+export const DEFAULT_DIMSON_LAGS = 1;
+export const MAX_DIMSON_LAGS = 5;
+export const HUBER_K = 1.345;
+const HUBER_MAX_ITER = 50;
+const HUBER_TOL = 1e-10;
+
+export function parseBetaMethod(raw: string | null | undefined): BetaMethod {
+  if (raw == null || raw.trim() === '') return 'ols';
+  const m = raw.trim().toLowerCase();
+  if (!(BETA_METHODS as string[]).includes(m)) throw new Error('ERR_INVALID_BETA_METHOD');
+  return m as BetaMethod;
+}
+
+const mean = (a: number[]) => a.reduce((s, v) => s + v, 0) / a.length;
+
+function slope(xs: number[], ys: number[]): number | null {
+  const xbar = mean(xs);
+  const ybar = mean(ys);
+  let num = 0, den = 0;
+  for (let i = 0; i < xs.length; i++) { num += (xs[i] - xbar) * (ys[i] - ybar); den += (xs[i] - xbar) ** 2; }
+  return den === 0 ? null : num / den;
+}
+
+function finish(
+  xs: number[],
+  ys: number[],
+  alpha: number,
+  beta: number,
+  fields: Pick<BetaEstimate, 'method' | 'n_effective' | 'lags' | 'iterations'>
+): BetaEstimate {
+  const n = xs.length;
+  const ybar = mean(ys);
+  let ss = 0, sst = 0;
+  const resid: number[] = [];
+  for (let i = 0; i < n; i++) {
+    const e = ys[i] - alpha - beta * xs[i];
+    resid.push(e);
+    ss += e * e;
+    sst += (ys[i] - ybar) ** 2;
+  }
+  return {
+    alpha,
+    beta,
+    n,
+    resid,
+    residSD: Math.sqrt(ss / Math.max(1, n - 2)),
+    r2: sst > 0 ? 1 - ss / sst : 0,
+    ...fields,
+  };
+}
+
+// Indices t that are included, finite, and have finite market returns at t−lags..t+lags
+function usableIndices(xs: number[], ys: number[], include: boolean[] | undefined, lags: number): number[] {
+  const out: number[] = [];
+  for (let t = lags; t < xs.length - lags; t++) {
+    if (include && !include[t]) continue;
+    if (!isFinite(ys[t])) continue;
+    let ok = true;
+    for (let k = -lags; k <= lags; k++) if (!isFinite(xs[t + k])) { ok = false; break; }
+    if (ok) out.push(t);
+  }
+  return out;
+}
+
+function estimateOLS(xs: number[], ys: number[]): BetaEstimate | null {
+  const beta = slope(xs, ys);
+  if (beta === null) return null;
+  return finish(xs, ys, mean(ys) - beta * mean(xs), beta, { method: 'ols', n_effective: xs.length, lags: 0, iterations: 1 });
+}
+
+function estimateScholesWilliams(xs: number[], ys: number[], idx: number[]): BetaEstimate | null {
+  const y = idx.map(t => ys[t]);
+  const x0 = idx.map(t => xs[t]);
+  const bLag = slope(idx.map(t => xs[t - 1]), y);
+  const b0 = slope(x0, y);
+  const bLead = slope(idx.map(t => xs[t + 1]), y);
+  // first-order autocorrelation of the market over the same days
+  const mPrev = idx.map(t => xs[t - 1]);
+  const mbar = mean(x0);
+  const pbar = mean(mPrev);
+  let cov = 0, v0 = 0, v1 = 0;
+  for (let i = 0; i < idx.length; i++) {
+    cov += (x0[i] - mbar) * (mPrev[i] - pbar);
+    v0 += (x0[i] - mbar) ** 2;
+    v1 += (mPrev[i] - pbar) ** 2;
+  }
+  if (bLag === null || b0 === null || bLead === null || v0 === 0 || v1 === 0) return null;
+  const rho = cov / Math.sqrt(v0 * v1);
+  const denom = 1 + 2 * rho;
+  if (Math.abs(denom) < 1e-8) return null;
+  const beta = (bLag + b0 + bLead) / denom;
+  return finish(x0, y, mean(y) - beta * mean(x0), beta, { method: 'scholes_williams', n_effective: idx.length, lags: 1, iterations: 1 });
+}
+
+function estimateDimson(xs: number[], ys: number[], idx: number[], lags: number): BetaEstimate | null {
+  const X = idx.map(t => {
+    const row = [1];
+    for (let k = -lags; k <= lags; k++) row.push(xs[t + k]);
+    return row;
+  });
+  const y = idx.map(t => ys[t]);
+  const fit = olsFit(X, y);
+  if (!fit) return null;
+  const beta = fit.coef.slice(1).reduce((s, v) => s + v, 0);
+  const x0 = idx.map(t => xs[t]);
+  return finish(x0, y, mean(y) - beta * mean(x0), beta, { method: 'dimson', n_effective: idx.length, lags, iterations: 1 });
+}
+
+function estimateHuber(xs: number[], ys: number[], k = HUBER_K): BetaEstimate | null {
+  const start = estimateOLS(xs, ys);
+  if (!start) return null;
+  const n = xs.length;
+  let { alpha, beta } = start;
+  let weights = new Array<number>(n).fill(1);
+  let iterations = 0;
+  for (let it = 0; it < HUBER_MAX_ITER; it++) {
+    iterations = it + 1;
+    const resid = xs.map((x, i) => ys[i] - alpha - beta * x);
+    const absDev = resid.map(Math.abs).sort((a, b) => a - b);
+    const mad = absDev[Math.floor(n / 2)];
+    const scale = mad / 0.6745;
+    if (!(scale > 0)) break;
+    const c = k * scale;
+    weights = resid.map(e => (Math.abs(e) <= c ? 1 : c / Math.abs(e)));
+    let sw = 0, sx = 0, sy = 0;
+    for (let i = 0; i < n; i++) { sw += weights[i]; sx += weights[i] * xs[i]; sy += weights[i] * ys[i]; }
+    const xw = sx / sw;
+    const yw = sy / sw;
+    let num = 0, den = 0;
+    for (let i = 0; i < n; i++) { num += weights[i] * (xs[i] - xw) * (ys[i] - yw); den += weights[i] * (xs[i] - xw) ** 2; }
+    if (den === 0) return null;
+    const nextBeta = num / den;
+    const nextAlpha = yw - nextBeta * xw;
+    const converged = Math.abs(nextBeta - beta) < HUBER_TOL && Math.abs(nextAlpha - alpha) < HUBER_TOL;
+    alpha = nextAlpha;
+    beta = nextBeta;
+    if (converged) break;
+  }
+  const nEff = weights.reduce((s, w) => s + w, 0);
+  return finish(xs, ys, alpha, beta, { method: 'huber', n_effective: nEff, lags: 0, iterations });
+}
+
+/**
+ * Estimate α/β on consecutive daily returns. Returns null with fewer than MIN_BETA_OBS usable days
+ * or a degenerate design.
+ */
+export function estimateBeta(
+  xs: number[],
+  ys: number[],
+  method: BetaMethod = 'ols',
+  opts: { include?: boolean[]; lags?: number; huberK?: number } = {}
+): BetaEstimate | null {
+  if (xs.length !== ys.length) return null;
+  const lags = method === 'scholes_williams' ? 1 : method === 'dimson' ? Math.min(MAX_DIMSON_LAGS, Math.max(1, opts.lags ?? DEFAULT_DIMSON_LAGS)) : 0;
+  const idx = usableIndices(xs, ys, opts.include, lags);
+  if (idx.length < MIN_BETA_OBS) return null;
+  if (method === 'scholes_williams') return estimateScholesWilliams(xs, ys, idx);
+  if (method === 'dimson') return estimateDimson(xs, ys, idx, lags);
+  const x0 = idx.map(t => xs[t]);
+  const y0 = idx.map(t => ys[t]);
+  return method === 'huber' ? estimateHuber(x0, y0, opts.huberK) : estimateOLS(x0, y0);
+}
@@ -0,0 +1,210 @@
+// lib/core/caar.ts
+// Cross-sectional aggregation of market-model event samples: CAAR + standardized tests
+// - Patell (1976) standardized-residual Z
+// - Boehmer-Musumeci-Poulsen (1991) standardized cross-sectional t
+// - sign test (share of positive CARs vs 0.5)
+// - Corrado (1989) rank test, multi-day form with per-event finite-population variance
+// Inputs are the AR series / residSD / estimation residuals produced by computeMarketModelCAR.
+// Optional per-event weights (confounded=downweight) apply to the CAAR and every test statistic;
+// with all weights 1 each test reduces to its textbook equal-weight form.
+
+export type CAAREvent = {
+  car: number;
+  ars: number[];        // event-window abnormal returns
+  resid_sd: number;     // estimation-period residual SD (olsAlphaBeta)
+  est_resid: number[];  // estimation-period residuals
+  weight?: number;      // optional weight for CAAR and tests (default 1)
+};
+
+export type TestStat = { stat: number; p_value: number } | null;
+
+export type CAARResult = {
+  n: number;
+  caar: number;         // weighted mean CAR (= mean_car without weights)
+  mean_car: number;     // unweighted
+  median_car: number;
+  sd_car: number | null;
+  positive_share: number;
+  tests: {
+    cross_sectional_t: TestStat;
+    patell_z: TestStat;
+    bmp_t: TestStat;
+    sign_z: TestStat;
+    rank_z: TestStat;
+  };
+};
+
+// Abramowitz-Stegun 7.1.26 erf approximation (|err| < 1.5e-7)
+function erf(x: number): number {
+  const sign = x < 0 ? -1 : 1;
+  const ax = Math.abs(x);
+  const t = 1 / (1 + 0.3275911 * ax);
+  const y = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-ax * ax);
+  return sign * y;
+}
+
+export function normalCdf(z: number): number {
+  return 0.5 * (1 + erf(z / Math.SQRT2));
+}
+
+// two-sided p-value under N(0,1)
+export function twoSidedP(z: number): number {
+  if (!isFinite(z)) return 0;
+  return Math.min(1, 2 * (1 - normalCdf(Math.abs(z))));
+}
+
+function mean(a: number[]): number {
+  return a.reduce((s, v) => s + v, 0) / a.length;
+}
+
+function sampleSD(a: number[]): number | null {
+  if (a.length < 2) return null;
+  const m = mean(a);
+  return Math.sqrt(a.reduce((s, v) => s + (v - m) * (v - m), 0) / (a.length - 1));
+}
+
+function median(a: number[]): number {
+  const s = [...a].sort((x, y) => x - y);
+  const mid = Math.floor(s.length / 2);
+  return s.length % 2 ? s[mid] : (s[mid - 1] + s[mid]) / 2;
+}
+
+function stat(value: number | null): TestStat {
+  if (value === null || !isFinite(value)) return null;
+  return { stat: value, p_value: twoSidedP(value) };
+}
+
+function weightOf(ev: CAAREvent): number {
+  return typeof ev.weight === 'number' && ev.weight >= 0 ? ev.weight : 1;
+}
+
+/**
+ * t of a weighted mean: reliability-weighted variance, SE² = var · Σw² / (Σw)².
+ * Equal weights give mean / (sd / √n).
+ */
+export function weightedMeanT(values: number[], weights: number[]): number | null {
+  const w1 = weights.reduce((s, w) => s + w, 0);
+  const w2 = weights.reduce((s, w) => s + w * w, 0);
+  if (values.length < 2 || !(w1 > 0) || w1 * w1 <= w2) return null;
+  const m = values.reduce((s, v, i) => s + weights[i] * v, 0) / w1;
+  const variance = values.reduce((s, v, i) => s + weights[i] * (v - m) ** 2, 0) / (w1 - w2 / w1);
+  const se = Math.sqrt(variance * w2) / w1;
+  return se > 0 ? m / se : null;
+}
+
+// average ranks (ties share the mean rank), 1-based
+function averageRanks(values: number[]): number[] {
+  const idx = values.map((v, i) => ({ v, i })).sort((a, b) => a.v - b.v);
+  const ranks = new Array<number>(values.length);
+  let k = 0;
+  while (k < idx.length) {
+    let j = k;
+    while (j + 1 < idx.length && idx[j + 1].v === idx[k].v) j++;
+    const r = (k + j) / 2 + 1;
+    for (let m = k; m <= j; m++) ranks[idx[m].i] = r;
+    k = j + 1;
+  }
+  return ranks;
+}
+
+/**
+ * Standardized CAR per event: CAR_i / (residSD_i * sqrt(L_i)).
+ * Returns null when the event lacks a usable residual SD.
+ */
+export function standardizedCAR(ev: CAAREvent): number | null {
+  const L = ev.ars.length;
+  if (L === 0 || !(ev.resid_sd > 0)) return null;
+  return ev.car / (ev.resid_sd * Math.sqrt(L));
+}
+
+export function patellZ(events: CAAREvent[]): number | null {
+  let sum = 0;
+  let varSum = 0;
+  for (const ev of events) {
+    const scar = standardizedCAR(ev);
+    const m = ev.est_resid.length;
+    if (scar === null || m <= 4) continue;
+    const w = weightOf(ev);
+    sum += w * scar;
+    varSum += w * w * (m - 2) / (m - 4); // variance of a t-distributed standardized residual
+  }
+  if (varSum <= 0) return null;
+  return sum / Math.sqrt(varSum);
+}
+
+export function bmpT(events: CAAREvent[]): number | null {
+  const scars: number[] = [];
+  const weights: number[] = [];
+  for (const ev of events) {
+    const scar = standardizedCAR(ev);
+    if (scar === null) continue;
+    scars.push(scar);
+    weights.push(weightOf(ev));
+  }
+  return weightedMeanT(scars, weights);
+}
+
+// (Σw·1[CAR>0] − ½Σw) / (½√Σw²) over non-zero CARs; equal weights give (pos − n/2) / (√n/2)
+export function signZ(cars: number[], weights?: number[]): number | null {
+  let w1 = 0;
+  let w2 = 0;
+  let pos = 0;
+  cars.forEach((c, i) => {
+    if (c === 0) return;
+    const w = weights ? weights[i] : 1;
+    w1 += w;
+    w2 += w * w;
+    if (c > 0) pos += w;
+  });
+  if (!(w2 > 0)) return null;
+  return (pos - 0.5 * w1) / (0.5 * Math.sqrt(w2));
+}
+
+export function rankZ(events: CAAREvent[]): number | null {
+  let kSum = 0;
+  let varSum = 0;
+  for (const ev of events) {
+    const L = ev.ars.length;
+    const combined = [...ev.est_resid, ...ev.ars];
+    const T = combined.length;
+    if (L === 0 || T <= L) continue;
+    const ranks = averageRanks(combined);
+    const u = ranks.map(r => r / (T + 1) - 0.5);
+    const popVar = u.reduce((s, v) => s + v * v, 0) / T;
+    // sum of L ranks drawn without replacement from T
+    const k = u.slice(T - L).reduce((s, v) => s + v, 0);
+    const w = weightOf(ev);
+    kSum += w * k;
+    varSum += w * w * L * popVar * (T - L) / (T - 1);
+  }
+  if (varSum <= 0) return null;
+  return kSum / Math.sqrt(varSum);
+}
+
+export function aggregateCAAR(events: CAAREvent[]): CAARResult | null {
+  const usable = events.filter(ev => isFinite(ev.car));
+  const n = usable.length;
+  if (n === 0) return null;
+
+  const cars = usable.map(ev => ev.car);
+  const weights = usable.map(weightOf);
+  const wSum = weights.reduce((s, w) => s + w, 0);
+  const caar = wSum > 0 ? usable.reduce((s, ev, i) => s + ev.car * weights[i], 0) / wSum : mean(cars);
+  const sd = sampleSD(cars);
+
+  return {
+    n,
+    caar,
+    mean_car: mean(cars),
+    median_car: median(cars),
+    sd_car: sd,
+    positive_share: cars.filter(c => c > 0).length / n,
+    tests: {
+      cross_sectional_t: stat(weightedMeanT(cars, weights)),
+      patell_z: stat(patellZ(usable)),
+      bmp_t: stat(bmpT(usable)),
+      sign_z: stat(signZ(cars, weights)),
+      rank_z: stat(rankZ(usable)),
+    },
+  };
+}
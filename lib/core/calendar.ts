@@ -1,8 +1,12 @@
 import { PriceData } from '@/lib/core/schema';
+import { isEarlyClose, isTradingDay, nextTradingDay } from '@/lib/core/tradingCalendar';
+import { isDebugFlag, debugLog } from '@/lib/core/debug';
 
 type ResolveDay0Meta = {
   fallbackUsed?: boolean;
   fallbackReason?: 'closest_future' | 'no_future' | 'same_day';
+  earlyClose?: boolean;        // Day0 is a 1pm NYSE session
+  calendarMismatch?: boolean;  // NYSE Day0 session has no price row; nearest available row used
 };
 
 let lastResolveDay0Meta: ResolveDay0Meta = {};
@@ -16,8 +20,8 @@ export function resolveDay0(
   when: string,
   tradingDates: string[]
 ): number | null {
-  console.log(`Resolving Day0 for ${announceDate} (when: ${when})`);
-  console.log(`Available trading dates: ${tradingDates.slice(0, 5).join(', ')}... (${tradingDates.length} total)`);
+  debugLog(isDebugFlag('DEBUG_ANALYZE'), `Resolving Day0 for ${announceDate} (when: ${when})`);
+  debugLog(isDebugFlag('DEBUG_ANALYZE'), `Available trading dates: ${tradingDates.slice(0, 5).join(', ')}... (${tradingDates.length} total)`);
 
   const announce = new Date(announceDate);
   const today = new Date();
@@ -26,14 +30,30 @@ export function resolveDay0(
 
   // 미래 날짜는 처리하지 않음
   if (announce > today) {
-    console.log(`Skipping future date: ${announceDate} (current: ${today.toISOString().split('T')[0]})`);
+    debugLog(isDebugFlag('DEBUG_ANALYZE'), `Skipping future date: ${announceDate} (current: ${today.toISOString().split('T')[0]})`);
     return null;
   }
 
-  if (when === 'bmo') {
+  // NYSE 캘린더 기준 Day0: BMO는 발표일(휴장이면 다음 거래일), 그 외(장중 DMH 포함)는 발표일 다음 거래일
+  const sameSession = when === 'bmo';
+  const expected = sameSession && isTradingDay(announceDate)
+    ? announceDate
+    : nextTradingDay(announceDate);
+  const expectedIndex = tradingDates.indexOf(expected);
+  if (expectedIndex >= 0) {
+    if (isEarlyClose(expected)) lastResolveDay0Meta = { earlyClose: true };
+    return expectedIndex;
+  }
+  // 가격 데이터가 해당 세션을 포함해야 하는데 행이 없음(데이터 누락) → 기존 행 기준 폴백
+  if (tradingDates.length > 0 && expected <= tradingDates[tradingDates.length - 1]) {
+    debugLog(isDebugFlag('DEBUG_ANALYZE'), `Calendar Day0 ${expected} not in price data; falling back to available rows`);
+    lastResolveDay0Meta = { calendarMismatch: true };
+  }
+
+  if (sameSession) {
     // BMO: 발표일이 Day0
     const day0Index = tradingDates.findIndex(date => date === announceDate);
-    console.log(`BMO: Looking for exact date ${announceDate}, found at index ${day0Index}`);
+    debugLog(isDebugFlag('DEBUG_ANALYZE'), `BMO: Looking for exact date ${announceDate}, found at index ${day0Index}`);
     if (day0Index >= 0) {
       return day0Index;
     }
@@ -47,6 +67,7 @@ export function resolveDay0(
     if (fallbackIndex >= 0) {
       if (fallback.fallbackUsed) {
         lastResolveDay0Meta = {
+          ...lastResolveDay0Meta,
           fallbackUsed: true,
           fallbackReason: fallback.reason,
         };
@@ -57,19 +78,20 @@ export function resolveDay0(
     return null;
   } else {
     // AMC, DMH, unknown: 발표일 다음 거래일이 Day0
-    const nextTradingDay = findNextTradingDay(announceDate, tradingDates);
-    console.log(`AMC/DMH/unknown: Next trading day after ${announceDate} is ${nextTradingDay.date}`);
-    if (!nextTradingDay.date) return null;
+    const next = findNextTradingDay(announceDate, tradingDates);
+    debugLog(isDebugFlag('DEBUG_ANALYZE'), `AMC/DMH/unknown: Next trading day after ${announceDate} is ${next.date}`);
+    if (!next.date) return null;
 
-    if (nextTradingDay.fallbackUsed) {
+    if (next.fallbackUsed) {
       lastResolveDay0Meta = {
+        ...lastResolveDay0Meta,
         fallbackUsed: true,
-        fallbackReason: nextTradingDay.reason,
+        fallbackReason: next.reason,
       };
     }
 
-    const day0Index = tradingDates.findIndex(date => date === nextTradingDay.date);
-    console.log(`Day0 index: ${day0Index}`);
+    const day0Index = tradingDates.findIndex(date => date === next.date);
+    debugLog(isDebugFlag('DEBUG_ANALYZE'), `Day0 index: ${day0Index}`);
     return day0Index >= 0 ? day0Index : null;
   }
 }
@@ -84,7 +106,7 @@ function findNextTradingDay(
 
   // 미래 날짜는 처리하지 않음
   if (announce > today) {
-    console.log(`Skipping future date: ${announceDate} (current: ${today.toISOString().split('T')[0]})`);
+    debugLog(isDebugFlag('DEBUG_ANALYZE'), `Skipping future date: ${announceDate} (current: ${today.toISOString().split('T')[0]})`);
     return { date: null, fallbackUsed: false };
   }
 
@@ -92,24 +114,24 @@ function findNextTradingDay(
   for (const date of tradingDates) {
     const tradingDate = new Date(date);
     if (options?.includeSameDay && tradingDate.getTime() === announce.getTime()) {
-      console.log(`Using same-day trading session for ${date}`);
+      debugLog(isDebugFlag('DEBUG_ANALYZE'), `Using same-day trading session for ${date}`);
       return { date, fallbackUsed: false, reason: 'same_day' };
     }
 
     if (tradingDate > announce) {
-      console.log(`Found next trading day: ${date} (after ${announceDate})`);
+      debugLog(isDebugFlag('DEBUG_ANALYZE'), `Found next trading day: ${date} (after ${announceDate})`);
       return { date, fallbackUsed: false, reason: 'closest_future' };
     }
   }
 
-  console.log(`No future trading day found for ${announceDate}`);
+  debugLog(isDebugFlag('DEBUG_ANALYZE'), `No future trading day found for ${announceDate}`);
 
   if (tradingDates.length === 0) {
     return { date: null, fallbackUsed: false };
   }
 
   const lastDate = tradingDates[tradingDates.length - 1];
-  console.log(`Falling back to last available trading date: ${lastDate}`);
+  debugLog(isDebugFlag('DEBUG_ANALYZE'), `Falling back to last available trading date: ${lastDate}`);
   return { date: lastDate, fallbackUsed: true, reason: 'no_future' };
 }
 
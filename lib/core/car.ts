@@ -1,6 +1,31 @@
 import { PriceData, CARResult } from '@/lib/core/schema';
+import type { ExpectedReturnModel, FactorSeries } from '@/lib/core/factors';
+import { MODEL_FACTORS } from '@/lib/core/factors';
+import { olsFit } from '@/lib/core/regression';
+import { BetaEstimate, BetaMethod, MAX_DIMSON_LAGS, estimateBeta } from '@/lib/core/beta';
+import { isDebugFlag, debugLog } from '@/lib/core/debug';
 
-export type InternalCAR = CARResult & { __partial?: boolean; __windowDays?: number };
+// One event-window day; returns are dated by the day they end on (offset 0 = Day0 close vs Day-1 close)
+export type ARPathPoint = {
+  date: string;
+  offset: number;    // trading days relative to Day0
+  ret: number;       // stock return (log for the market model, simple otherwise)
+  bench_ret: number | null; // benchmark return on the same basis
+  expected: number;  // model expected return
+  ar: number;
+  car: number;       // running sum of AR through this day
+};
+
+export type InternalCAR = CARResult & {
+  __partial?: boolean;
+  __windowDays?: number;
+  // market-model internals kept for cross-sectional tests (not serialized)
+  __ars?: number[];
+  __residSD?: number;
+  __estResid?: number[];
+  // daily AR path (serialized only with include=path)
+  __path?: ARPathPoint[];
+};
 
 export function computeCAR(
   prices: PriceData[],
@@ -15,7 +40,7 @@ export function computeCAR(
 
   const maxIndex = Math.min(prices.length - 1, bench.length - 1);
 
-  console.log(`CAR calculation: Day0=${day0Idx}, window=[${startOffset},${endOffset}], startIdx=${startIdx}, endIdx=${endIdx}, dataLength=${prices.length}`);
+  debugLog(isDebugFlag('DEBUG_ANALYZE'), `CAR calculation: Day0=${day0Idx}, window=[${startOffset},${endOffset}], startIdx=${startIdx}, endIdx=${endIdx}, dataLength=${prices.length}`);
 
   // 윈도우 범위 검증 - 더 유연한 검증
   if (startIdx < 0) {
@@ -53,7 +78,7 @@ function computeCARWithAdjustedWindow(
   let benchSum = 0;
   let validDays = 0;
 
-  console.log(`Computing CAR with adjusted window: startIdx=${startIdx}, endIdx=${endIdx}`);
+  debugLog(isDebugFlag('DEBUG_ANALYZE'), `Computing CAR with adjusted window: startIdx=${startIdx}, endIdx=${endIdx}`);
 
   // 윈도우 내 각 거래일에 대해 계산
   for (let i = startIdx; i < endIdx; i++) {
@@ -70,7 +95,7 @@ function computeCARWithAdjustedWindow(
     validDays++;
   }
   
-  console.log(`CAR calculation completed: validDays=${validDays}, retSum=${retSum.toFixed(4)}, benchSum=${benchSum.toFixed(4)}`);
+  debugLog(isDebugFlag('DEBUG_ANALYZE'), `CAR calculation completed: validDays=${validDays}, retSum=${retSum.toFixed(4)}, benchSum=${benchSum.toFixed(4)}`);
 
   // CAR = sum(ri - riBench)
   const car = retSum - benchSum;
@@ -117,88 +142,103 @@ export function alignPriceData(prices: PriceData[], bench: PriceData[]): {
   };
 }
 
+// Estimation-window hygiene: skip return days inside other events' windows, optionally winsorize
+export type EstimationFilter = {
+  excludeDates?: Set<string>;  // return dates (prices[i+1].date) to drop from estimation
+  winsorize?: number;          // tail share clamped on each side, e.g. 0.01 → 1st/99th percentile
+};
+
+// Clamp to the p / 1−p quantiles of the entries selected by `mask` (all entries when omitted)
+function winsorizeInPlace(a: number[], p: number | undefined, mask?: boolean[]) {
+  if (!p || p <= 0) return;
+  const sorted = a.filter((v, i) => (!mask || mask[i]) && isFinite(v)).sort((x, y) => x - y);
+  if (sorted.length < 3) return;
+  const q = (f: number) => sorted[Math.min(sorted.length - 1, Math.max(0, Math.round(f * (sorted.length - 1))))];
+  const lo = q(p);
+  const hi = q(1 - p);
+  for (let i = 0; i < a.length; i++) a[i] = Math.min(hi, Math.max(lo, a[i]));
+}
+
+function isExcluded(filter: EstimationFilter | undefined, p: PriceData[], i: number): boolean {
+  return !!filter?.excludeDates && filter.excludeDates.has(p[i + 1].date);
+}
+
 // Market model (CAPM-light) utilities
-type OLS = { alpha: number; beta: number; n: number; residSD: number };
+type OLS = BetaEstimate & { excluded: number };
 
-function olsAlphaBeta(stock: PriceData[], market: PriceData[], endIdx: number, lookback: number): OLS | null {
-  // compute simple log returns over [endIdx-lookback, endIdx)
+function olsAlphaBeta(
+  stock: PriceData[],
+  market: PriceData[],
+  endIdx: number,
+  lookback: number,
+  filter?: EstimationFilter,
+  betaMethod: BetaMethod = 'ols'
+): OLS | null {
+  // compute log returns over [endIdx-lookback, endIdx); padded days only supply market leads/lags
   const startIdx = Math.max(0, endIdx - lookback);
+  const lo = Math.max(0, startIdx - MAX_DIMSON_LAGS);
+  const hi = Math.min(stock.length - 1, market.length - 1, endIdx + MAX_DIMSON_LAGS);
   const xs: number[] = [];
   const ys: number[] = [];
-  for (let i = startIdx; i < endIdx; i++) {
-    if (i + 1 >= stock.length || i + 1 >= market.length) break;
-    const ri = Math.log(stock[i + 1].adjClose / stock[i].adjClose);
-    const rm = Math.log(market[i + 1].adjClose / market[i].adjClose);
-    if (isFinite(ri) && isFinite(rm)) {
-      ys.push(ri);
-      xs.push(rm);
-    }
+  const include: boolean[] = [];
+  let excluded = 0;
+  for (let i = lo; i < hi; i++) {
+    const inRange = i >= startIdx && i < endIdx;
+    const skip = inRange && isExcluded(filter, stock, i);
+    if (skip) excluded++;
+    xs.push(Math.log(market[i + 1].adjClose / market[i].adjClose));
+    ys.push(Math.log(stock[i + 1].adjClose / stock[i].adjClose));
+    include.push(inRange && !skip);
   }
-  const n = xs.length;
-  if (n < 20) return null; // require minimum observations
-  const mean = (a: number[]) => a.reduce((s, v) => s + v, 0) / a.length;
-  const xbar = mean(xs);
-  const ybar = mean(ys);
-  let num = 0, den = 0;
-  for (let i = 0; i < n; i++) { num += (xs[i] - xbar) * (ys[i] - ybar); den += (xs[i] - xbar) ** 2; }
-  if (den === 0) return null;
-  const beta = num / den;
-  const alpha = ybar - beta * xbar;
-  // residual SD
-  let ss = 0;
-  for (let i = 0; i < n; i++) {
-    const pred = alpha + beta * xs[i];
-    const resid = ys[i] - pred;
-    ss += resid * resid;
-  }
-  const residSD = Math.sqrt(ss / Math.max(1, n - 2));
-  return { alpha, beta, n, residSD };
+  winsorizeInPlace(xs, filter?.winsorize, include);
+  winsorizeInPlace(ys, filter?.winsorize, include);
+  const est = estimateBeta(xs, ys, betaMethod, { include }); // requires ≥20 observations
+  return est ? { ...est, excluded } : null;
 }
 
-export function computeMarketModelCAR(
-  prices: PriceData[],
-  bench: PriceData[],
-  day0Idx: number,
-  window: [number, number],
-  estimationWindow = 252
-): InternalCAR & { car_tstat?: number; market_model_used: true; alpha_beta: { alpha: number; beta: number; n: number }, tstat_flags?: { sigma_floor?: true; event_sd?: true; recomputed?: true } } {
-  // estimate alpha/beta up to day0Idx (exclude event window)
-  const ols = olsAlphaBeta(prices, bench, Math.max(0, day0Idx), estimationWindow);
-  // fallback to simple diff if OLS not available
-  const base = computeCAR(prices, bench, day0Idx, window);
-  if (!ols) {
-    return { ...base, market_model_used: true, alpha_beta: { alpha: 0, beta: 1, n: 0 }, car_tstat: undefined };
-  }
+// alpha/beta plus estimator diagnostics (market model only)
+export type AlphaBeta = {
+  alpha: number;
+  beta: number;
+  n: number;
+  method?: BetaMethod;
+  lags?: number;
+  iterations?: number;
+  n_effective?: number;
+};
 
-  const [startOffset, endOffset] = window;
-  let startIdx = day0Idx + startOffset;
-  let endIdx = day0Idx + endOffset;
-  let adjusted = false;
-  const maxIndex = Math.min(prices.length - 1, bench.length - 1);
-  if (startIdx < 0) { startIdx = 0; adjusted = true; }
-  if (endIdx > maxIndex) { endIdx = maxIndex; adjusted = true; }
-  if (startIdx >= endIdx) return { ...base, market_model_used: true, alpha_beta: { alpha: ols.alpha, beta: ols.beta, n: ols.n }, car_tstat: undefined };
+function alphaBetaOf(ols: OLS): AlphaBeta {
+  return { alpha: ols.alpha, beta: ols.beta, n: ols.n, method: ols.method, lags: ols.lags, iterations: ols.iterations, n_effective: ols.n_effective };
+}
 
-  let car = 0;
-  const ars: number[] = [];
-  for (let i = startIdx; i < endIdx; i++) {
-    if (i + 1 >= prices.length || i + 1 >= bench.length) break;
-    const ri = Math.log(prices[i + 1].adjClose / prices[i].adjClose);
-    const rm = Math.log(bench[i + 1].adjClose / bench[i].adjClose);
-    const exp = ols.alpha + ols.beta * rm;
-    const ar = ri - exp;
-    ars.push(ar);
-    car += ar;
-  }
+type TStatFlags = { sigma_floor?: true; event_sd?: true; recomputed?: true; clamped?: true };
+
+export type MarketModelCAR = InternalCAR & {
+  car_tstat?: number;
+  market_model_used: true;
+  alpha_beta: AlphaBeta;
+  tstat_flags?: TStatFlags;
+  model?: ExpectedReturnModel;
+  factor_loadings?: Record<string, number>;
+  r2?: number;
+  factor_model_unavailable?: true; // too few estimation days with factor rows → market model used instead
+  __excludedDays?: number;
+};
+
+/**
+ * Single-event CAR t-stat from the estimation residual SD (CAR_TSTAT_METHOD=resid, default)
+ * or the event-window AR SD (CAR_TSTAT_METHOD=event), clamped to ±10.
+ */
+function carTStat(car: number, ars: number[], residSD: number): { car_tstat?: number; tstat_flags?: TStatFlags } {
   const n = ars.length;
   let car_tstat: number | undefined = undefined;
   // t-stat 모드 및 하한
   const method = (process.env.CAR_TSTAT_METHOD === 'event') ? 'event' : 'resid';
   const sigmaFloor = 1e-4;
-  const __tstatFlags: { sigma_floor?: true; event_sd?: true; recomputed?: true } = {};
+  const __tstatFlags: TStatFlags = {};
   if (n > 1) {
     if (method === 'resid') {
-      const sd = Math.max(ols.residSD, sigmaFloor);
+      const sd = Math.max(residSD, sigmaFloor);
       if (sd === sigmaFloor) __tstatFlags.sigma_floor = true;
       const t_resid = car / (sd / Math.sqrt(n));
       car_tstat = t_resid;
@@ -233,8 +273,58 @@ export function computeMarketModelCAR(
     __tstatFlags.event_sd = __tstatFlags.event_sd || method === 'event' ? true : (__tstatFlags.event_sd as any);
     ;
     (car_tstat as number) = (car_tstat > 0 ? 10 : -10);
-    (__tstatFlags as any).clamped = true;
+    __tstatFlags.clamped = true;
   }
+  return { car_tstat, tstat_flags: Object.keys(__tstatFlags).length ? __tstatFlags : undefined };
+}
+
+// Clamp [day0+start, day0+end] to the available data (same rules as computeMarketModelCAR)
+function clampWindow(prices: PriceData[], bench: PriceData[], day0Idx: number, window: [number, number]) {
+  let startIdx = day0Idx + window[0];
+  let endIdx = day0Idx + window[1];
+  let adjusted = false;
+  const maxIndex = Math.min(prices.length - 1, bench.length - 1);
+  if (startIdx < 0) { startIdx = 0; adjusted = true; }
+  if (endIdx > maxIndex) { endIdx = maxIndex; adjusted = true; }
+  return { startIdx, endIdx, adjusted };
+}
+
+export function computeMarketModelCAR(
+  prices: PriceData[],
+  bench: PriceData[],
+  day0Idx: number,
+  window: [number, number],
+  estimationWindow = 252,
+  estimationGap = 0,
+  filter?: EstimationFilter,
+  betaMethod: BetaMethod = 'ols'
+): MarketModelCAR {
+  // estimate alpha/beta over [day0Idx-gap-estimationWindow, day0Idx-gap) (exclude event window)
+  const ols = olsAlphaBeta(prices, bench, Math.max(0, day0Idx - estimationGap), estimationWindow, filter, betaMethod);
+  // fallback to simple diff if OLS not available
+  const base = computeCAR(prices, bench, day0Idx, window);
+  if (!ols) {
+    return { ...base, market_model_used: true, alpha_beta: { alpha: 0, beta: 1, n: 0 }, car_tstat: undefined, model: 'market' };
+  }
+
+  const { startIdx, endIdx, adjusted } = clampWindow(prices, bench, day0Idx, window);
+  if (startIdx >= endIdx) return { ...base, market_model_used: true, alpha_beta: alphaBetaOf(ols), car_tstat: undefined, model: 'market', r2: ols.r2 };
+
+  let car = 0;
+  const ars: number[] = [];
+  const path: ARPathPoint[] = [];
+  for (let i = startIdx; i < endIdx; i++) {
+    if (i + 1 >= prices.length || i + 1 >= bench.length) break;
+    const ri = Math.log(prices[i + 1].adjClose / prices[i].adjClose);
+    const rm = Math.log(bench[i + 1].adjClose / bench[i].adjClose);
+    const exp = ols.alpha + ols.beta * rm;
+    const ar = ri - exp;
+    ars.push(ar);
+    car += ar;
+    path.push({ date: prices[i + 1].date, offset: i + 1 - day0Idx, ret: ri, bench_ret: rm, expected: exp, ar, car });
+  }
+  const n = ars.length;
+  const { car_tstat, tstat_flags } = carTStat(car, ars, ols.residSD);
 
   return {
     car,
@@ -244,7 +334,304 @@ export function computeMarketModelCAR(
     __windowDays: n,
     market_model_used: true,
     car_tstat,
-    alpha_beta: { alpha: ols.alpha, beta: ols.beta, n: ols.n },
-    tstat_flags: Object.keys(__tstatFlags).length ? __tstatFlags : undefined
+    alpha_beta: alphaBetaOf(ols),
+    tstat_flags,
+    model: 'market',
+    factor_loadings: { market: ols.beta },
+    r2: ols.r2,
+    __ars: ars,
+    __residSD: ols.residSD,
+    __estResid: ols.resid,
+    __excludedDays: ols.excluded,
+    __path: path,
+  };
+}
+
+/**
+ * Market-adjusted returns: AR = r_i - r_m (no estimation). The estimation window is only used
+ * to measure the SD of (r_i - r_m) for the t-stat and cross-sectional standardization.
+ */
+function computeMarketAdjustedCAR(
+  prices: PriceData[],
+  bench: PriceData[],
+  day0Idx: number,
+  window: [number, number],
+  estimationWindow: number,
+  estimationGap: number,
+  filter?: EstimationFilter
+): MarketModelCAR {
+  const base = computeCAR(prices, bench, day0Idx, window);
+  const simple = (p: PriceData[], i: number) => (p[i + 1].adjClose / p[i].adjClose) - 1;
+
+  const estEnd = Math.max(0, day0Idx - estimationGap);
+  const estResid: number[] = [];
+  let excluded = 0;
+  for (let i = Math.max(0, estEnd - estimationWindow); i < estEnd; i++) {
+    if (i + 1 >= prices.length || i + 1 >= bench.length) break;
+    if (isExcluded(filter, prices, i)) { excluded++; continue; }
+    const d = simple(prices, i) - simple(bench, i);
+    if (isFinite(d)) estResid.push(d);
+  }
+  winsorizeInPlace(estResid, filter?.winsorize);
+  const m = estResid.length;
+  const estMean = m ? estResid.reduce((s, v) => s + v, 0) / m : 0;
+  const residSD = m > 1 ? Math.sqrt(estResid.reduce((s, v) => s + (v - estMean) ** 2, 0) / (m - 1)) : 0;
+
+  const { startIdx, endIdx, adjusted } = clampWindow(prices, bench, day0Idx, window);
+  const ars: number[] = [];
+  const path: ARPathPoint[] = [];
+  let car = 0;
+  for (let i = startIdx; i < endIdx; i++) {
+    if (i + 1 >= prices.length || i + 1 >= bench.length) break;
+    const ri = simple(prices, i);
+    const rm = simple(bench, i);
+    ars.push(ri - rm);
+    car += ri - rm;
+    path.push({ date: prices[i + 1].date, offset: i + 1 - day0Idx, ret: ri, bench_ret: rm, expected: rm, ar: ri - rm, car });
+  }
+  const t = m >= 20 ? carTStat(car, ars, residSD) : {};
+
+  return {
+    car,
+    ret_sum: base.ret_sum,
+    bench_sum: base.bench_sum,
+    __partial: adjusted || base.__partial,
+    __windowDays: ars.length,
+    market_model_used: true,
+    alpha_beta: { alpha: 0, beta: 1, n: m },
+    ...t,
+    model: 'market_adjusted',
+    __excludedDays: excluded,
+    __path: path,
+    ...(m >= 20 ? { __ars: ars, __residSD: residSD, __estResid: estResid } : {}),
+  };
+}
+
+/**
+ * Multi-factor model on excess returns: r_i - RF = a + Σ b_k F_k + e, with factor returns
+ * taken from the offline Ken French series (simple returns, matched on the return date).
+ * AR_t = (r_i,t - RF_t) - (a + Σ b_k F_k,t). Days without a factor row are skipped.
+ * With too few estimation days carrying factor rows (e.g. the factor file ends before the event),
+ * falls back to the market model and reports model='market' with factor_model_unavailable.
+ */
+function computeFactorModelCAR(
+  prices: PriceData[],
+  bench: PriceData[],
+  day0Idx: number,
+  window: [number, number],
+  model: 'ff3' | 'ff5' | 'carhart',
+  factors: FactorSeries,
+  estimationWindow: number,
+  estimationGap: number,
+  filter?: EstimationFilter
+): MarketModelCAR {
+  const names = MODEL_FACTORS[model];
+  const base = computeCAR(prices, bench, day0Idx, window);
+
+  const row = (i: number): { y: number; x: number[]; rf: number } | null => {
+    if (i + 1 >= prices.length) return null;
+    const f = factors.get(prices[i + 1].date);
+    if (!f || typeof f.RF !== 'number' || names.some(k => typeof f[k] !== 'number')) return null;
+    const ri = (prices[i + 1].adjClose / prices[i].adjClose) - 1;
+    if (!isFinite(ri)) return null;
+    return { y: ri - f.RF, x: [1, ...names.map(k => f[k])], rf: f.RF };
+  };
+
+  const estEnd = Math.max(0, day0Idx - estimationGap);
+  const X: number[][] = [];
+  const y: number[] = [];
+  let excluded = 0;
+  for (let i = Math.max(0, estEnd - estimationWindow); i < estEnd; i++) {
+    if (i + 1 < prices.length && isExcluded(filter, prices, i)) { excluded++; continue; }
+    const r = row(i);
+    if (r) { X.push(r.x); y.push(r.y); }
+  }
+  // winsorize the dependent (excess) return only; factor returns are market-wide
+  winsorizeInPlace(y, filter?.winsorize);
+  const fit = y.length >= 20 + names.length ? olsFit(X, y) : null;
+  if (!fit) {
+    const fallback = computeMarketModelCAR(prices, bench, day0Idx, window, estimationWindow, estimationGap, filter);
+    return { ...fallback, model: 'market', factor_model_unavailable: true };
+  }
+
+  const { startIdx, endIdx, adjusted } = clampWindow(prices, bench, day0Idx, window);
+  const ars: number[] = [];
+  const path: ARPathPoint[] = [];
+  let car = 0;
+  for (let i = startIdx; i < endIdx; i++) {
+    const r = row(i);
+    if (!r) continue;
+    const fitted = r.x.reduce((s, v, j) => s + v * fit.coef[j], 0);
+    const ar = r.y - fitted;
+    ars.push(ar);
+    car += ar;
+    const rm = i + 1 < bench.length ? (bench[i + 1].adjClose / bench[i].adjClose) - 1 : null;
+    path.push({ date: prices[i + 1].date, offset: i + 1 - day0Idx, ret: r.y + r.rf, bench_ret: rm, expected: r.rf + fitted, ar, car });
+  }
+  const { car_tstat, tstat_flags } = carTStat(car, ars, fit.sigma);
+  const loadings: Record<string, number> = {};
+  names.forEach((k, j) => { loadings[k] = fit.coef[j + 1]; });
+
+  return {
+    car,
+    ret_sum: base.ret_sum,
+    bench_sum: base.bench_sum,
+    __partial: adjusted || base.__partial || ars.length < endIdx - startIdx ? true : undefined,
+    __windowDays: ars.length,
+    market_model_used: true,
+    car_tstat,
+    alpha_beta: { alpha: fit.coef[0], beta: fit.coef[1], n: fit.n },
+    tstat_flags,
+    model,
+    factor_loadings: loadings,
+    r2: fit.r2,
+    __ars: ars,
+    __residSD: fit.sigma,
+    __estResid: fit.resid,
+    __excludedDays: excluded,
+    __path: path,
+  };
+}
+
+/**
+ * Dispatch on the expected-return model. 'market' keeps the existing log-return market model;
+ * factor models require a FactorSeries (see loadFactorSeries). `estimationGap` counts back from Day0.
+ */
+export function computeModelCAR(
+  prices: PriceData[],
+  bench: PriceData[],
+  day0Idx: number,
+  window: [number, number],
+  opts: {
+    model?: ExpectedReturnModel;
+    factors?: FactorSeries | null;
+    estimationWindow?: number;
+    estimationGap?: number;
+    filter?: EstimationFilter;
+    betaMethod?: BetaMethod;
+  } = {}
+): MarketModelCAR {
+  const model = opts.model || 'market';
+  const estimationWindow = opts.estimationWindow ?? 252;
+  // estimation never reaches into the window or the Day0 return (see effectiveEstimationGap)
+  const estimationGap = Math.max(opts.estimationGap ?? 0, 1, -window[0]);
+  if (model === 'market_adjusted') {
+    return computeMarketAdjustedCAR(prices, bench, day0Idx, window, estimationWindow, estimationGap, opts.filter);
+  }
+  if (model === 'ff3' || model === 'ff5' || model === 'carhart') {
+    if (!opts.factors) throw new Error('ERR_NO_FACTORS');
+    return computeFactorModelCAR(prices, bench, day0Idx, window, model, opts.factors, estimationWindow, estimationGap, opts.filter);
+  }
+  return computeMarketModelCAR(prices, bench, day0Idx, window, estimationWindow, estimationGap, opts.filter, opts.betaMethod);
+}
+
+export type BHARResult = {
+  bhar: number;        // Π(1+r_i) − Π(1+r_bench) over the event window
+  stock_bh: number;
+  bench_bh: number;
+  days: number;
+};
+
+/**
+ * Lyon-Barber-Tsai (1999) skewness-adjusted t for a sample of BHARs:
+ * t_sa = √n (S + γS²/3 + γ/(6n)), S = mean/sd, γ = Σ(x−mean)³ / (n·sd³).
+ */
+export function skewnessAdjustedT(values: number[]): { t: number; n: number; skew: number } | null {
+  const n = values.length;
+  if (n < 2) return null;
+  const mean = values.reduce((s, v) => s + v, 0) / n;
+  const sd = Math.sqrt(values.reduce((s, v) => s + (v - mean) ** 2, 0) / (n - 1));
+  if (!(sd > 0)) return null;
+  const skew = values.reduce((s, v) => s + (v - mean) ** 3, 0) / (n * sd ** 3);
+  const S = mean / sd;
+  return { t: Math.sqrt(n) * (S + (skew * S * S) / 3 + skew / (6 * n)), n, skew };
+}
+
+function buyAndHold(p: PriceData[], startIdx: number, endIdx: number): number {
+  return p[endIdx].adjClose / p[startIdx].adjClose - 1;
+}
+
+/**
+ * Buy-and-hold abnormal return against the benchmark (reference portfolio) over the clamped window.
+ * No per-event t: the skewness-adjusted t needs a cross-section of independent BHARs, so it is
+ * reported only when events are pooled (skewnessAdjustedT in aggregate / event-study caar).
+ */
+export function computeBHAR(
+  prices: PriceData[],
+  bench: PriceData[],
+  day0Idx: number,
+  window: [number, number]
+): BHARResult | null {
+  const { startIdx, endIdx } = clampWindow(prices, bench, day0Idx, window);
+  if (startIdx >= endIdx) return null;
+  const stock_bh = buyAndHold(prices, startIdx, endIdx);
+  const bench_bh = buyAndHold(bench, startIdx, endIdx);
+  const bhar = stock_bh - bench_bh;
+  const days = endIdx - startIdx;
+  return { bhar, stock_bh, bench_bh, days };
+}
+
+export type GapComponents = {
+  overnight_ar: number;    // close(t−1) → open(t), abnormal
+  intraday_ar: number;     // open(t) → close(t), abnormal
+  overnight_ret: number;   // raw stock components (log; overnight + intraday = the day's log return)
+  intraday_ret: number;
+};
+
+export type GapDecomposition = {
+  day0?: GapComponents;
+  day1?: GapComponents;
+  beta_used: number;
+  bench_components: boolean;  // false when the benchmark has no open prices (basket) → raw market adjustment skipped
+};
+
+// Dividend-adjusted open: scale the raw open by the same day's adjClose/close factor
+function adjOpen(p: PriceData): number | null {
+  if (typeof p.open !== 'number' || !(p.open > 0)) return null;
+  if (typeof p.close === 'number' && p.close > 0) return p.open * (p.adjClose / p.close);
+  return p.open;
+}
+
+function splitDay(p: PriceData[], i: number): { overnight: number; intraday: number } | null {
+  if (i < 1 || i >= p.length) return null;
+  const o = adjOpen(p[i]);
+  if (o === null) return null;
+  const overnight = Math.log(o / p[i - 1].adjClose);
+  const intraday = Math.log(p[i].adjClose / o);
+  return isFinite(overnight) && isFinite(intraday) ? { overnight, intraday } : null;
+}
+
+/**
+ * Split the Day0 and Day+1 reaction into close-to-open (overnight gap) and open-to-close (intraday)
+ * log-return components, so the two legs add up to the day's log return (and, with benchmark opens,
+ * to the market model's AR). Abnormal parts subtract beta × the benchmark's matching component; the
+ * daily alpha is charged to the intraday leg. Returns null when the stock series has no open prices.
+ */
+export function computeGapDecomposition(
+  prices: PriceData[],
+  bench: PriceData[],
+  day0Idx: number,
+  alphaBeta?: { alpha: number; beta: number; n: number }
+): GapDecomposition | null {
+  const beta = alphaBeta && alphaBeta.n > 0 && isFinite(alphaBeta.beta) ? alphaBeta.beta : 1;
+  const alpha = alphaBeta && alphaBeta.n > 0 && isFinite(alphaBeta.alpha) ? alphaBeta.alpha : 0;
+  let benchComponents = true;
+
+  const at = (i: number): GapComponents | undefined => {
+    const s = splitDay(prices, i);
+    if (!s) return undefined;
+    const m = splitDay(bench, i);
+    if (!m) benchComponents = false;
+    return {
+      overnight_ar: s.overnight - (m ? beta * m.overnight : 0),
+      intraday_ar: s.intraday - (m ? alpha + beta * m.intraday : 0),
+      overnight_ret: s.overnight,
+      intraday_ret: s.intraday,
+    };
   };
+
+  const day0 = at(day0Idx);
+  const day1 = at(day0Idx + 1);
+  if (!day0 && !day1) return null;
+  return { day0, day1, beta_used: beta, bench_components: benchComponents };
 }
@@ -0,0 +1,416 @@
+// lib/core/chart.ts
+// Event-study charts without a browser: the layout is built once as a small scene (rects, polylines,
+// text) and then serialized to SVG or rasterized to PNG (RGBA buffer, 5×7 bitmap font, zlib deflate).
+// - car:   running CAR per event (path from include=path), starting at 0 on the base day
+// - price: stock vs benchmark cumulative index (100 on the base day), benchmark dashed
+
+import { deflateSync } from 'zlib';
+import type { AnalysisSegment } from '@/lib/core/schema';
+
+export type ChartMode = 'car' | 'price';
+export type ChartFormat = 'svg' | 'png';
+
+export const CHART_MODES: ChartMode[] = ['car', 'price'];
+export const CHART_FORMATS: ChartFormat[] = ['svg', 'png'];
+export const MAX_CHART_EVENTS = 8;
+export const DEFAULT_CHART_WIDTH = 800;
+export const DEFAULT_CHART_HEIGHT = 450;
+
+export type ChartOptions = { mode: ChartMode; format: ChartFormat; width: number; height: number };
+
+export type ChartPoint = { offset: number; value: number };
+
+export type ChartSeries = {
+  label: string;
+  color: string;
+  dashed?: boolean;
+  points: ChartPoint[];
+};
+
+export type ChartSpec = {
+  title: string;
+  subtitle?: string;
+  mode: ChartMode;
+  series: ChartSeries[];
+  windows: Array<[number, number]>; // event windows whose boundaries are marked
+};
+
+const PALETTE = ['#2563eb', '#dc2626', '#16a34a', '#d97706', '#7c3aed', '#0891b2', '#db2777', '#4b5563'];
+
+/**
+ * Validate mode / format / size. Throws ERR_INVALID_CHART.
+ */
+export function parseChartOptions(
+  mode?: string | null,
+  format?: string | null,
+  width?: number | string | null,
+  height?: number | string | null
+): ChartOptions {
+  const m = mode == null || mode.trim() === '' ? 'car' : mode.trim().toLowerCase();
+  const f = format == null || format.trim() === '' ? 'svg' : format.trim().toLowerCase();
+  if (!(CHART_MODES as string[]).includes(m) || !(CHART_FORMATS as string[]).includes(f)) throw new Error('ERR_INVALID_CHART');
+  const toInt = (v: number | string | null | undefined, def: number, min: number, max: number) => {
+    if (v == null || v === '') return def;
+    const n = typeof v === 'number' ? v : Number(v);
+    if (!Number.isInteger(n) || n < min || n > max) throw new Error('ERR_INVALID_CHART');
+    return n;
+  };
+  return {
+    mode: m as ChartMode,
+    format: f as ChartFormat,
+    width: toInt(width, DEFAULT_CHART_WIDTH, 320, 2000),
+    height: toInt(height, DEFAULT_CHART_HEIGHT, 200, 1200),
+  };
+}
+
+/**
+ * One series per event (car) or a stock/benchmark pair per event (price) from segments carrying
+ * price_reaction.path. `logReturns` must match the model that produced the path (market = log).
+ */
+export function buildChartSeries(
+  segments: AnalysisSegment[],
+  mode: ChartMode,
+  opts: { logReturns: boolean; ticker?: string; benchLabel?: string }
+): ChartSeries[] {
+  const out: ChartSeries[] = [];
+  segments.forEach((seg, k) => {
+    const path = seg.price_reaction.path;
+    if (!path || path.length === 0) return;
+    const color = PALETTE[k % PALETTE.length];
+    const base = path[0].offset - 1;
+    const date = seg.earnings.date;
+    if (mode === 'car') {
+      out.push({ label: date, color, points: [{ offset: base, value: 0 }, ...path.map(p => ({ offset: p.offset, value: p.car }))] });
+      return;
+    }
+    const grow = (level: number, r: number) => (opts.logReturns ? level * Math.exp(r) : level * (1 + r));
+    let stock = 100;
+    let bench = 100;
+    const stockPts: ChartPoint[] = [{ offset: base, value: 100 }];
+    const benchPts: ChartPoint[] = [{ offset: base, value: 100 }];
+    for (const p of path) {
+      stock = grow(stock, p.ret);
+      stockPts.push({ offset: p.offset, value: stock });
+      if (typeof p.bench_ret === 'number' && isFinite(p.bench_ret)) {
+        bench = grow(bench, p.bench_ret);
+        benchPts.push({ offset: p.offset, value: bench });
+      }
+    }
+    out.push({ label: `${date} ${opts.ticker ?? 'stock'}`, color, points: stockPts });
+    out.push({ label: `${date} ${opts.benchLabel ?? 'bench'}`, color, dashed: true, points: benchPts });
+  });
+  return out;
+}
+
+// ---------------------------------------------------------------------------------------------
+// Scene
+
+type Anchor = 'start' | 'middle' | 'end';
+
+type SceneItem =
+  | { kind: 'rect'; x: number; y: number; w: number; h: number; fill: string; opacity: number }
+  | { kind: 'line'; points: Array<[number, number]>; stroke: string; width: number; dash?: [number, number] }
+  | { kind: 'text'; x: number; y: number; text: string; size: number; anchor: Anchor; fill: string };
+
+type Scene = { width: number; height: number; items: SceneItem[] };
+
+function niceStep(range: number, target: number): number {
+  const raw = range / target;
+  const mag = Math.pow(10, Math.floor(Math.log10(raw)));
+  const f = raw / mag;
+  return (f <= 1 ? 1 : f <= 2 ? 2 : f <= 5 ? 5 : 10) * mag;
+}
+
+function tickDecimals(step: number): number {
+  return Math.max(0, Math.min(4, -Math.floor(Math.log10(step) + 1e-9)));
+}
+
+const fmtOffset = (n: number) => (n > 0 ? `+${n}` : `${n}`);
+
+function buildScene(spec: ChartSpec, width: number, height: number): Scene {
+  const items: SceneItem[] = [];
+  const left = 70, right = 20, top = spec.subtitle ? 56 : 40, bottom = 46;
+  const pw = width - left - right;
+  const ph = height - top - bottom;
+  const baseline = spec.mode === 'car' ? 0 : 100;
+
+  const offsets = spec.series.flatMap(s => s.points.map(p => p.offset)).concat(spec.windows.flat());
+  let xmin = offsets.length ? Math.min(...offsets) : -1;
+  let xmax = offsets.length ? Math.max(...offsets) : 1;
+  if (xmin === xmax) { xmin -= 1; xmax += 1; }
+  const values = spec.series.flatMap(s => s.points.map(p => p.value)).filter(v => isFinite(v)).concat([baseline]);
+  let ymin = Math.min(...values);
+  let ymax = Math.max(...values);
+  if (ymax - ymin < 1e-9) { ymin -= spec.mode === 'car' ? 0.01 : 1; ymax += spec.mode === 'car' ? 0.01 : 1; }
+  const pad = (ymax - ymin) * 0.05;
+  ymin -= pad;
+  ymax += pad;
+  const yStep = niceStep(ymax - ymin, 5);
+  ymin = Math.floor(ymin / yStep) * yStep;
+  ymax = Math.ceil(ymax / yStep) * yStep;
+
+  const sx = (x: number) => left + ((x - xmin) / (xmax - xmin)) * pw;
+  const sy = (y: number) => top + (1 - (y - ymin) / (ymax - ymin)) * ph;
+  const text = (x: number, y: number, t: string, size: number, anchor: Anchor = 'start', fill = '#374151') =>
+    items.push({ kind: 'text', x, y, text: t, size, anchor, fill });
+
+  items.push({ kind: 'rect', x: 0, y: 0, w: width, h: height, fill: '#ffffff', opacity: 1 });
+
+  // event windows: light band + dashed boundaries
+  for (const [a, b] of spec.windows) {
+    items.push({ kind: 'rect', x: sx(a), y: top, w: sx(b) - sx(a), h: ph, fill: '#2563eb', opacity: 0.05 });
+    for (const edge of [a, b]) {
+      items.push({ kind: 'line', points: [[sx(edge), top], [sx(edge), top + ph]], stroke: '#9ca3af', width: 1, dash: [4, 3] });
+    }
+    text((sx(a) + sx(b)) / 2, top + ph - 6, `[${fmtOffset(a)},${fmtOffset(b)}]`, 10, 'middle', '#6b7280');
+  }
+
+  // y grid + labels
+  const yDec = tickDecimals(spec.mode === 'car' ? yStep * 100 : yStep);
+  for (let k = 0, y = ymin; y <= ymax + yStep / 2; k++, y = ymin + k * yStep) {
+    if (Math.abs(y) < yStep * 1e-6) y = 0; // avoid "-0.0%"
+    items.push({ kind: 'line', points: [[left, sy(y)], [left + pw, sy(y)]], stroke: '#e5e7eb', width: 1 });
+    const label = spec.mode === 'car' ? `${(y * 100).toFixed(yDec)}%` : y.toFixed(yDec);
+    text(left - 6, sy(y) + 4, label, 11, 'end');
+  }
+  items.push({ kind: 'line', points: [[left, sy(baseline)], [left + pw, sy(baseline)]], stroke: '#9ca3af', width: 1 });
+
+  // x ticks (integer trading-day offsets)
+  const xStep = Math.max(1, niceStep(xmax - xmin, 10));
+  for (let x = Math.ceil(xmin / xStep) * xStep; x <= xmax; x += xStep) {
+    items.push({ kind: 'line', points: [[sx(x), top + ph], [sx(x), top + ph + 4]], stroke: '#6b7280', width: 1 });
+    text(sx(x), top + ph + 16, fmtOffset(x), 11, 'middle');
+  }
+  text(left + pw / 2, height - 8, 'Trading days relative to Day 0', 11, 'middle');
+  text(left, top - 6, spec.mode === 'car' ? 'CAR (%)' : 'Index (base day = 100)', 11, 'start');
+
+  // Day 0 marker
+  if (xmin <= 0 && xmax >= 0) {
+    items.push({ kind: 'line', points: [[sx(0), top], [sx(0), top + ph]], stroke: '#111827', width: 1.5 });
+    text(sx(0) + 4, top + 12, 'Day 0', 10, 'start', '#111827');
+  }
+
+  items.push({ kind: 'line', points: [[left, top], [left + pw, top], [left + pw, top + ph], [left, top + ph], [left, top]], stroke: '#6b7280', width: 1 });
+
+  for (const s of spec.series) {
+    const pts = s.points.filter(p => isFinite(p.value)).map(p => [sx(p.offset), sy(p.value)] as [number, number]);
+    if (pts.length > 1) items.push({ kind: 'line', points: pts, stroke: s.color, width: 2, dash: s.dashed ? [6, 4] : undefined });
+  }
+
+  // legend (top-right, inside the plot); ~6px per 10px character
+  const legendW = 30 + 6 * Math.max(0, ...spec.series.map(s => s.label.length));
+  const lx = left + pw - legendW - 6;
+  if (spec.series.length) {
+    items.push({ kind: 'rect', x: lx - 6, y: top + 4, w: legendW + 6, h: spec.series.length * 14 + 6, fill: '#ffffff', opacity: 0.85 });
+  }
+  spec.series.forEach((s, k) => {
+    const y = top + 14 + k * 14;
+    const x = lx;
+    items.push({ kind: 'line', points: [[x, y - 4], [x + 18, y - 4]], stroke: s.color, width: 2, dash: s.dashed ? [4, 3] : undefined });
+    text(x + 24, y, s.label, 10, 'start');
+  });
+
+  text(left, 20, spec.title, 15, 'start', '#111827');
+  if (spec.subtitle) text(left, 38, spec.subtitle, 11, 'start', '#6b7280');
+  return { width, height, items };
+}
+
+// ---------------------------------------------------------------------------------------------
+// SVG
+
+const r2 = (n: number) => Math.round(n * 100) / 100;
+
+function escapeXml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+export function renderChartSVG(spec: ChartSpec, width = DEFAULT_CHART_WIDTH, height = DEFAULT_CHART_HEIGHT): string {
+  const scene = buildScene(spec, width, height);
+  const body = scene.items.map(it => {
+    if (it.kind === 'rect') {
+      return `<rect x="${r2(it.x)}" y="${r2(it.y)}" width="${r2(it.w)}" height="${r2(it.h)}" fill="${it.fill}"${it.opacity < 1 ? ` fill-opacity="${it.opacity}"` : ''}/>`;
+    }
+    if (it.kind === 'line') {
+      const pts = it.points.map(([x, y]) => `${r2(x)},${r2(y)}`).join(' ');
+      return `<polyline points="${pts}" fill="none" stroke="${it.stroke}" stroke-width="${it.width}"${it.dash ? ` stroke-dasharray="${it.dash.join(' ')}"` : ''} stroke-linejoin="round"/>`;
+    }
+    return `<text x="${r2(it.x)}" y="${r2(it.y)}" font-size="${it.size}" text-anchor="${it.anchor}" fill="${it.fill}">${escapeXml(it.text)}</text>`;
+  });
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="Helvetica, Arial, sans-serif">`,
+    ...body,
+    '</svg>',
+  ].join('\n');
+}
+
+// ---------------------------------------------------------------------------------------------
+// PNG
+
+// 5×7 glyphs, one hex byte per row (bit 4 = leftmost column); text is upper-cased before lookup
+const FONT: Record<string, string> = {
+  '0': '0e11131519110e', '1': '040c040404040e', '2': '0e11010204081f', '3': '1f02040201110e',
+  '4': '02060a121f0202', '5': '1f101e0101110e', '6': '0608101e11110e', '7': '1f010204080808',
+  '8': '0e11110e11110e', '9': '0e11110f01020c',
+  A: '0e1111111f1111', B: '1e11111e11111e', C: '0e11101010110e', D: '1c12111111121c',
+  E: '1f10101e10101f', F: '1f10101e101010', G: '0e11101711110f', H: '1111111f111111',
+  I: '0e04040404040e', J: '0702020202120c', K: '11121418141211', L: '1010101010101f',
+  M: '111b1515111111', N: '11111915131111', O: '0e11111111110e', P: '1e11111e101010',
+  Q: '0e11111115120d', R: '1e11111e141211', S: '0f10100e01011e', T: '1f040404040404',
+  U: '1111111111110e', V: '11111111110a04', W: '1111111515150a', X: '11110a040a1111',
+  Y: '1111110a040404', Z: '1f01020408101f',
+  ' ': '00000000000000', '-': '0000001f000000', '+': '0004041f040400', '.': '00000000000c0c',
+  ',': '000000000c0408', '%': '18190204081303', '[': '0e08080808080e', ']': '0e02020202020e',
+  '(': '02040808080402', ')': '08040202020408', ':': '000c0c000c0c00', '/': '00010204081000',
+  '=': '00001f001f0000', ';': '000c0c000c0408', '_': '0000000000001f',
+};
+
+type Raster = { width: number; height: number; data: Uint8Array };
+
+function parseColor(hex: string): [number, number, number] {
+  const n = parseInt(hex.slice(1), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+}
+
+function blend(r: Raster, x: number, y: number, c: [number, number, number], a: number) {
+  if (x < 0 || y < 0 || x >= r.width || y >= r.height || a <= 0) return;
+  const i = (y * r.width + x) * 4;
+  const k = Math.min(1, a);
+  r.data[i] = Math.round(r.data[i] * (1 - k) + c[0] * k);
+  r.data[i + 1] = Math.round(r.data[i + 1] * (1 - k) + c[1] * k);
+  r.data[i + 2] = Math.round(r.data[i + 2] * (1 - k) + c[2] * k);
+  r.data[i + 3] = 255;
+}
+
+function fillRect(r: Raster, x: number, y: number, w: number, h: number, c: [number, number, number], a: number) {
+  for (let py = Math.max(0, Math.round(y)); py < Math.min(r.height, Math.round(y + h)); py++) {
+    for (let px = Math.max(0, Math.round(x)); px < Math.min(r.width, Math.round(x + w)); px++) blend(r, px, py, c, a);
+  }
+}
+
+// Thick anti-aliased polyline: per-pixel coverage from the distance to the nearest drawn piece
+function strokePolyline(r: Raster, pts: Array<[number, number]>, c: [number, number, number], width: number, dash?: [number, number]) {
+  const half = width / 2;
+  // split into drawn pieces honouring the dash pattern
+  const pieces: Array<[number, number, number, number]> = [];
+  let along = 0;
+  for (let s = 0; s + 1 < pts.length; s++) {
+    const [x0, y0] = pts[s];
+    const [x1, y1] = pts[s + 1];
+    const len = Math.hypot(x1 - x0, y1 - y0);
+    if (len === 0) continue;
+    if (!dash) { pieces.push([x0, y0, x1, y1]); continue; }
+    const period = dash[0] + dash[1];
+    let t = 0;
+    while (t < len) {
+      const phase = (along + t) % period;
+      const step = phase < dash[0] ? Math.min(dash[0] - phase, len - t) : Math.min(period - phase, len - t);
+      if (phase < dash[0]) {
+        pieces.push([x0 + ((x1 - x0) * t) / len, y0 + ((y1 - y0) * t) / len, x0 + ((x1 - x0) * (t + step)) / len, y0 + ((y1 - y0) * (t + step)) / len]);
+      }
+      t += step;
+    }
+    along += len;
+  }
+  // coverage is kept per pixel so overlapping pieces (joints, dashes) don't darken twice
+  const cover = new Float32Array(r.width * r.height);
+  let bx0 = r.width, by0 = r.height, bx1 = -1, by1 = -1;
+  for (const [x0, y0, x1, y1] of pieces) {
+    const minX = Math.max(0, Math.floor(Math.min(x0, x1) - half - 1));
+    const maxX = Math.min(r.width - 1, Math.ceil(Math.max(x0, x1) + half + 1));
+    const minY = Math.max(0, Math.floor(Math.min(y0, y1) - half - 1));
+    const maxY = Math.min(r.height - 1, Math.ceil(Math.max(y0, y1) + half + 1));
+    bx0 = Math.min(bx0, minX); by0 = Math.min(by0, minY); bx1 = Math.max(bx1, maxX); by1 = Math.max(by1, maxY);
+    const dx = x1 - x0, dy = y1 - y0;
+    const l2 = dx * dx + dy * dy;
+    for (let py = minY; py <= maxY; py++) {
+      for (let px = minX; px <= maxX; px++) {
+        const cx = px + 0.5, cy = py + 0.5;
+        const t = l2 === 0 ? 0 : Math.max(0, Math.min(1, ((cx - x0) * dx + (cy - y0) * dy) / l2));
+        const d = Math.hypot(cx - (x0 + t * dx), cy - (y0 + t * dy));
+        const a = Math.max(0, Math.min(1, half + 0.5 - d));
+        const i = py * r.width + px;
+        if (a > cover[i]) cover[i] = a;
+      }
+    }
+  }
+  for (let py = by0; py <= by1; py++) {
+    for (let px = bx0; px <= bx1; px++) blend(r, px, py, c, cover[py * r.width + px]);
+  }
+}
+
+function drawText(r: Raster, x: number, y: number, s: string, size: number, anchor: Anchor, c: [number, number, number]) {
+  const scale = size >= 14 ? 2 : 1;
+  const chars = s.toUpperCase().split('');
+  const w = chars.length * 6 * scale - scale;
+  let cx = Math.round(anchor === 'middle' ? x - w / 2 : anchor === 'end' ? x - w : x);
+  const top = Math.round(y - 7 * scale);
+  for (const ch of chars) {
+    const glyph = FONT[ch];
+    if (glyph) {
+      for (let row = 0; row < 7; row++) {
+        const bits = parseInt(glyph.slice(row * 2, row * 2 + 2), 16);
+        for (let col = 0; col < 5; col++) {
+          if (bits & (0x10 >> col)) fillRect(r, cx + col * scale, top + row * scale, scale, scale, c, 1);
+        }
+      }
+    }
+    cx += 6 * scale;
+  }
+}
+
+const CRC_TABLE = (() => {
+  const t = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    t[n] = c >>> 0;
+  }
+  return t;
+})();
+
+function crc32(buf: Uint8Array): number {
+  let c = 0xffffffff;
+  for (let i = 0; i < buf.length; i++) c = CRC_TABLE[(c ^ buf[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const len = Buffer.alloc(4);
+  len.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([len, body, crc]);
+}
+
+function encodePNG(r: Raster): Buffer {
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(r.width, 0);
+  ihdr.writeUInt32BE(r.height, 4);
+  ihdr[8] = 8;  // bit depth
+  ihdr[9] = 6;  // RGBA
+  // compression, filter, interlace = 0
+  const stride = r.width * 4;
+  const raw = Buffer.alloc((stride + 1) * r.height);
+  for (let y = 0; y < r.height; y++) {
+    raw[y * (stride + 1)] = 0; // filter: none
+    raw.set(r.data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', ihdr),
+    pngChunk('IDAT', deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+export function renderChartPNG(spec: ChartSpec, width = DEFAULT_CHART_WIDTH, height = DEFAULT_CHART_HEIGHT): Buffer {
+  const scene = buildScene(spec, width, height);
+  const raster: Raster = { width, height, data: new Uint8Array(width * height * 4) };
+  for (const it of scene.items) {
+    if (it.kind === 'rect') fillRect(raster, it.x, it.y, it.w, it.h, parseColor(it.fill), it.opacity);
+    else if (it.kind === 'line') strokePolyline(raster, it.points, parseColor(it.stroke), it.width, it.dash);
+    else drawText(raster, it.x, it.y, it.text, it.size, it.anchor, parseColor(it.fill));
+  }
+  return encodePNG(raster);
+}
@@ -0,0 +1,102 @@
+// lib/core/compare.ts
+// Peer comparison (/api/analyze/compare): analyze segments of several tickers lined up by reporting
+// cycle. Each event's fiscal quarter (EDGAR fiscal year end) is mapped to the calendar quarter holding
+// most of it, so MSFT FY Q3 (Jan–Mar), GOOGL Q1 and NVDA Q1 (Feb–Apr) share one row.
+
+import type { AnalysisSegment } from './schema';
+import { fiscalQuarterEndMonth, fiscalQuarterOf } from './profile';
+
+export const COMPARE_DECIMALS = 4;
+
+export type CompareInput = {
+  ticker: string;
+  fiscalYearEnd: string | null;   // EDGAR MMDD, null → December
+  segments: AnalysisSegment[];
+};
+
+export type CompareCell = {
+  date: string;
+  fiscal: string;                 // "FY2024 Q3"
+  eps_yoy: number | null;
+  rev_yoy: number | null;
+  car: number;
+  car_tstat: number | null;
+};
+
+export type CompareDiff = { eps_yoy: number | null; rev_yoy: number | null; car: number };
+
+export type CompareRow = {
+  period: string;                 // "CY2024 Q1"
+  complete: boolean;              // every ticker reported in this cycle
+  tickers: Record<string, CompareCell | null>;
+  diff: Record<string, CompareDiff | null>; // "<ticker>_minus_<base>", base = first ticker
+};
+
+const round = (x: number) => Number(x.toFixed(COMPARE_DECIMALS));
+const roundOrNull = (x: number | null | undefined) => (typeof x === 'number' && isFinite(x) ? round(x) : null);
+
+/**
+ * Calendar quarter of a fiscal quarter ending in `month`: the quarter of its middle month,
+ * i.e. the one covering two of its three months.
+ */
+export function calendarQuarterLabel(end: { year: number; month: number }): string {
+  const year = end.month === 1 ? end.year - 1 : end.year;
+  const middle = end.month === 1 ? 12 : end.month - 1;
+  return `CY${year} Q${Math.ceil(middle / 3)}`;
+}
+
+export function diffKey(ticker: string, base: string): string {
+  return `${ticker}_minus_${base}`;
+}
+
+/**
+ * One row per calendar quarter in which any ticker reported (ascending). A ticker with two events in
+ * the same cycle keeps the earlier one; the others are counted in `duplicates`.
+ */
+export function compareByPeriod(inputs: CompareInput[], window: string): { rows: CompareRow[]; duplicates: number } {
+  const byTicker = new Map<string, Map<string, CompareCell>>();
+  let duplicates = 0;
+  for (const { ticker, fiscalYearEnd, segments } of inputs) {
+    const cells = new Map<string, CompareCell>();
+    const segs = segments
+      .filter(s => s.price_reaction.window === window && isFinite(s.price_reaction.car))
+      .sort((a, b) => a.earnings.date.localeCompare(b.earnings.date));
+    for (const s of segs) {
+      const period = calendarQuarterLabel(fiscalQuarterEndMonth(s.earnings.date, fiscalYearEnd));
+      if (cells.has(period)) {
+        duplicates++;
+        continue;
+      }
+      const fq = fiscalQuarterOf(s.earnings.date, fiscalYearEnd);
+      cells.set(period, {
+        date: s.earnings.date,
+        fiscal: `FY${fq.fiscal_year} Q${fq.fiscal_quarter}`,
+        eps_yoy: roundOrNull(s.earnings.eps_yoy),
+        rev_yoy: roundOrNull(s.earnings.rev_yoy),
+        car: round(s.price_reaction.car),
+        car_tstat: roundOrNull(s.price_reaction.car_tstat),
+      });
+    }
+    byTicker.set(ticker, cells);
+  }
+
+  const tickers = inputs.map(i => i.ticker);
+  const base = tickers[0];
+  const periods = Array.from(new Set(Array.from(byTicker.values()).flatMap(m => Array.from(m.keys())))).sort();
+  const sub = (a: number | null, b: number | null) => (a === null || b === null ? null : round(a - b));
+
+  const rows = periods.map(period => {
+    const cells: Record<string, CompareCell | null> = {};
+    for (const t of tickers) cells[t] = byTicker.get(t)!.get(period) ?? null;
+    const diff: Record<string, CompareDiff | null> = {};
+    for (const t of tickers.slice(1)) {
+      const a = cells[t];
+      const b = cells[base];
+      diff[diffKey(t, base)] = a && b
+        ? { eps_yoy: sub(a.eps_yoy, b.eps_yoy), rev_yoy: sub(a.rev_yoy, b.rev_yoy), car: round(a.car - b.car) }
+        : null;
+    }
+    return { period, complete: tickers.every(t => cells[t] !== null), tickers: cells, diff };
+  });
+  return { rows, duplicates };
+}
@@ -0,0 +1,25 @@
+// lib/core/concurrency.ts
+// Bounded-concurrency map: at most `limit` workers in flight, results kept in input order.
+
+// Tickers run in parallel by multi-ticker routes (batch default, aggregate, ERC, ...)
+export const DEFAULT_PIPELINE_CONCURRENCY = parseInt(process.env.ANALYZE_BATCH_CONCURRENCY || '3', 10) || 3;
+
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  const workers = Math.max(1, Math.min(limit, items.length));
+  let next = 0;
+
+  async function worker(): Promise<void> {
+    while (next < items.length) {
+      const idx = next++;
+      results[idx] = await fn(items[idx], idx);
+    }
+  }
+
+  await Promise.all(Array.from({ length: workers }, () => worker()));
+  return results;
+}
@@ -0,0 +1,71 @@
+// lib/core/confounding.ts
+// Confounding-event detection: other material 8-Ks (M&A, restructuring, exec changes, …) filed inside
+// a segment's CAR window, and how aggregates treat confounded segments.
+
+export type ConfoundPolicy = 'keep' | 'drop' | 'downweight';
+
+export const CONFOUND_POLICIES: ConfoundPolicy[] = ['keep', 'drop', 'downweight'];
+
+// 8-K event types (sec-edgar itemToEventType) that move prices on their own.
+// earnings / reg_fd / other_event / governance_shareholder are routine around an earnings release.
+export const CONFOUNDING_EVENT_TYPES = [
+  'mna',
+  'agreement',
+  'bankruptcy',
+  'restructuring',
+  'governance_exec',
+  'listing',
+  'securities',
+];
+
+// CAAR weight of a confounded segment under policy=downweight
+export const CONFOUNDED_WEIGHT = 0.5;
+
+// Structural subset of NormalizedSECFiling
+export type FilingLike = {
+  form: string;
+  filed_at: string;
+  event_date: string | null;
+  items: string[];
+  event_types: string[];
+  urls: { index: string; primary: string };
+};
+
+export type ConfoundingFiling = {
+  form: string;
+  items: string[];
+  event_types: string[];  // confounding types only
+  date: string;           // event_date, else filing date (YYYY-MM-DD)
+  url: string;
+};
+
+export function parseConfoundPolicy(raw: string | null | undefined): ConfoundPolicy {
+  if (raw == null || raw.trim() === '') return 'keep';
+  const p = raw.trim().toLowerCase();
+  if (!(CONFOUND_POLICIES as string[]).includes(p)) throw new Error('ERR_INVALID_CONFOUND');
+  return p as ConfoundPolicy;
+}
+
+/**
+ * 8-K / 8-K/A filings dated within [start, end] (inclusive, YYYY-MM-DD) carrying a confounding event type.
+ */
+export function findConfoundingFilings(filings: FilingLike[], period: { start: string; end: string }): ConfoundingFiling[] {
+  const out: ConfoundingFiling[] = [];
+  for (const f of filings) {
+    if (f.form !== '8-K' && f.form !== '8-K/A') continue;
+    const date = f.event_date || (f.filed_at ? f.filed_at.slice(0, 10) : '');
+    if (!date || date < period.start || date > period.end) continue;
+    const types = f.event_types.filter(t => CONFOUNDING_EVENT_TYPES.includes(t));
+    if (types.length === 0) continue;
+    out.push({ form: f.form, items: f.items, event_types: types, date, url: f.urls.primary || f.urls.index });
+  }
+  return out.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * CAAR weight for a segment under the policy; null means the segment is dropped.
+ */
+export function confoundWeight(policy: ConfoundPolicy, confounded: boolean | undefined): number | null {
+  if (!confounded || policy === 'keep') return 1;
+  return policy === 'drop' ? null : CONFOUNDED_WEIGHT;
+}
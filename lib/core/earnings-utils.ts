@@ -24,6 +24,8 @@ export function mergeEarningsRecords(
       when: (rec as any).when ?? (existing as any).when ?? 'unknown',
       eps: rec.eps !== null && rec.eps !== undefined ? rec.eps : existing.eps ?? null,
       revenue: rec.revenue !== null && rec.revenue !== undefined ? rec.revenue : existing.revenue ?? null,
+      epsEstimate: rec.epsEstimate ?? existing.epsEstimate ?? null,
+      revenueEstimate: rec.revenueEstimate ?? existing.revenueEstimate ?? null,
     } as EarningsRow);
   }
 
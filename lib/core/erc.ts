@@ -0,0 +1,58 @@
+// lib/core/erc.ts
+// Earnings response coefficient: CAR_i = a + b · surprise_i + e_i, with HC1 robust standard errors.
+
+import { olsFit, hc1StdErrors } from '@/lib/core/regression';
+import { twoSidedP } from '@/lib/core/caar';
+
+export type SurpriseMeasure = 'sue_price' | 'sue_sd' | 'eps_surprise_pct' | 'rev_surprise_pct';
+
+export const SURPRISE_MEASURES: SurpriseMeasure[] = ['sue_price', 'sue_sd', 'eps_surprise_pct', 'rev_surprise_pct'];
+
+export type ERCPoint = {
+  ticker: string;
+  event_date: string;
+  surprise: number;
+  car: number;
+  expectation_model?: string | null;
+};
+
+export type ERCResult = {
+  n: number;
+  coefficient: number;
+  intercept: number;
+  se_hc1: number;
+  t_stat: number;
+  p_value: number;
+  r2: number;
+};
+
+export const ERC_MIN_POINTS = 5;
+
+export function parseSurpriseMeasure(raw: string | null | undefined): SurpriseMeasure {
+  if (raw == null || raw === '') return 'sue_price';
+  const m = raw.trim().toLowerCase();
+  if ((SURPRISE_MEASURES as string[]).includes(m)) return m as SurpriseMeasure;
+  throw new Error('ERR_INVALID_SURPRISE');
+}
+
+/**
+ * OLS of CAR on surprise. Returns null below ERC_MIN_POINTS or when the surprise has no variation.
+ */
+export function ercRegression(points: ERCPoint[]): ERCResult | null {
+  if (points.length < ERC_MIN_POINTS) return null;
+  const X = points.map(p => [1, p.surprise]);
+  const y = points.map(p => p.car);
+  const fit = olsFit(X, y);
+  if (!fit) return null;
+  const se = hc1StdErrors(fit, X);
+  const t = se[1] > 0 ? fit.coef[1] / se[1] : NaN;
+  return {
+    n: fit.n,
+    coefficient: fit.coef[1],
+    intercept: fit.coef[0],
+    se_hc1: se[1],
+    t_stat: t,
+    p_value: isFinite(t) ? twoSidedP(t) : NaN,
+    r2: fit.r2,
+  };
+}
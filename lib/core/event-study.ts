@@ -0,0 +1,407 @@
+// lib/core/event-study.ts
+// /api/event-study and /api/analyze?events=8k:…: the analyze machinery (benchmark → alignPriceData →
+// resolveDay0 → per-window reaction) run on caller-supplied dates or selected 8-K filings instead of
+// detected earnings breakpoints. Each event yields the same segments as /api/analyze.
+
+import { AnalysisResponse, AnalysisSegment, BatchTickerError, PriceData } from '@/lib/core/schema';
+import { fetchAdjPrices } from '@/lib/external/yahoo-finance';
+import { fetchAllSECReports, NormalizedSECFiling } from '@/lib/external/sec-edgar';
+import { shouldUseFinnhubPrices } from '@/lib/external/finnhub';
+import { resolveDay0, getTradingDates, getLastResolveDay0Meta } from '@/lib/core/calendar';
+import { alignPriceData } from '@/lib/core/car';
+import { buildLabelWithWindow } from '@/lib/core/labels';
+import { buildSourceUrls } from '@/lib/core/source-urls';
+import { DEFAULT_PIPELINE_CONCURRENCY, mapWithConcurrency } from '@/lib/core/concurrency';
+import { tickerErrorCode } from '@/lib/core/api-route';
+import { EventWindow, EstimationSettings } from '@/lib/core/windows';
+import { BenchmarkSpec, formatBenchLabel } from '@/lib/core/benchmarks';
+import { BetaMethod } from '@/lib/core/beta';
+import { ExpectedReturnModel, FactorSeries } from '@/lib/core/factors';
+import { SignificanceSettings } from '@/lib/core/significance';
+import { TimingInference } from '@/lib/core/timing';
+import { EventWhen, UserEvent, eventPriceRange, groupEventsByTicker } from '@/lib/core/events';
+import { EventFilingRef, FilingEventSelector, filingEvents, formatEventSelector } from '@/lib/core/filing-events';
+import { MacroStudyEvent, macroStudyEvents } from '@/lib/core/macro';
+import { MACRO_CALENDAR, MacroEventType, getMacroEvents } from '@/lib/data/macro-events';
+import {
+  AnalyzeOutcome,
+  EventContext,
+  EventSample,
+  ResolvedBenchmark,
+  WhenSource,
+  buildEstimationFilter,
+  computeEventGapSplit,
+  computeExtendedFrom,
+  computeWindowReaction,
+  flagWindowOverlaps,
+  inferDay0Session,
+  loadModelFactors,
+  resolveBenchmark,
+  resolveProviderTicker,
+} from '@/lib/core/analyze-pipeline';
+
+export type EventStudyOptions = {
+  events: UserEvent[];
+  bench: BenchmarkSpec;
+  windows: EventWindow[];
+  estimation: EstimationSettings;
+  model?: ExpectedReturnModel;
+  betaMethod?: BetaMethod;
+  significance?: SignificanceSettings | null;
+  includePath?: boolean;
+  noCache?: boolean;
+  concurrency?: number;
+};
+
+export type EventStudyTickerResult =
+  | { ticker: string; ok: true; segments: AnalysisSegment[]; notes: string[] }
+  | { ticker: string; ok: false; error: BatchTickerError };
+
+export type EventStudyOutcome =
+  | { ok: true; results: EventStudyTickerResult[]; samples: EventSample[]; bench: string }
+  | { ok: false; status: number; error: string; message: string };
+
+export type MacroEventOptions = Omit<EventStudyOptions, 'events' | 'concurrency'> & {
+  ticker: string;
+  from: string;
+  to: string;
+  types: MacroEventType[];
+};
+
+export type MacroEventOutcome =
+  | { ok: true; data: AnalysisResponse; samples: EventSample[]; events: MacroStudyEvent[] }
+  | { ok: false; status: number; error: string; message: string };
+
+export type FilingEventOptions = Omit<EventStudyOptions, 'events' | 'concurrency'> & {
+  ticker: string;
+  from: string;
+  to: string;
+  selectors: FilingEventSelector[];
+  resolvedBench?: ResolvedBenchmark;
+};
+
+// when_source preset for filing events (acceptance timestamp); user events derive it from `when`
+type TickerEvent = {
+  date: string;
+  when: EventWhen;
+  label?: string;
+  whenSource?: WhenSource;
+  filings?: EventFilingRef[];
+};
+
+type TickerRun = {
+  ticker: string;
+  events: TickerEvent[];
+  opts: Omit<EventStudyOptions, 'events'>;
+  factors: FactorSeries | null;
+  sharedBench?: ResolvedBenchmark;
+  range?: { from: string; to: string };            // default: eventPriceRange over the events
+  filings8K?: NormalizedSECFiling[] | null;        // prefetched 8-Ks (null = lookup failed)
+  estimationEventDates?: string[];                 // dates excluded from estimation (default: the events)
+};
+
+async function runTickerEvents(run: TickerRun): Promise<{ result: EventStudyTickerResult; samples: EventSample[] }> {
+  const { ticker, events, opts, factors } = run;
+  const { windows, estimation } = opts;
+  const model = opts.model || 'market';
+  const betaMethod = opts.betaMethod || 'ols';
+  const noCache = opts.noCache === true;
+  const priceProviderLabel = shouldUseFinnhubPrices() ? 'finnhub' : 'yahoo';
+
+  const range = run.range ?? eventPriceRange(events.map(e => ({ ...e, ticker })), Math.max(0, ...windows.map(w => w.window[1])));
+  const extendedFrom = computeExtendedFrom(range.from, windows, estimation);
+  const providerTicker = await resolveProviderTicker(ticker, range.from, range.to);
+
+  const [prices, resolvedBench] = await Promise.all([
+    fetchAdjPrices(providerTicker, extendedFrom, range.to, { noCache }).catch((err): PriceData[] => {
+      console.error(`[EventStudy] ${ticker} prices error:`, err);
+      throw new Error('ERR_NO_PRICES');
+    }),
+    run.sharedBench ? Promise.resolve(run.sharedBench) : resolveBenchmark(opts.bench, ticker, extendedFrom, range.to, noCache),
+  ]);
+  if (prices.length === 0) {
+    return { result: { ticker, ok: false, error: { code: 'ERR_NO_PRICES', status: 404, message: 'No price data available for the event dates' } }, samples: [] };
+  }
+
+  const { prices: alignedPrices, bench: alignedBench } = alignPriceData(prices, resolvedBench.prices);
+  const tradingDates = getTradingDates(alignedPrices);
+  const notesFlags = new Set<string>();
+
+  // 8-K 공시: 추정창 오염 제거 + 윈도우 내 교란 이벤트 탐지 (실패 시 둘 다 생략)
+  let filings8K: NormalizedSECFiling[] | null = null;
+  if (run.filings8K !== undefined) {
+    filings8K = run.filings8K;
+  } else {
+    try {
+      filings8K = (await fetchAllSECReports(ticker, extendedFrom, range.to)).filter(f => f.form === '8-K' || f.form === '8-K/A');
+    } catch (e) {
+      console.warn(`[EventStudy] 8-K lookup skipped for ${ticker}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  if (filings8K === null) notesFlags.add('sec_8k_unavailable');
+
+  const ctx: EventContext = {
+    ticker,
+    prices: alignedPrices,
+    bench: alignedBench,
+    tradingDates,
+    windows,
+    estimation,
+    model,
+    factors,
+    betaMethod,
+    significance: opts.significance,
+    includePath: opts.includePath,
+    filings8K,
+    // 같은 티커의 다른 사용자 이벤트도 추정창에서 제외
+    estimationFilterFor: buildEstimationFilter(tradingDates, run.estimationEventDates ?? events.map(e => e.date), filings8K, estimation),
+  };
+
+  const segments: AnalysisSegment[] = [];
+  const samples: EventSample[] = [];
+  const unresolved: string[] = [];
+  const timingCounts = new Map<string, number>();
+
+  for (const ev of events) {
+    let whenSource: WhenSource = ev.whenSource ?? (ev.when === 'unknown' ? 'default' : 'user');
+    let day0When: string = ev.when;
+    let timingInference: TimingInference | null = null;
+    if (whenSource === 'default') {
+      timingInference = inferDay0Session(ctx, ev.date);
+      if (timingInference) {
+        whenSource = 'price_reaction';
+        day0When = timingInference.session === 'announcement_day' ? 'bmo' : 'amc';
+      }
+    }
+
+    const day0Idx = resolveDay0(ev.date, day0When, tradingDates);
+    const day0Meta = getLastResolveDay0Meta();
+    if (day0Meta?.fallbackUsed) notesFlags.add('day0_fallback');
+    if (day0Meta?.earlyClose) notesFlags.add('day0_early_close');
+    if (day0Meta?.calendarMismatch) notesFlags.add('day0_calendar_mismatch');
+    if (day0Idx === null) {
+      unresolved.push(ev.date);
+      continue;
+    }
+    timingCounts.set(whenSource, (timingCounts.get(whenSource) ?? 0) + 1);
+    const ownAccessions = ev.filings ? new Set(ev.filings.map(f => f.accession)) : undefined;
+    const gapSplit = computeEventGapSplit(ctx, day0Idx);
+
+    for (const eventWindow of windows) {
+      try {
+        const reaction = computeWindowReaction(ctx, day0Idx, eventWindow, ev.date, notesFlags, gapSplit, ownAccessions);
+        const label = ev.label ? `${ev.date} ${ev.label}` : ev.date;
+        segments.push({
+          label,
+          label_with_window: `${buildLabelWithWindow(ev.date, undefined, undefined, eventWindow.label, reaction.price_reaction.car)}${ev.label ? ` • ${ev.label}` : ''}`,
+          earnings: {
+            date: ev.date,
+            when: ev.when,
+            when_source: whenSource,
+            timing_inference: timingInference ?? undefined,
+            eps: null,
+            eps_yoy: null,
+            rev_yoy: null,
+          },
+          period: reaction.period,
+          day0: tradingDates[day0Idx],
+          price_reaction: reaction.price_reaction,
+          volume: reaction.volume,
+          confounded: reaction.confounded,
+          confounding_filings: reaction.confounding_filings,
+          event_filings: ev.filings,
+          source_urls: buildSourceUrls(ticker, resolvedBench.tickers, range.from, range.to, priceProviderLabel),
+        });
+        if (reaction.sample) {
+          samples.push({ ...reaction.sample, timing_inferred: whenSource === 'price_reaction' ? true : undefined });
+        }
+      } catch (error) {
+        console.warn(`[EventStudy] CAR failed for ${ticker} ${ev.date} ${eventWindow.label}:`, error);
+      }
+    }
+  }
+
+  flagWindowOverlaps(segments);
+
+  const notes = [
+    `bench=${resolvedBench.label}`,
+    `bench_reason=${resolvedBench.reason}`,
+    ...(resolvedBench.sector_etf_history_short ? ['sector_etf_history_short'] : []),
+    `price_range=${range.from}..${range.to}`,
+    `price_provider=${priceProviderLabel}`,
+    ...(timingCounts.size ? [`timing_sources=${Array.from(timingCounts).sort().map(([k, v]) => `${k}:${v}`).join(',')}`] : []),
+    ...(unresolved.length ? [`day0_unresolved=${unresolved.join(',')}`] : []),
+    ...Array.from(notesFlags),
+  ];
+  return { result: { ticker, ok: true, segments, notes }, samples };
+}
+
+export async function runEventStudy(opts: EventStudyOptions): Promise<EventStudyOutcome> {
+  const loaded = await loadModelFactors(opts.model || 'market');
+  if (!loaded.ok) return loaded;
+
+  const byTicker = groupEventsByTicker(opts.events);
+  const tickers = Array.from(byTicker.keys());
+
+  // 고정 벤치마크(티커/바스켓)는 전체 이벤트 구간으로 한 번만 다운로드; bench=auto는 티커별로 선택
+  let sharedBench: ResolvedBenchmark | undefined;
+  if (opts.bench.kind !== 'auto') {
+    const range = eventPriceRange(opts.events, Math.max(0, ...opts.windows.map(w => w.window[1])));
+    try {
+      sharedBench = await resolveBenchmark(opts.bench, tickers[0], computeExtendedFrom(range.from, opts.windows, opts.estimation), range.to, opts.noCache === true);
+    } catch (err) {
+      console.error('[EventStudy] Bench API error:', err);
+      return { ok: false, status: 422, error: 'ERR_NO_BENCH', message: 'Benchmark prices are unavailable' };
+    }
+  }
+
+  const runs = await mapWithConcurrency(tickers, opts.concurrency ?? DEFAULT_PIPELINE_CONCURRENCY, async (ticker) => {
+    try {
+      return await runTickerEvents({ ticker, events: byTicker.get(ticker)!, opts, factors: loaded.factors, sharedBench });
+    } catch (error) {
+      console.warn(`[EventStudy] ${ticker} failed:`, error);
+      const code = tickerErrorCode(error);
+      const result: EventStudyTickerResult = { ticker, ok: false, error: { code, status: code === 'ERR_INTERNAL' ? 500 : 422 } };
+      return { result, samples: [] as EventSample[] };
+    }
+  });
+
+  return {
+    ok: true,
+    results: runs.map(r => r.result),
+    samples: runs.flatMap(r => r.samples),
+    bench: sharedBench ? sharedBench.label : 'auto',
+  };
+}
+
+/**
+ * /api/analyze?events=8k:…: the ticker's original 8-Ks matching the selectors become events (Day0 from
+ * EDGAR acceptanceDateTime, else event_date with price-reaction timing). Same outcome shape as
+ * runAnalyzePipeline.
+ */
+export async function runFilingEventPipeline(opts: FilingEventOptions): Promise<AnalyzeOutcome> {
+  const { ticker, from, to, windows, estimation, selectors } = opts;
+  const model = opts.model || 'market';
+  const loaded = await loadModelFactors(model);
+  if (!loaded.ok) return loaded;
+
+  const extendedFrom = computeExtendedFrom(from, windows, estimation);
+  let filings8K: NormalizedSECFiling[];
+  try {
+    filings8K = (await fetchAllSECReports(ticker, extendedFrom, to)).filter(f => f.form === '8-K' || f.form === '8-K/A');
+  } catch (error) {
+    console.error(`[FilingEvents] SEC lookup failed for ${ticker}:`, error);
+    return { ok: false, status: 503, error: 'ERR_SOURCE_UNAVAILABLE', message: 'SEC EDGAR filings are unavailable' };
+  }
+
+  const events = filingEvents(filings8K, selectors, { from, to });
+  const notesBase = [
+    `events=${selectors.map(formatEventSelector).join(',')}`,
+    'day0=acceptance_timestamp_else_event_date',
+    `estimation=${estimation.length}d; gap=${estimation.gap}d`,
+    `estimation_exclude_events=${estimation.excludeEvents ? 'on' : 'off'}${estimation.winsorize > 0 ? `; winsorize=${estimation.winsorize}` : ''}`,
+    `model=${model}`,
+  ];
+  if (events.length === 0) {
+    return {
+      ok: true,
+      data: {
+        ticker,
+        as_of: new Date().toISOString().split('T')[0],
+        segments: [],
+        notes: [
+          'No matching 8-K filings in the specified period',
+          `bench=${opts.bench.kind === 'auto' ? 'auto' : formatBenchLabel(opts.bench)}`,
+          ...notesBase,
+        ],
+      },
+      samples: [],
+    };
+  }
+
+  const { result, samples } = await runTickerEvents({
+    ticker,
+    events: events.map(ev => ({
+      date: ev.date,
+      when: ev.when,
+      label: ev.filings.map(f => `8-K ${f.items.join('/')}`).join(', '),
+      whenSource: ev.when_source ?? undefined,
+      filings: ev.filings,
+    })),
+    opts: { ...opts, model },
+    factors: loaded.factors,
+    sharedBench: opts.resolvedBench,
+    range: { from, to },
+    filings8K,
+  });
+  if (!result.ok) {
+    return { ok: false, status: result.error.status, error: result.error.code, message: result.error.message ?? '' };
+  }
+  return {
+    ok: true,
+    data: {
+      ticker,
+      as_of: new Date().toISOString().split('T')[0],
+      segments: result.segments,
+      notes: [...notesBase, ...result.notes],
+    },
+    samples,
+  };
+}
+
+/**
+ * /api/analyze/macro: FOMC / CPI / jobs-report release dates from the bundled calendar as events for
+ * one ticker. Day0 follows the release time; releases are not dropped from estimation (they recur
+ * every few weeks and would consume most of the window).
+ */
+export async function runMacroEventStudy(opts: MacroEventOptions): Promise<MacroEventOutcome> {
+  const { ticker, from, to, types } = opts;
+  const model = opts.model || 'market';
+  const loaded = await loadModelFactors(model);
+  if (!loaded.ok) return loaded;
+
+  const events = macroStudyEvents(getMacroEvents(types, from, to));
+  const notesBase = [
+    `macro_calendar=${MACRO_CALENDAR.version}; coverage=${MACRO_CALENDAR.coverage.from}..${MACRO_CALENDAR.coverage.to}`,
+    `macro_types=${types.join(',')}`,
+    `estimation=${opts.estimation.length}d; gap=${opts.estimation.gap}d`,
+    `estimation_exclude_events=${opts.estimation.excludeEvents ? '8k_only' : 'off'}`,
+    `model=${model}`,
+  ];
+  if (events.length === 0) {
+    return {
+      ok: true,
+      data: {
+        ticker,
+        as_of: new Date().toISOString().split('T')[0],
+        segments: [],
+        notes: ['No macro events in the specified period', ...notesBase],
+      },
+      samples: [],
+      events,
+    };
+  }
+
+  const { result, samples } = await runTickerEvents({
+    ticker,
+    events: events.map(ev => ({ date: ev.date, when: ev.when, label: ev.label, whenSource: 'macro_calendar' as const })),
+    opts: { ...opts, model },
+    factors: loaded.factors,
+    range: { from, to },
+    estimationEventDates: [],
+  });
+  if (!result.ok) {
+    return { ok: false, status: result.error.status, error: result.error.code, message: result.error.message ?? '' };
+  }
+  return {
+    ok: true,
+    data: {
+      ticker,
+      as_of: new Date().toISOString().split('T')[0],
+      segments: result.segments,
+      notes: [...notesBase, ...result.notes],
+    },
+    samples,
+    events,
+  };
+}
@@ -0,0 +1,81 @@
+// lib/core/events.ts
+// Caller-supplied events for /api/event-study (product launches, FDA decisions, lawsuits, …):
+// validation, per-ticker grouping, and the price range each ticker needs.
+
+export type EventWhen = 'bmo' | 'amc' | 'dmh' | 'unknown';
+
+export type UserEvent = {
+  ticker: string;
+  date: string;     // announcement date (ET, YYYY-MM-DD)
+  when: EventWhen;  // 'unknown' → Day0 session inferred from the price reaction, else next session
+  label?: string;
+};
+
+export type RawUserEvent = { ticker: string; date: string; when?: string | null; label?: string | null };
+
+export const MAX_USER_EVENTS = 200;
+export const MAX_EVENT_TICKERS = 25;
+export const MAX_EVENT_LABEL = 100;
+
+const WHENS: EventWhen[] = ['bmo', 'amc', 'dmh', 'unknown'];
+const DAY_MS = 86400000;
+
+function isISODate(s: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(s)) return false;
+  const d = new Date(`${s}T00:00:00Z`);
+  return !isNaN(d.getTime()) && d.toISOString().slice(0, 10) === s && s >= '1900-01-01' && s <= '2100-12-31';
+}
+
+/**
+ * Normalize and validate events: upper-cased tickers, ISO dates, when ∈ bmo|amc|dmh|unknown (default
+ * unknown), labels ≤ 100 chars. Duplicate ticker/date pairs keep the first. Sorted by ticker, then date.
+ * Throws ERR_INVALID_EVENTS (bad entry or count) / ERR_TOO_MANY_TICKERS.
+ */
+export function parseUserEvents(raw: RawUserEvent[]): UserEvent[] {
+  if (!Array.isArray(raw) || raw.length === 0 || raw.length > MAX_USER_EVENTS) throw new Error('ERR_INVALID_EVENTS');
+  const seen = new Set<string>();
+  const out: UserEvent[] = [];
+  for (const e of raw) {
+    const ticker = String(e?.ticker ?? '').trim().toUpperCase();
+    const date = String(e?.date ?? '').trim();
+    const when = e?.when == null || e.when === '' ? 'unknown' : String(e.when).trim().toLowerCase();
+    const label = e?.label == null ? undefined : String(e.label).trim();
+    if (!/^[A-Z0-9.\-]{1,10}$/.test(ticker) || !isISODate(date)) throw new Error('ERR_INVALID_EVENTS');
+    if (!(WHENS as string[]).includes(when)) throw new Error('ERR_INVALID_EVENTS');
+    if (label !== undefined && label.length > MAX_EVENT_LABEL) throw new Error('ERR_INVALID_EVENTS');
+    const key = `${ticker}|${date}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    out.push({ ticker, date, when: when as EventWhen, ...(label ? { label } : {}) });
+  }
+  if (new Set(out.map(e => e.ticker)).size > MAX_EVENT_TICKERS) throw new Error('ERR_TOO_MANY_TICKERS');
+  return out.sort((a, b) => a.ticker.localeCompare(b.ticker) || a.date.localeCompare(b.date));
+}
+
+export function groupEventsByTicker(events: UserEvent[]): Map<string, UserEvent[]> {
+  const out = new Map<string, UserEvent[]>();
+  for (const e of events) {
+    const list = out.get(e.ticker) ?? [];
+    list.push(e);
+    out.set(e.ticker, list);
+  }
+  return out;
+}
+
+/**
+ * Calendar range of prices covering every event's post-event window (trading→calendar ≈ ×1.45, +10 days),
+ * capped at `today`. The estimation period before `from` is added by computeExtendedFrom.
+ */
+export function eventPriceRange(
+  events: UserEvent[],
+  maxEndOffset: number,
+  today = new Date().toISOString().slice(0, 10)
+): { from: string; to: string } {
+  const dates = events.map(e => e.date).sort();
+  const from = dates[0];
+  const last = dates[dates.length - 1];
+  const pad = Math.ceil(Math.max(0, maxEndOffset) * 1.45) + 10;
+  const end = new Date(new Date(`${last}T00:00:00Z`).getTime() + pad * DAY_MS).toISOString().slice(0, 10);
+  const to = end < today ? end : today > last ? today : last;
+  return { from, to };
+}
@@ -0,0 +1,194 @@
+// lib/core/factors.ts
+// Offline factor returns for multi-factor expected-return models (Ken French data-library format).
+// - CSV: Ken French daily files as downloaded (preamble lines, ",Mkt-RF,SMB,HML,RF" header, YYYYMMDD rows, percent units)
+// - JSON: [{ "date": "2024-01-02" | "20240102", "Mkt-RF": 0.12, "SMB": -0.3, ... }] in the same percent units
+// Files are read from FACTOR_DATA_PATH (file or directory, default lib/data/factors) and kept per file;
+// each model takes its columns from the best-matching file and only fills missing columns from others
+// (FF3 and FF5 files both carry Mkt-RF/SMB/HML/RF, built differently, so they are never mixed per column).
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export type ExpectedReturnModel = 'market' | 'market_adjusted' | 'ff3' | 'ff5' | 'carhart';
+
+export const EXPECTED_RETURN_MODELS: ExpectedReturnModel[] = ['market', 'market_adjusted', 'ff3', 'ff5', 'carhart'];
+
+// Regressors per factor model (all in excess-return space; RF is subtracted from the stock return)
+export const MODEL_FACTORS: Record<'ff3' | 'ff5' | 'carhart', string[]> = {
+  ff3: ['Mkt-RF', 'SMB', 'HML'],
+  ff5: ['Mkt-RF', 'SMB', 'HML', 'RMW', 'CMA'],
+  carhart: ['Mkt-RF', 'SMB', 'HML', 'Mom'],
+};
+
+// date (YYYY-MM-DD) → factor name → daily return (decimal)
+export type FactorSeries = Map<string, Record<string, number>>;
+
+export function isFactorModel(model: ExpectedReturnModel): model is 'ff3' | 'ff5' | 'carhart' {
+  return model === 'ff3' || model === 'ff5' || model === 'carhart';
+}
+
+export function parseExpectedReturnModel(raw: string | null | undefined): ExpectedReturnModel {
+  if (raw == null || raw === '') return 'market';
+  const m = raw.trim().toLowerCase();
+  if ((EXPECTED_RETURN_MODELS as string[]).includes(m)) return m as ExpectedReturnModel;
+  throw new Error('ERR_INVALID_MODEL');
+}
+
+function normalizeFactorName(name: string): string {
+  const n = name.trim();
+  // momentum files label the column "Mom" (sometimes padded) or "UMD"
+  if (/^(mom|umd|wml)$/i.test(n)) return 'Mom';
+  if (/^mkt-?rf$/i.test(n)) return 'Mkt-RF';
+  return n;
+}
+
+function toISO(raw: string): string | null {
+  const s = raw.trim();
+  if (/^\d{8}$/.test(s)) return `${s.slice(0, 4)}-${s.slice(4, 6)}-${s.slice(6, 8)}`;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(s)) return s;
+  return null;
+}
+
+function addValue(out: FactorSeries, date: string, name: string, pct: number) {
+  // Ken French missing-value sentinels
+  if (!isFinite(pct) || pct <= -99.99 || pct === -999) return;
+  const row = out.get(date) || {};
+  row[name] = pct / 100;
+  out.set(date, row);
+}
+
+/**
+ * Parse a Ken French daily CSV. Only the first daily block is read; annual/monthly
+ * sections further down the file (non-8-digit keys) are ignored.
+ */
+export function parseKenFrenchCSV(text: string, out: FactorSeries = new Map()): FactorSeries {
+  let columns: string[] | null = null;
+  for (const line of text.split(/\r?\n/)) {
+    const cells = line.split(',');
+    if (cells.length < 2) continue; // preamble / blank / copyright lines
+    const key = cells[0].trim();
+    if (key === '' && cells.slice(1).some(c => /[A-Za-z]/.test(c))) {
+      if (columns) break; // a second header marks the next (non-daily) block
+      columns = cells.slice(1).map(normalizeFactorName);
+      continue;
+    }
+    if (!columns) continue;
+    const date = toISO(key);
+    if (!date || !/^\d{8}$/.test(key)) continue;
+    columns.forEach((name, i) => addValue(out, date, name, parseFloat(cells[i + 1])));
+  }
+  return out;
+}
+
+export function parseFactorJSON(data: unknown, out: FactorSeries = new Map()): FactorSeries {
+  if (!Array.isArray(data)) return out;
+  for (const row of data) {
+    if (!row || typeof row !== 'object') continue;
+    const date = toISO(String((row as any).date ?? ''));
+    if (!date) continue;
+    for (const [k, v] of Object.entries(row as Record<string, unknown>)) {
+      if (k === 'date') continue;
+      const num = typeof v === 'number' ? v : parseFloat(String(v));
+      addValue(out, date, normalizeFactorName(k), num);
+    }
+  }
+  return out;
+}
+
+// One parsed factor file
+export type FactorFile = { name: string; series: FactorSeries; columns: Set<string> };
+
+function fileColumns(series: FactorSeries): Set<string> {
+  const seen = new Set<string>();
+  series.forEach(row => Object.keys(row).forEach(k => seen.add(k)));
+  return seen;
+}
+
+export function toFactorFile(name: string, series: FactorSeries): FactorFile {
+  return { name, series, columns: fileColumns(series) };
+}
+
+/**
+ * Pick the series for a factor model. The base file is the one covering most of the model's
+ * columns (+ RF) with the fewest extra factors (ff3 → the 3-factor file even if the 5-factor file
+ * is present); columns still missing (e.g. Mom for carhart) come from the first other file that has them.
+ * A column is always taken from a single file.
+ */
+export function selectModelFactors(files: FactorFile[], model: 'ff3' | 'ff5' | 'carhart'): FactorSeries {
+  const needed = [...MODEL_FACTORS[model], 'RF'];
+  const ranked = files
+    .map(f => ({
+      file: f,
+      covered: needed.filter(c => f.columns.has(c)).length,
+      extra: Array.from(f.columns).filter(c => !needed.includes(c)).length,
+    }))
+    .filter(r => r.file.columns.has('Mkt-RF') && r.file.columns.has('RF'))
+    .sort((a, b) => b.covered - a.covered || a.extra - b.extra);
+  const out: FactorSeries = new Map();
+  if (ranked.length === 0) return out;
+
+  const base = ranked[0].file;
+  const sourceOf = new Map<string, FactorFile>();
+  for (const col of needed) {
+    const from = base.columns.has(col) ? base : files.find(f => f !== base && f.columns.has(col));
+    if (from) sourceOf.set(col, from);
+  }
+  base.series.forEach((_row, date) => {
+    const row: Record<string, number> = {};
+    sourceOf.forEach((file, col) => {
+      const v = file.series.get(date)?.[col];
+      if (typeof v === 'number') row[col] = v;
+    });
+    out.set(date, row);
+  });
+  return out;
+}
+
+let cached: { source: string; files: FactorFile[] } | null = null;
+
+/**
+ * Load every factor file under FACTOR_DATA_PATH (cached per process) and select the series for `model`.
+ * Throws ERR_NO_FACTORS when nothing usable is found.
+ */
+export async function loadFactorSeries(model: 'ff3' | 'ff5' | 'carhart'): Promise<FactorSeries> {
+  const source = process.env.FACTOR_DATA_PATH || path.join(process.cwd(), 'lib', 'data', 'factors');
+  if (cached && cached.source === source) return selectModelFactors(cached.files, model);
+
+  const paths: string[] = [];
+  try {
+    const stat = await fs.stat(source);
+    if (stat.isDirectory()) {
+      for (const name of await fs.readdir(source)) {
+        if (/\.(csv|json)$/i.test(name)) paths.push(path.join(source, name));
+      }
+    } else {
+      paths.push(source);
+    }
+  } catch {
+    throw new Error('ERR_NO_FACTORS');
+  }
+
+  const files: FactorFile[] = [];
+  for (const file of paths.sort()) {
+    try {
+      const text = await fs.readFile(file, 'utf8');
+      const series = /\.json$/i.test(file) ? parseFactorJSON(JSON.parse(text)) : parseKenFrenchCSV(text);
+      if (series.size > 0) files.push(toFactorFile(path.basename(file), series));
+    } catch (e) {
+      console.warn(`[Factors] failed to parse ${file}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  if (files.length === 0) throw new Error('ERR_NO_FACTORS');
+
+  cached = { source, files };
+  return selectModelFactors(files, model);
+}
+
+/**
+ * Check that the loaded series carries every factor (and RF) the model needs.
+ */
+export function missingFactors(series: FactorSeries, model: 'ff3' | 'ff5' | 'carhart'): string[] {
+  const needed = [...MODEL_FACTORS[model], 'RF'];
+  const seen = fileColumns(series);
+  return needed.filter(f => !seen.has(f));
+}
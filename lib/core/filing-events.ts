@@ -0,0 +1,133 @@
+// lib/core/filing-events.ts
+// 8-K filings as events (/api/analyze?events=8k:5.02,8k:governance_exec): selector parsing and
+// filing → event date/session. Day0 comes from EDGAR acceptanceDateTime (ET session calendar),
+// else the filing's event_date with unknown timing.
+
+import type { FilingLike } from './confounding';
+import { sessionPhaseAtET, whenFromSessionPhase } from './tradingCalendar';
+
+export type FilingEventSelector =
+  | { kind: 'item'; item: string }   // 8-K item code, e.g. 5.02
+  | { kind: 'type'; type: string };  // sec-edgar event type, e.g. governance_exec
+
+// event types produced by sec-edgar itemToEventType
+export const FILING_EVENT_TYPES = [
+  'agreement',
+  'mna',
+  'bankruptcy',
+  'earnings',
+  'restructuring',
+  'listing',
+  'securities',
+  'governance_exec',
+  'governance_shareholder',
+  'reg_fd',
+  'other_event',
+];
+
+export const MAX_EVENT_SELECTORS = 10;
+
+export type EventFilingLike = FilingLike & { accession: string; accepted_at?: string | null };
+
+export type EventFilingRef = {
+  form: string;
+  accession: string;
+  items: string[];
+  event_types: string[];
+  accepted_at: string | null;
+  event_date: string | null;
+  url: string;
+};
+
+export type FilingEvent = {
+  date: string;                            // announcement date (ET)
+  when: 'bmo' | 'amc' | 'dmh' | 'unknown';
+  when_source: 'acceptance_timestamp' | null;
+  filings: EventFilingRef[];               // selected 8-Ks on that date
+};
+
+/**
+ * "earnings" (default) → null; otherwise comma-separated 8k:<item> / 8k:<event type> selectors.
+ * Throws ERR_INVALID_EVENTS.
+ */
+export function parseEventSelectors(spec: string | string[] | null | undefined): FilingEventSelector[] | null {
+  const parts = (Array.isArray(spec) ? spec : String(spec ?? '').split(','))
+    .map(s => s.trim().toLowerCase())
+    .filter(Boolean);
+  if (parts.length === 0 || (parts.length === 1 && parts[0] === 'earnings')) return null;
+  if (parts.length > MAX_EVENT_SELECTORS) throw new Error('ERR_INVALID_EVENTS');
+
+  const out: FilingEventSelector[] = [];
+  const seen = new Set<string>();
+  for (const part of parts) {
+    const m = part.match(/^8-?k:(.+)$/);
+    if (!m) throw new Error('ERR_INVALID_EVENTS');
+    const value = m[1].trim();
+    let sel: FilingEventSelector;
+    if (/^\d\.\d{2}$/.test(value)) sel = { kind: 'item', item: value };
+    else if (FILING_EVENT_TYPES.includes(value)) sel = { kind: 'type', type: value };
+    else throw new Error('ERR_INVALID_EVENTS');
+    const key = formatEventSelector(sel);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    out.push(sel);
+  }
+  return out;
+}
+
+export function formatEventSelector(sel: FilingEventSelector): string {
+  return `8k:${sel.kind === 'item' ? sel.item : sel.type}`;
+}
+
+function matches(f: EventFilingLike, selectors: FilingEventSelector[]): boolean {
+  return selectors.some(s => (s.kind === 'item' ? f.items.includes(s.item) : f.event_types.includes(s.type)));
+}
+
+/**
+ * Original 8-Ks (amendments re-file an already public event) matching any selector, one event per
+ * announcement date within [from, to]. Filings accepted on the same date are merged; the earliest
+ * acceptance sets the session.
+ */
+export function filingEvents(
+  filings: EventFilingLike[],
+  selectors: FilingEventSelector[],
+  range: { from: string; to: string }
+): FilingEvent[] {
+  type Candidate = { date: string; acceptedAt: string | null; when: FilingEvent['when']; ref: EventFilingRef };
+  const candidates: Candidate[] = [];
+  for (const f of filings) {
+    if (f.form !== '8-K' || !matches(f, selectors)) continue;
+    const accepted = f.accepted_at ? sessionPhaseAtET(f.accepted_at) : null;
+    const date = accepted ? accepted.date : (f.event_date || (f.filed_at ? f.filed_at.slice(0, 10) : ''));
+    if (!date || date < range.from || date > range.to) continue;
+    const when = accepted ? whenFromSessionPhase(accepted.phase) : 'unknown';
+    candidates.push({
+      date,
+      acceptedAt: accepted ? f.accepted_at! : null,
+      when,
+      ref: {
+        form: f.form,
+        accession: f.accession,
+        items: f.items,
+        event_types: f.event_types,
+        accepted_at: f.accepted_at ?? null,
+        event_date: f.event_date,
+        url: f.urls.primary || f.urls.index,
+      },
+    });
+  }
+
+  const byDate = new Map<string, Candidate[]>();
+  for (const c of candidates) byDate.set(c.date, [...(byDate.get(c.date) ?? []), c]);
+  return Array.from(byDate.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, group]) => {
+      const timed = group.filter(c => c.acceptedAt).sort((a, b) => a.acceptedAt!.localeCompare(b.acceptedAt!));
+      return {
+        date,
+        when: timed.length ? timed[0].when : 'unknown',
+        when_source: timed.length ? 'acceptance_timestamp' : null,
+        filings: group.map(c => c.ref),
+      };
+    });
+}
@@ -0,0 +1,85 @@
+// lib/core/liquidity.ts
+// Abnormal trading volume and Amihud illiquidity around an event (Day0 index on aligned prices).
+// - Abnormal log volume: ln(1+V_t) − mean ln(1+V) over the pre-event baseline [−60,−11]
+// - Amihud ILLIQ: mean |r_t| / (close_t · V_t), reported per $1M traded, pre [−30,−1] vs post [+1,+30]
+
+import type { PriceData } from '@/lib/core/schema';
+
+export const VOLUME_BASELINE: [number, number] = [-60, -11];
+export const AMIHUD_PRE: [number, number] = [-30, -1];
+export const AMIHUD_POST: [number, number] = [1, 30];
+const MIN_BASELINE_DAYS = 20;
+const MIN_AMIHUD_DAYS = 10;
+
+export type VolumeMetrics = {
+  baseline_days: number;
+  abn_log_volume_day0: number | null;
+  abn_log_volume_z_day0: number | null;   // AV_0 / SD of baseline log volume
+  abn_log_volume_mean: number | null;     // mean AV over the segment's event window
+  volume_ratio_day0: number | null;       // V_0 / geometric-mean baseline volume = exp(AV_0)
+  amihud_pre: number | null;
+  amihud_post: number | null;
+  amihud_change: number | null;           // post / pre − 1
+};
+
+function logVolume(p: PriceData | undefined): number | null {
+  return p && typeof p.volume === 'number' && p.volume >= 0 ? Math.log(1 + p.volume) : null;
+}
+
+function amihud(prices: PriceData[], day0Idx: number, range: [number, number]): number | null {
+  const vals: number[] = [];
+  for (let i = Math.max(1, day0Idx + range[0]); i <= Math.min(prices.length - 1, day0Idx + range[1]); i++) {
+    const p = prices[i];
+    const px = typeof p.close === 'number' ? p.close : p.adjClose;
+    if (typeof p.volume !== 'number' || p.volume <= 0 || !(px > 0)) continue;
+    const r = p.adjClose / prices[i - 1].adjClose - 1;
+    if (!isFinite(r)) continue;
+    vals.push(Math.abs(r) / (px * p.volume) * 1e6);
+  }
+  return vals.length >= MIN_AMIHUD_DAYS ? vals.reduce((s, v) => s + v, 0) / vals.length : null;
+}
+
+/**
+ * Returns null when the series carries no volume at all (e.g. a provider without OHLCV).
+ */
+export function computeVolumeMetrics(prices: PriceData[], day0Idx: number, window: [number, number]): VolumeMetrics | null {
+  if (!prices.some(p => typeof p.volume === 'number')) return null;
+
+  const base: number[] = [];
+  for (let i = Math.max(0, day0Idx + VOLUME_BASELINE[0]); i <= day0Idx + VOLUME_BASELINE[1] && i < prices.length; i++) {
+    const lv = logVolume(prices[i]);
+    if (lv !== null) base.push(lv);
+  }
+
+  let av0: number | null = null;
+  let z0: number | null = null;
+  let avMean: number | null = null;
+  if (base.length >= MIN_BASELINE_DAYS) {
+    const mean = base.reduce((s, v) => s + v, 0) / base.length;
+    const sd = Math.sqrt(base.reduce((s, v) => s + (v - mean) ** 2, 0) / (base.length - 1));
+    const lv0 = logVolume(prices[day0Idx]);
+    if (lv0 !== null) {
+      av0 = lv0 - mean;
+      z0 = sd > 1e-12 ? av0 / sd : null;
+    }
+    const evt: number[] = [];
+    for (let i = Math.max(0, day0Idx + window[0]); i <= Math.min(prices.length - 1, day0Idx + window[1]); i++) {
+      const lv = logVolume(prices[i]);
+      if (lv !== null) evt.push(lv - mean);
+    }
+    if (evt.length) avMean = evt.reduce((s, v) => s + v, 0) / evt.length;
+  }
+
+  const pre = amihud(prices, day0Idx, AMIHUD_PRE);
+  const post = amihud(prices, day0Idx, AMIHUD_POST);
+  return {
+    baseline_days: base.length,
+    abn_log_volume_day0: av0,
+    abn_log_volume_z_day0: z0,
+    abn_log_volume_mean: avMean,
+    volume_ratio_day0: av0 !== null ? Math.exp(av0) : null,
+    amihud_pre: pre,
+    amihud_post: post,
+    amihud_change: pre !== null && post !== null && pre > 0 ? post / pre - 1 : null,
+  };
+}
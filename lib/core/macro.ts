@@ -0,0 +1,91 @@
+// lib/core/macro.ts
+// Market-level event studies around the bundled macro calendar (lib/data/macro-events.json):
+// type/measure parsing, release time → Day0 session, and raw-return summaries.
+
+import { MACRO_EVENT_TYPES, MacroEvent, MacroEventType } from '../data/macro-events';
+import { sessionPhaseAtET, whenFromSessionPhase } from './tradingCalendar';
+import { twoSidedP } from './caar';
+
+// car: CAAR tests on abnormal returns; raw: the ticker's own buy-and-hold return over each window
+export type StudyMeasure = 'car' | 'raw';
+
+export const STUDY_MEASURES: StudyMeasure[] = ['car', 'raw'];
+
+export type MacroStudyEvent = {
+  date: string;
+  when: 'bmo' | 'amc' | 'dmh';
+  time_et: string;               // earliest release time that day
+  types: MacroEventType[];       // several when releases coincide (e.g. CPI on an FOMC day)
+  label: string;
+};
+
+export type ReturnSummary = {
+  n: number;
+  mean: number;
+  median: number;
+  sd: number | null;
+  t_stat: number | null;   // mean / (sd / √n)
+  p_value: number | null;  // two-sided normal
+  positive_share: number;
+};
+
+/**
+ * Comma-separated fomc|cpi|nfp (default all). Throws ERR_INVALID_MACRO_TYPES.
+ */
+export function parseMacroTypes(spec: string | string[] | null | undefined): MacroEventType[] {
+  const parts = (Array.isArray(spec) ? spec : String(spec ?? '').split(','))
+    .map(s => s.trim().toLowerCase())
+    .filter(Boolean);
+  if (parts.length === 0) return [...MACRO_EVENT_TYPES];
+  if (parts.some(p => !(MACRO_EVENT_TYPES as string[]).includes(p))) throw new Error('ERR_INVALID_MACRO_TYPES');
+  return MACRO_EVENT_TYPES.filter(t => parts.includes(t));
+}
+
+export function parseStudyMeasure(raw: string | null | undefined): StudyMeasure {
+  if (raw == null || raw.trim() === '') return 'car';
+  const m = raw.trim().toLowerCase();
+  if (!(STUDY_MEASURES as string[]).includes(m)) throw new Error('ERR_INVALID_MEASURE');
+  return m as StudyMeasure;
+}
+
+/**
+ * One study event per release date. The earliest release sets the session: before the open → bmo
+ * (Day0 = release day), during the session → dmh, after the close or on a closed day → amc (Day0 = next session).
+ */
+export function macroStudyEvents(events: MacroEvent[]): MacroStudyEvent[] {
+  const byDate = new Map<string, MacroEvent[]>();
+  for (const e of events) byDate.set(e.date, [...(byDate.get(e.date) ?? []), e]);
+  return Array.from(byDate.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, group]) => {
+      const sorted = [...group].sort((a, b) => a.time_et.localeCompare(b.time_et));
+      const phase = sessionPhaseAtET(`${date}T${sorted[0].time_et}`)?.phase ?? 'closed';
+      return {
+        date,
+        when: whenFromSessionPhase(phase),
+        time_et: sorted[0].time_et,
+        types: Array.from(new Set(sorted.map(e => e.type))),
+        label: sorted.map(e => e.label).join(' + '),
+      };
+    });
+}
+
+export function summarizeReturns(values: number[]): ReturnSummary | null {
+  const xs = values.filter(v => isFinite(v));
+  const n = xs.length;
+  if (n === 0) return null;
+  const mean = xs.reduce((s, v) => s + v, 0) / n;
+  const sorted = [...xs].sort((a, b) => a - b);
+  const median = n % 2 ? sorted[(n - 1) / 2] : (sorted[n / 2 - 1] + sorted[n / 2]) / 2;
+  const sd = n > 1 ? Math.sqrt(xs.reduce((s, v) => s + (v - mean) ** 2, 0) / (n - 1)) : null;
+  const t = sd && sd > 0 ? mean / (sd / Math.sqrt(n)) : null;
+  return {
+    n,
+    mean,
+    median,
+    sd,
+    t_stat: t,
+    p_value: t === null ? null : twoSidedP(t),
+    positive_share: xs.filter(v => v > 0).length / n,
+  };
+}
@@ -0,0 +1,138 @@
+// lib/core/pead.ts
+// Post-earnings announcement drift: events pooled across tickers, ranked by surprise into quintiles,
+// and the average event-time CAR path over the drift window (default [+2,+60]) per quintile, with the
+// top-minus-bottom spread. Paths come from analyze's include=path (per-event CAR re-based at the window start).
+// car_end is read at the window's last offset, so only events whose path reaches it count (no pooling of
+// truncated paths); average-path points backed by fewer than PEAD_MIN_PATH_N events are dropped.
+
+import { twoSidedP } from './caar';
+
+export const PEAD_WINDOW: [number, number] = [2, 60];
+export const PEAD_GROUPS = 5;
+export const PEAD_MIN_EVENTS = 10;
+export const PEAD_MIN_PATH_N = 3;
+
+export type PEADEvent = {
+  ticker: string;
+  event_date: string;
+  surprise: number;
+  path: Array<{ offset: number; car: number }>; // cumulative abnormal return from the window start
+};
+
+export type PEADPathPoint = { offset: number; car: number; n: number };
+
+export type PEADEndStat = { n: number; mean: number; t_stat: number | null; p_value: number | null };
+
+export type PEADQuintile = {
+  quintile: number;        // 1 = most negative surprise … 5 = most positive
+  n: number;
+  surprise_mean: number;
+  surprise_min: number;
+  surprise_max: number;
+  car_end: PEADEndStat | null;   // CAR at the window end, events with a complete path only
+  path: PEADPathPoint[];
+};
+
+export type PEADSpread = {
+  car_end: number;
+  t_stat: number | null;   // Welch t of top vs bottom car_end
+  p_value: number | null;
+  path: Array<{ offset: number; car: number }>;
+};
+
+export type PEADResult = {
+  n: number;
+  quintiles: PEADQuintile[];
+  spread: PEADSpread | null;
+};
+
+/**
+ * Pooled rank sort: ascending surprise (ties by ticker, then date) → group = ⌊rank·5/n⌋ + 1, so
+ * group sizes differ by at most one and the assignment is reproducible.
+ */
+export function assignQuintiles(events: PEADEvent[]): number[] {
+  const order = events
+    .map((e, i) => ({ e, i }))
+    .sort((a, b) => a.e.surprise - b.e.surprise || a.e.ticker.localeCompare(b.e.ticker) || a.e.event_date.localeCompare(b.e.event_date));
+  const out = new Array<number>(events.length);
+  order.forEach(({ i }, rank) => { out[i] = Math.floor((rank * PEAD_GROUPS) / events.length) + 1; });
+  return out;
+}
+
+function endStat(values: number[]): PEADEndStat | null {
+  const n = values.length;
+  if (n === 0) return null;
+  const mean = values.reduce((s, v) => s + v, 0) / n;
+  const sd = n > 1 ? Math.sqrt(values.reduce((s, v) => s + (v - mean) ** 2, 0) / (n - 1)) : 0;
+  const t = sd > 0 ? mean / (sd / Math.sqrt(n)) : null;
+  return { n, mean, t_stat: t, p_value: t === null ? null : twoSidedP(t) };
+}
+
+/** CAR at `windowEnd`, or null when the event's path stops short of it (e.g. a recent announcement). */
+export function carAtWindowEnd(e: PEADEvent, windowEnd: number): number | null {
+  const last = e.path[e.path.length - 1];
+  return last && last.offset === windowEnd ? last.car : null;
+}
+
+function averagePath(events: PEADEvent[]): PEADPathPoint[] {
+  const byOffset = new Map<number, number[]>();
+  for (const e of events) {
+    for (const p of e.path) byOffset.set(p.offset, [...(byOffset.get(p.offset) ?? []), p.car]);
+  }
+  return Array.from(byOffset.entries())
+    .sort(([a], [b]) => a - b)
+    .filter(([, cars]) => cars.length >= PEAD_MIN_PATH_N)
+    .map(([offset, cars]) => ({ offset, car: cars.reduce((s, v) => s + v, 0) / cars.length, n: cars.length }));
+}
+
+/**
+ * Null below PEAD_MIN_EVENTS usable events (finite surprise, non-empty path). Truncated events are
+ * ranked and enter the average path up to their last offset, but not car_end or the spread t.
+ */
+export function peadStudy(input: PEADEvent[], windowEnd: number = PEAD_WINDOW[1]): PEADResult | null {
+  const events = input.filter(e => isFinite(e.surprise) && e.path.length > 0);
+  if (events.length < PEAD_MIN_EVENTS) return null;
+  const groups = assignQuintiles(events);
+  const ends = (q: number) => events
+    .filter((_, i) => groups[i] === q)
+    .map(e => carAtWindowEnd(e, windowEnd))
+    .filter((v): v is number => v !== null);
+
+  const quintiles: PEADQuintile[] = [];
+  for (let q = 1; q <= PEAD_GROUPS; q++) {
+    const members = events.filter((_, i) => groups[i] === q);
+    const surprises = members.map(e => e.surprise);
+    quintiles.push({
+      quintile: q,
+      n: members.length,
+      surprise_mean: surprises.reduce((s, v) => s + v, 0) / members.length,
+      surprise_min: Math.min(...surprises),
+      surprise_max: Math.max(...surprises),
+      car_end: endStat(ends(q)),
+      path: averagePath(members),
+    });
+  }
+
+  const top = quintiles[PEAD_GROUPS - 1];
+  const bottom = quintiles[0];
+  let spread: PEADSpread | null = null;
+  if (top.car_end && bottom.car_end) {
+    const variance = (xs: number[], m: number) => (xs.length > 1 ? xs.reduce((s, v) => s + (v - m) ** 2, 0) / (xs.length - 1) : 0);
+    const se = Math.sqrt(
+      variance(ends(PEAD_GROUPS), top.car_end.mean) / top.car_end.n + variance(ends(1), bottom.car_end.mean) / bottom.car_end.n
+    );
+    const diff = top.car_end.mean - bottom.car_end.mean;
+    const t = se > 0 ? diff / se : null;
+    const bottomByOffset = new Map(bottom.path.map(p => [p.offset, p.car]));
+    spread = {
+      car_end: diff,
+      t_stat: t,
+      p_value: t === null ? null : twoSidedP(t),
+      path: top.path
+        .filter(p => bottomByOffset.has(p.offset))
+        .map(p => ({ offset: p.offset, car: p.car - bottomByOffset.get(p.offset)! })),
+    };
+  }
+
+  return { n: events.length, quintiles, spread };
+}
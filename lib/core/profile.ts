@@ -0,0 +1,132 @@
+// lib/core/profile.ts
+// Earnings reaction profile (/api/analyze/profile): per-window summary of a ticker's CAR history —
+// central tendency, typical absolute move, beat/miss-conditional reaction, largest moves and the
+// reaction by fiscal quarter — sized for a GPT Action response (values rounded, no segment arrays).
+
+import type { AnalysisSegment } from './schema';
+
+export const PROFILE_LARGEST = 3;
+export const PROFILE_DECIMALS = 4;
+
+export type ReactionStats = {
+  n: number;
+  mean: number;
+  median: number;
+  mean_abs: number;
+  positive_share: number;
+};
+
+export type FiscalQuarter = { fiscal_quarter: 1 | 2 | 3 | 4; fiscal_year: number };
+
+export type WindowProfile = {
+  window: string;
+  stats: (ReactionStats & { sd: number | null }) | null;
+  beat: ReactionStats | null;     // eps_surprise > 0
+  miss: ReactionStats | null;     // eps_surprise < 0
+  inline_n: number;               // eps_surprise = 0
+  by_fiscal_quarter: Array<ReactionStats & { fiscal_quarter: number }>;
+  largest: Array<{ date: string; fiscal: string; car: number; eps_surprise_pct: number | null }>;
+};
+
+const round = (x: number) => Number(x.toFixed(PROFILE_DECIMALS));
+
+export function reactionStats(cars: number[]): ReactionStats | null {
+  const xs = cars.filter(v => isFinite(v));
+  const n = xs.length;
+  if (n === 0) return null;
+  const sorted = [...xs].sort((a, b) => a - b);
+  return {
+    n,
+    mean: round(xs.reduce((s, v) => s + v, 0) / n),
+    median: round(n % 2 ? sorted[(n - 1) / 2] : (sorted[n / 2 - 1] + sorted[n / 2]) / 2),
+    mean_abs: round(xs.reduce((s, v) => s + Math.abs(v), 0) / n),
+    positive_share: round(xs.filter(v => v > 0).length / n),
+  };
+}
+
+function fiscalYearEndMonth(fiscalYearEnd: string | null): number {
+  const fye = fiscalYearEnd && /^\d{4}$/.test(fiscalYearEnd) ? fiscalYearEnd : '1231';
+  const fm = parseInt(fye.slice(0, 2), 10);
+  return parseInt(fye.slice(2), 10) <= 7 ? (fm === 1 ? 12 : fm - 1) : fm;
+}
+
+/**
+ * Fiscal quarter reported on `announceDate`: the latest fiscal quarter end (month end) at least a week
+ * earlier. `fiscalYearEnd` is EDGAR's MMDD (null → December); year ends in the first week of a month
+ * (52/53-week years) count as the previous month. Fiscal years are named by the calendar year they end in.
+ */
+export function fiscalQuarterOf(announceDate: string, fiscalYearEnd: string | null): FiscalQuarter {
+  const fm = fiscalYearEndMonth(fiscalYearEnd);
+  const { year: y, month: m } = fiscalQuarterEndMonth(announceDate, fiscalYearEnd);
+  const monthsAfterFYE = (m - fm + 12) % 12;
+  return {
+    fiscal_quarter: (monthsAfterFYE === 0 ? 4 : monthsAfterFYE / 3) as FiscalQuarter['fiscal_quarter'],
+    fiscal_year: m > fm ? y + 1 : y,
+  };
+}
+
+/**
+ * Calendar month in which the fiscal quarter reported on `announceDate` ends (same rules as fiscalQuarterOf).
+ */
+export function fiscalQuarterEndMonth(announceDate: string, fiscalYearEnd: string | null): { year: number; month: number } {
+  const fm = fiscalYearEndMonth(fiscalYearEnd);
+  const cutoff = new Date(`${announceDate}T00:00:00Z`).getTime() - 7 * 86400000;
+  const d = new Date(cutoff);
+  // month end on/before the cutoff
+  let y = d.getUTCFullYear();
+  let m = d.getUTCMonth() + 1;
+  if (new Date(Date.UTC(y, m, 0)).getTime() > cutoff) {
+    m -= 1;
+    if (m === 0) { m = 12; y -= 1; }
+  }
+  // step back to a fiscal quarter-end month
+  while ((m - fm + 12) % 3 !== 0) {
+    m -= 1;
+    if (m === 0) { m = 12; y -= 1; }
+  }
+  return { year: y, month: m };
+}
+
+/**
+ * One profile per window label, from analyze segments (one segment per event × window).
+ */
+export function buildWindowProfile(segments: AnalysisSegment[], window: string, fiscalYearEnd: string | null): WindowProfile {
+  const segs = segments.filter(s => s.price_reaction.window === window && isFinite(s.price_reaction.car));
+  const cars = segs.map(s => s.price_reaction.car);
+  const base = reactionStats(cars);
+  let sd: number | null = null;
+  if (base && base.n > 1) {
+    const mean = cars.reduce((s, v) => s + v, 0) / cars.length;
+    sd = round(Math.sqrt(cars.reduce((s, v) => s + (v - mean) ** 2, 0) / (cars.length - 1)));
+  }
+
+  const surprise = (s: AnalysisSegment) => (typeof s.earnings.eps_surprise === 'number' ? s.earnings.eps_surprise : null);
+  const fiscal = new Map(segs.map(s => [s, fiscalQuarterOf(s.earnings.date, fiscalYearEnd)]));
+
+  const byQuarter: WindowProfile['by_fiscal_quarter'] = [];
+  for (const q of [1, 2, 3, 4]) {
+    const stats = reactionStats(segs.filter(s => fiscal.get(s)!.fiscal_quarter === q).map(s => s.price_reaction.car));
+    if (stats) byQuarter.push({ fiscal_quarter: q, ...stats });
+  }
+
+  return {
+    window,
+    stats: base ? { ...base, sd } : null,
+    beat: reactionStats(segs.filter(s => (surprise(s) ?? 0) > 0).map(s => s.price_reaction.car)),
+    miss: reactionStats(segs.filter(s => (surprise(s) ?? 0) < 0).map(s => s.price_reaction.car)),
+    inline_n: segs.filter(s => surprise(s) === 0).length,
+    by_fiscal_quarter: byQuarter,
+    largest: [...segs]
+      .sort((a, b) => Math.abs(b.price_reaction.car) - Math.abs(a.price_reaction.car) || a.earnings.date.localeCompare(b.earnings.date))
+      .slice(0, PROFILE_LARGEST)
+      .map(s => {
+        const fq = fiscal.get(s)!;
+        return {
+          date: s.earnings.date,
+          fiscal: `FY${fq.fiscal_year} Q${fq.fiscal_quarter}`,
+          car: round(s.price_reaction.car),
+          eps_surprise_pct: typeof s.earnings.eps_surprise_pct === 'number' ? round(s.earnings.eps_surprise_pct) : null,
+        };
+      }),
+  };
+}
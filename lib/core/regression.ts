@@ -0,0 +1,105 @@
+// lib/core/regression.ts
+// Small dense OLS helpers (normal equations + Gauss-Jordan inverse). Sizes here are tiny
+// (k ≤ ~6 regressors, n ≤ ~1000 obs), so numerical shortcuts are acceptable.
+
+export type OLSFit = {
+  coef: number[];       // one per column of X
+  resid: number[];
+  n: number;
+  k: number;
+  r2: number;           // centered R² (assumes X has an intercept column)
+  sigma: number;        // residual SD with n-k dof
+  xtxInv: number[][];
+};
+
+export function invertMatrix(a: number[][]): number[][] | null {
+  const n = a.length;
+  const m = a.map((row, i) => [...row, ...Array.from({ length: n }, (_, j) => (i === j ? 1 : 0))]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-14) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    const p = m[col][col];
+    for (let c = 0; c < 2 * n; c++) m[col][c] /= p;
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const f = m[r][col];
+      if (f === 0) continue;
+      for (let c = 0; c < 2 * n; c++) m[r][c] -= f * m[col][c];
+    }
+  }
+  return m.map(row => row.slice(n));
+}
+
+/**
+ * OLS of y on X (rows = observations). Include a column of 1s in X for an intercept.
+ * Returns null when the design is singular or there are not more observations than regressors.
+ */
+export function olsFit(X: number[][], y: number[]): OLSFit | null {
+  const n = y.length;
+  const k = X[0]?.length ?? 0;
+  if (k === 0 || n <= k || X.length !== n) return null;
+
+  const xtx = Array.from({ length: k }, () => new Array<number>(k).fill(0));
+  const xty = new Array<number>(k).fill(0);
+  for (let i = 0; i < n; i++) {
+    const row = X[i];
+    for (let a = 0; a < k; a++) {
+      xty[a] += row[a] * y[i];
+      for (let b = a; b < k; b++) xtx[a][b] += row[a] * row[b];
+    }
+  }
+  for (let a = 0; a < k; a++) for (let b = 0; b < a; b++) xtx[a][b] = xtx[b][a];
+
+  const xtxInv = invertMatrix(xtx);
+  if (!xtxInv) return null;
+  const coef = xtxInv.map(row => row.reduce((s, v, j) => s + v * xty[j], 0));
+
+  const ybar = y.reduce((s, v) => s + v, 0) / n;
+  let sse = 0, sst = 0;
+  const resid: number[] = [];
+  for (let i = 0; i < n; i++) {
+    const pred = X[i].reduce((s, v, j) => s + v * coef[j], 0);
+    const e = y[i] - pred;
+    resid.push(e);
+    sse += e * e;
+    sst += (y[i] - ybar) ** 2;
+  }
+  return {
+    coef,
+    resid,
+    n,
+    k,
+    r2: sst > 0 ? 1 - sse / sst : 0,
+    sigma: Math.sqrt(sse / (n - k)),
+    xtxInv,
+  };
+}
+
+/**
+ * White heteroskedasticity-robust standard errors with the HC1 small-sample factor n/(n-k).
+ */
+export function hc1StdErrors(fit: OLSFit, X: number[][]): number[] {
+  const { k, n, xtxInv, resid } = fit;
+  const meat = Array.from({ length: k }, () => new Array<number>(k).fill(0));
+  for (let i = 0; i < n; i++) {
+    const e2 = resid[i] * resid[i];
+    for (let a = 0; a < k; a++) {
+      for (let b = 0; b < k; b++) meat[a][b] += X[i][a] * X[i][b] * e2;
+    }
+  }
+  const scale = n / (n - k);
+  const out: number[] = [];
+  for (let a = 0; a < k; a++) {
+    // diag of (X'X)^-1 · meat · (X'X)^-1
+    let v = 0;
+    for (let p = 0; p < k; p++) {
+      for (let q = 0; q < k; q++) v += xtxInv[a][p] * meat[p][q] * xtxInv[q][a];
+    }
+    out.push(Math.sqrt(Math.max(0, v * scale)));
+  }
+  return out;
+}
@@ -17,6 +17,8 @@ export const FinnhubEarningsSchema = z.object({
     date: z.string(),
     epsActual: z.number().nullable(),
     revenueActual: z.number().nullable(),
+    epsEstimate: z.number().nullable().optional(),
+    revenueEstimate: z.number().nullable().optional(),
     time: z.string().optional(),
     hour: z.string().optional(),
   })),
@@ -26,6 +28,12 @@ export const FinnhubEarningsSchema = z.object({
 export type PriceData = {
   date: string; // YYYY-MM-DD
   adjClose: number;
+  // raw (split-adjusted, not dividend-adjusted) OHLCV when the provider returns it
+  open?: number;
+  high?: number;
+  low?: number;
+  close?: number;
+  volume?: number;
 };
 
 export type EarningsRow = {
@@ -34,13 +42,16 @@ export type EarningsRow = {
   eps: number | null;
   revenue: number | null;
   fiscalQ?: string;
+  // consensus estimates when the provider supplies them (Finnhub calendar)
+  epsEstimate?: number | null;
+  revenueEstimate?: number | null;
 };
 
 export type EarningsCalendarRow = {
   date: string;                    // event date (ISO yyyy-mm-dd)
   epsActual: number | null;
   epsEstimate: number | null;
-  hour: 'amc' | 'bmo' | 'dmt' | null;
+  hour: 'amc' | 'bmo' | 'dmh' | 'dmt' | null;
   quarter: 1 | 2 | 3 | 4 | null;
   revenueActual: number | null;
   revenueEstimate: number | null;
@@ -78,11 +89,33 @@ export type AnalysisSegment = {
   earnings: {
     date: string;
     when: 'bmo' | 'amc' | 'dmh' | 'unknown';
+    // where `when` came from: EDGAR acceptanceDateTime, press-release text, earnings provider, the caller
+    // (/api/event-study), the release time in lib/data/macro-events.json, or the AMC default
+    // price_reaction: no flag from any source; Day0 session inferred (see timing_inference), `when` stays 'unknown'
+    when_source?: 'acceptance_timestamp' | 'press_text' | 'provider' | 'user' | 'macro_calendar' | 'price_reaction' | 'default';
+    timing_inference?: {
+      method: 'price_reaction';
+      session: 'announcement_day' | 'next_day';
+      confidence: number;
+      score_announcement_day: number;
+      score_next_day: number;
+    };
     eps: number | null;
     eps_basis?: 'GAAP_diluted';
     split_adjusted?: boolean;
     eps_yoy: number | null;
     rev_yoy: number | null;
+    // surprise vs expectation (consensus, else seasonal random walk); see lib/core/surprise.ts
+    eps_expected?: number | null;
+    eps_surprise?: number | null;
+    eps_surprise_pct?: number | null;
+    rev_expected?: number | null;
+    rev_surprise?: number | null;
+    rev_surprise_pct?: number | null;
+    sue_price?: number | null;
+    sue_sd?: number | null;
+    expectation_model?: 'consensus' | 'seasonal_random_walk' | null;
+    rev_expectation_model?: 'consensus' | 'seasonal_random_walk' | null;
     flags?: {
       eps_yoy_nm?: true;
       rev_yoy_nm?: true;
@@ -101,12 +134,102 @@ export type AnalysisSegment = {
     window_days?: number;
     car_tstat?: number;
     market_model_used?: boolean;
-    alpha_beta?: { alpha: number; beta: number; n: number };
+    // method/lags/iterations/n_effective: beta estimator diagnostics (beta_method)
+    alpha_beta?: {
+      alpha: number;
+      beta: number;
+      n: number;
+      method?: 'ols' | 'scholes_williams' | 'dimson' | 'huber';
+      lags?: number;
+      iterations?: number;
+      n_effective?: number;
+    };
+    // expected-return model; loadings/r2 come from the estimation-window regression
+    model?: 'market' | 'market_adjusted' | 'ff3' | 'ff5' | 'carhart';
+    factor_loadings?: Record<string, number>;
+    r2?: number;
+    // buy-and-hold abnormal return vs the benchmark (compounded); t only cross-sectionally (aggregate)
+    bhar?: {
+      value: number;
+      stock_bh: number;
+      bench_bh: number;
+      days: number;
+    };
+    // empirical null from estimation-period residuals (significance=bootstrap|permutation)
+    significance?: {
+      method: 'bootstrap' | 'permutation';
+      p_value: number;
+      percentile: number;
+      resamples: number;
+      seed: number;
+      null_sd: number;
+    };
+    // daily event-time path (include=path); returns are dated by the day they end on
+    path?: Array<{
+      date: string;
+      offset: number;
+      ret: number;
+      bench_ret: number | null;
+      expected: number;
+      ar: number;
+      car: number;
+    }>;
+    // Day0/Day+1 split into overnight gap (close→open) and intraday (open→close) log returns; same for every window
+    gap_split?: {
+      day0?: { overnight_ar: number; intraday_ar: number; overnight_ret: number; intraday_ret: number };
+      day1?: { overnight_ar: number; intraday_ar: number; overnight_ret: number; intraday_ret: number };
+      beta_used: number;
+      bench_components: boolean;
+    };
+    settings?: {
+      window: [number, number];
+      estimation_window: number;
+      estimation_gap: number;             // effective: requested gap counted back from the earliest window start
+      estimation_excluded_days?: number; // estimation days dropped for other events' windows
+      estimation_n?: number;             // estimation days actually used
+      winsorize?: number;
+      model?: 'market' | 'market_adjusted' | 'ff3' | 'ff5' | 'carhart';
+      beta_method?: 'ols' | 'scholes_williams' | 'dimson' | 'huber';
+    };
+    // car_tstat adjustments: σ floored, event-window SD used, t recomputed after an outlier check, or clamped to ±10
+    tstat_flags?: { sigma_floor?: true; event_sd?: true; recomputed?: true; clamped?: true };
     flags?: {
       partial?: true;
       short_window?: true;
+      factor_model_unavailable?: true; // factor rows too sparse in estimation → model='market'
+      estimation_short?: true;         // estimation_n below the minimum after exclusions
     };
   };
+  // abnormal volume / Amihud illiquidity around Day0 (omitted when the price provider has no volume)
+  volume?: {
+    baseline_days: number;
+    abn_log_volume_day0: number | null;
+    abn_log_volume_z_day0: number | null;
+    abn_log_volume_mean: number | null;
+    volume_ratio_day0: number | null;
+    amihud_pre: number | null;
+    amihud_post: number | null;
+    amihud_change: number | null;
+  };
+  // other material 8-Ks (M&A, restructuring, exec change, …) dated inside `period`
+  confounded?: boolean;
+  confounding_filings?: Array<{
+    form: string;
+    items: string[];
+    event_types: string[];
+    date: string;
+    url: string;
+  }>;
+  // 8-K events (/api/analyze?events=8k:…): the selected filings behind this event
+  event_filings?: Array<{
+    form: string;
+    accession: string;
+    items: string[];
+    event_types: string[];
+    accepted_at: string | null;  // EDGAR acceptanceDateTime (ET)
+    event_date: string | null;
+    url: string;
+  }>;
   source_urls: string[];
   data_quality?: {
     event_date_source: '8-K_ex99' | 'filed_at' | 'period_of_report';
@@ -127,6 +250,150 @@ export const AnalysisRequestSchema = z.object({
   ticker: z.string().min(1).max(10),
   from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
   to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  // "-20:-1,0:1,2:60" 형식 문자열 또는 [start, end] 튜플 배열
+  windows: z.union([
+    z.string(),
+    z.array(z.tuple([z.number().int(), z.number().int()])),
+  ]).optional(),
+  estimation_window: z.number().int().optional(),
+  estimation_gap: z.number().int().optional(),
+  exclude_events: z.boolean().optional(),
+  winsorize: z.number().min(0).max(0.1).optional(),
+  model: z.enum(['market', 'market_adjusted', 'ff3', 'ff5', 'carhart']).optional(),
+  beta_method: z.enum(['ols', 'scholes_williams', 'dimson', 'huber']).optional(),
+  // "SPY" | "auto" | "XLF,KRE" | "XLF:0.7,KRE:0.3" 또는 티커 배열(동일가중 바스켓)
+  bench: z.union([z.string(), z.array(z.string())]).optional(),
+  significance: z.enum(['bootstrap', 'permutation', 'none']).optional(),
+  seed: z.number().int().optional(),
+  resamples: z.number().int().optional(),
+  // "path" (쉼표 구분) 또는 배열
+  include: z.union([z.string(), z.array(z.string())]).optional(),
+  // "earnings"(기본) 또는 8-K 이벤트 "8k:5.02,8k:governance_exec" (쉼표 구분) 또는 배열
+  events: z.union([z.string(), z.array(z.string())]).optional(),
+  nocache: z.boolean().optional(),
 });
 
 export type AnalysisRequest = z.infer<typeof AnalysisRequestSchema>;
+
+// 차트 요청 스키마 (/api/analyze/chart)
+export const ChartRequestSchema = AnalysisRequestSchema.pick({
+  ticker: true,
+  from: true,
+  to: true,
+  windows: true,
+  estimation_window: true,
+  estimation_gap: true,
+  model: true,
+  beta_method: true,
+  bench: true,
+}).extend({
+  mode: z.enum(['car', 'price']).optional(),
+  format: z.enum(['svg', 'png']).optional(),
+  width: z.number().int().optional(),
+  height: z.number().int().optional(),
+  // 발표일(YYYY-MM-DD) 필터, 쉼표 구분 문자열 또는 배열
+  events: z.union([z.string(), z.array(z.string())]).optional(),
+});
+
+export type ChartRequest = z.infer<typeof ChartRequestSchema>;
+
+// 실적 반응 프로필 요청 스키마 (/api/analyze/profile) — from/to 생략 시 최근 10년
+export const ProfileRequestSchema = AnalysisRequestSchema.pick({
+  ticker: true,
+  windows: true,
+  estimation_window: true,
+  estimation_gap: true,
+  model: true,
+  bench: true,
+}).extend({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+});
+
+export type ProfileRequest = z.infer<typeof ProfileRequestSchema>;
+
+// 매크로 이벤트 스터디 요청 스키마 (/api/analyze/macro)
+export const MacroRequestSchema = AnalysisRequestSchema.omit({ events: true }).extend({
+  // "fomc,cpi,nfp" (쉼표 구분) 또는 배열, 기본 전체
+  types: z.union([z.string(), z.array(z.string())]).optional(),
+  measure: z.enum(['car', 'raw']).optional(),
+});
+
+export type MacroRequest = z.infer<typeof MacroRequestSchema>;
+
+// CAAR 집계 요청 스키마 (/api/analyze/aggregate)
+export const AggregateRequestSchema = z.object({
+  tickers: z.array(z.string().min(1).max(10)).min(1).max(50),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  bench: AnalysisRequestSchema.shape.bench,
+  windows: AnalysisRequestSchema.shape.windows,
+  estimation_window: z.number().int().optional(),
+  estimation_gap: z.number().int().optional(),
+  exclude_events: AnalysisRequestSchema.shape.exclude_events,
+  winsorize: AnalysisRequestSchema.shape.winsorize,
+  model: AnalysisRequestSchema.shape.model,
+  beta_method: AnalysisRequestSchema.shape.beta_method,
+  significance: AnalysisRequestSchema.shape.significance,
+  seed: AnalysisRequestSchema.shape.seed,
+  resamples: AnalysisRequestSchema.shape.resamples,
+  confounded: z.enum(['keep', 'drop', 'downweight']).optional(),
+  events: AnalysisRequestSchema.shape.events,
+});
+
+export type AggregateRequest = z.infer<typeof AggregateRequestSchema>;
+
+// 배치 분석 요청 스키마 (/api/analyze/batch)
+export const BatchAnalyzeRequestSchema = AggregateRequestSchema.extend({
+  tickers: z.array(z.string().min(1).max(10)).min(1),
+  concurrency: z.number().int().min(1).optional(),
+  nocache: z.boolean().optional(),
+}).omit({ confounded: true, events: true });
+
+export type BatchAnalyzeRequest = z.infer<typeof BatchAnalyzeRequestSchema>;
+
+// ERC 회귀 요청 스키마 (/api/analyze/erc)
+export const ErcRequestSchema = AggregateRequestSchema.extend({
+  window: z.union([z.string(), z.tuple([z.number().int(), z.number().int()])]).optional(),
+  surprise: z.enum(['sue_price', 'sue_sd', 'eps_surprise_pct', 'rev_surprise_pct']).optional(),
+}).omit({ windows: true, confounded: true, events: true, significance: true, seed: true, resamples: true });
+
+export type ErcRequest = z.infer<typeof ErcRequestSchema>;
+
+// PEAD 분위 요청 스키마 (/api/analyze/pead) — ERC와 같은 필드(단일 드리프트 윈도우, 서프라이즈 지표)
+export const PeadRequestSchema = ErcRequestSchema;
+
+export type PeadRequest = z.infer<typeof PeadRequestSchema>;
+
+// 피어 비교 요청 스키마 (/api/analyze/compare) — 2~10개 티커, 단일 윈도우
+export const CompareRequestSchema = ErcRequestSchema.omit({ surprise: true }).extend({
+  tickers: z.array(z.string().min(1).max(10)).min(2).max(10),
+});
+
+export type CompareRequest = z.infer<typeof CompareRequestSchema>;
+
+// 사용자 이벤트 스터디 요청 스키마 (/api/event-study)
+export const EventStudyRequestSchema = AnalysisRequestSchema.omit({
+  ticker: true,
+  from: true,
+  to: true,
+}).extend({
+  events: z.array(z.object({
+    ticker: z.string().min(1).max(10),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+    when: z.enum(['bmo', 'amc', 'dmh', 'unknown']).optional(),
+    label: z.string().max(100).optional(),
+  })).min(1),
+});
+
+export type EventStudyRequest = z.infer<typeof EventStudyRequestSchema>;
+
+export type BatchTickerError = {
+  code: string;      // ERR_NO_PRICES, ERR_RATE_LIMITED, ERR_INTERNAL, ...
+  status: number;    // HTTP status the single-ticker /api/analyze call would have returned
+  message?: string;
+};
+
+export type BatchTickerResult =
+  | { ticker: string; ok: true; data: AnalysisResponse }
+  | { ticker: string; ok: false; error: BatchTickerError };
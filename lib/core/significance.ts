@@ -0,0 +1,131 @@
+// lib/core/significance.ts
+// Empirical significance for single-event CARs from estimation-period abnormal returns.
+// - bootstrap:   sum of L residuals drawn with replacement
+// - permutation: pool estimation residuals with the event ARs, shuffle, sum the first L
+// Deterministic for a given seed (mulberry32), with a per-segment sub-seed so results don't depend on order.
+
+export type SignificanceMethod = 'bootstrap' | 'permutation';
+
+export type SignificanceSettings = {
+  method: SignificanceMethod;
+  seed: number;
+  resamples: number;
+};
+
+export type EmpiricalSignificance = {
+  method: SignificanceMethod;
+  p_value: number;       // two-sided: (1 + #{|null| ≥ |CAR|}) / (B + 1)
+  percentile: number;    // share of null CARs ≤ observed CAR (0-1)
+  resamples: number;
+  seed: number;          // sub-seed actually used for this segment
+  null_sd: number;
+};
+
+export const DEFAULT_SIGNIFICANCE_SEED = 42;
+export const DEFAULT_RESAMPLES = 2000;
+export const MIN_RESAMPLES = 100;
+export const MAX_RESAMPLES = 20000;
+const MIN_ESTIMATION_RESID = 20;
+
+export function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// FNV-1a mix of the base seed with a segment key (e.g. "2024-01-25|[-1,+5]")
+export function deriveSeed(seed: number, key: string): number {
+  let h = (2166136261 ^ (seed >>> 0)) >>> 0;
+  for (let i = 0; i < key.length; i++) {
+    h ^= key.charCodeAt(i);
+    h = Math.imul(h, 16777619) >>> 0;
+  }
+  return h >>> 0;
+}
+
+/**
+ * Validate significance query/body values. method null → disabled (returns null).
+ * Throws ERR_INVALID_SIGNIFICANCE.
+ */
+export function parseSignificanceSettings(
+  method: string | null | undefined,
+  seed?: number | string | null,
+  resamples?: number | string | null
+): SignificanceSettings | null {
+  if (method == null || method === '' || method === 'none') return null;
+  const m = method.trim().toLowerCase();
+  if (m !== 'bootstrap' && m !== 'permutation') throw new Error('ERR_INVALID_SIGNIFICANCE');
+  const toInt = (v: number | string | null | undefined, def: number) => {
+    if (v == null || v === '') return def;
+    const n = typeof v === 'number' ? v : Number(v);
+    if (!Number.isInteger(n)) throw new Error('ERR_INVALID_SIGNIFICANCE');
+    return n;
+  };
+  const s = toInt(seed, DEFAULT_SIGNIFICANCE_SEED);
+  const b = toInt(resamples, DEFAULT_RESAMPLES);
+  if (s < 0 || s > 0xffffffff || b < MIN_RESAMPLES || b > MAX_RESAMPLES) throw new Error('ERR_INVALID_SIGNIFICANCE');
+  return { method: m, seed: s, resamples: b };
+}
+
+/**
+ * Build the null distribution of L-day CARs and locate the observed CAR in it.
+ * Returns null when there are fewer than 20 estimation residuals or no event ARs.
+ */
+export function empiricalSignificance(
+  car: number,
+  eventARs: number[],
+  estResid: number[],
+  settings: SignificanceSettings,
+  key = ''
+): EmpiricalSignificance | null {
+  const L = eventARs.length;
+  if (L === 0 || estResid.length < MIN_ESTIMATION_RESID) return null;
+  const seed = deriveSeed(settings.seed, key);
+  const rand = mulberry32(seed);
+  const B = settings.resamples;
+
+  const nulls = new Array<number>(B);
+  if (settings.method === 'bootstrap') {
+    for (let b = 0; b < B; b++) {
+      let s = 0;
+      for (let j = 0; j < L; j++) s += estResid[Math.floor(rand() * estResid.length)];
+      nulls[b] = s;
+    }
+  } else {
+    const pool = [...estResid, ...eventARs];
+    for (let b = 0; b < B; b++) {
+      // partial Fisher-Yates: only the first L positions are needed
+      let s = 0;
+      for (let j = 0; j < L; j++) {
+        const k = j + Math.floor(rand() * (pool.length - j));
+        [pool[j], pool[k]] = [pool[k], pool[j]];
+        s += pool[j];
+      }
+      nulls[b] = s;
+    }
+  }
+
+  let extreme = 0;
+  let below = 0;
+  let sum = 0;
+  for (const v of nulls) {
+    if (Math.abs(v) >= Math.abs(car)) extreme++;
+    if (v <= car) below++;
+    sum += v;
+  }
+  const mean = sum / B;
+  const sd = Math.sqrt(nulls.reduce((s, v) => s + (v - mean) ** 2, 0) / (B - 1));
+  return {
+    method: settings.method,
+    p_value: (1 + extreme) / (B + 1),
+    percentile: below / B,
+    resamples: B,
+    seed,
+    null_sd: sd,
+  };
+}
@@ -1,6 +1,6 @@
 export function buildSourceUrls(
   ticker: string,
-  benchTicker: string,
+  benchTicker: string | string[],
   from: string,
   to: string,
   priceProviderLabel: string
@@ -8,6 +8,6 @@ export function buildSourceUrls(
   return [
     `finnhub://calendar/earnings?symbol=${ticker}&from=${from}&to=${to}`,
     `prices://${ticker}?provider=${priceProviderLabel}`,
-    `prices://${benchTicker}?provider=${priceProviderLabel}`,
+    ...(Array.isArray(benchTicker) ? benchTicker : [benchTicker]).map(b => `prices://${b}?provider=${priceProviderLabel}`),
   ];
 }
@@ -0,0 +1,121 @@
+// lib/core/surprise.ts
+// Earnings surprise / SUE per event.
+// - Expectation: consensus estimate when available, otherwise seasonal random walk (same quarter a year earlier)
+// - SUE: surprise scaled by pre-announcement price, and by the SD of the ticker's prior surprises
+
+export type ExpectationModel = 'consensus' | 'seasonal_random_walk';
+
+export type SurpriseInput = {
+  date: string;                 // announcement date (YYYY-MM-DD)
+  eps: number | null;           // GAAP diluted EPS (split-adjusted)
+  revenue: number | null;
+  epsEstimate?: number | null;
+  revenueEstimate?: number | null;
+  // actual EPS on the estimate's basis (vendor/street); used against consensus when present
+  epsActualVendor?: number | null;
+};
+
+export type EarningsSurprise = {
+  eps_expected: number | null;
+  eps_surprise: number | null;
+  eps_surprise_pct: number | null;     // surprise / |expected|
+  rev_expected: number | null;
+  rev_surprise: number | null;
+  rev_surprise_pct: number | null;
+  sue_price: number | null;            // EPS surprise / price before the announcement
+  sue_sd: number | null;               // EPS surprise / SD of prior surprises (≥ SUE_MIN_HISTORY quarters)
+  expectation_model: ExpectationModel | null;
+  rev_expectation_model: ExpectationModel | null;
+};
+
+export const SUE_HISTORY = 8;
+export const SUE_MIN_HISTORY = 4;
+
+const DAY_MS = 24 * 3600 * 1000;
+
+// Same fiscal quarter one year earlier: closest event to t−365d within ±60d
+function findPriorYear<T extends { date: string }>(rows: T[], idx: number): T | undefined {
+  const target = new Date(rows[idx].date).getTime() - 365 * DAY_MS;
+  let best: T | undefined;
+  let bestGap = 60 * DAY_MS;
+  for (let i = idx - 1; i >= 0; i--) {
+    const ts = new Date(rows[i].date).getTime();
+    if (ts < target - 60 * DAY_MS) break;
+    const gap = Math.abs(ts - target);
+    if (gap <= bestGap) { best = rows[i]; bestGap = gap; }
+  }
+  return best;
+}
+
+function pct(surprise: number | null, expected: number | null): number | null {
+  if (surprise === null || expected === null || expected === 0) return null;
+  return surprise / Math.abs(expected);
+}
+
+/**
+ * Compute surprises for every event. `priceBefore(date)` should return the last close strictly
+ * before the announcement (split-adjusted, same basis as EPS). Result is keyed by event date.
+ */
+export function computeEarningsSurprises(
+  events: SurpriseInput[],
+  priceBefore: (date: string) => number | null
+): Map<string, EarningsSurprise> {
+  const rows = [...events].sort((a, b) => a.date.localeCompare(b.date));
+  const out = new Map<string, EarningsSurprise>();
+  const history: number[] = [];
+
+  rows.forEach((row, idx) => {
+    const prior = findPriorYear(rows, idx);
+
+    let eps_expected: number | null = null;
+    let epsActual: number | null = null;
+    let expectation_model: ExpectationModel | null = null;
+    if (typeof row.epsEstimate === 'number') {
+      eps_expected = row.epsEstimate;
+      epsActual = typeof row.epsActualVendor === 'number' ? row.epsActualVendor : row.eps;
+      expectation_model = 'consensus';
+    } else if (prior && typeof prior.eps === 'number') {
+      eps_expected = prior.eps;
+      epsActual = row.eps;
+      expectation_model = 'seasonal_random_walk';
+    }
+    const eps_surprise = typeof epsActual === 'number' && eps_expected !== null ? epsActual - eps_expected : null;
+
+    let rev_expected: number | null = null;
+    let rev_expectation_model: ExpectationModel | null = null;
+    if (typeof row.revenueEstimate === 'number') {
+      rev_expected = row.revenueEstimate;
+      rev_expectation_model = 'consensus';
+    } else if (prior && typeof prior.revenue === 'number') {
+      rev_expected = prior.revenue;
+      rev_expectation_model = 'seasonal_random_walk';
+    }
+    const rev_surprise = typeof row.revenue === 'number' && rev_expected !== null ? row.revenue - rev_expected : null;
+
+    const price = priceBefore(row.date);
+    const sue_price = eps_surprise !== null && typeof price === 'number' && price > 0 ? eps_surprise / price : null;
+
+    let sue_sd: number | null = null;
+    if (eps_surprise !== null && history.length >= SUE_MIN_HISTORY) {
+      const recent = history.slice(-SUE_HISTORY);
+      const mean = recent.reduce((s, v) => s + v, 0) / recent.length;
+      const sd = Math.sqrt(recent.reduce((s, v) => s + (v - mean) ** 2, 0) / (recent.length - 1));
+      if (sd > 0) sue_sd = eps_surprise / sd;
+    }
+    if (eps_surprise !== null) history.push(eps_surprise);
+
+    out.set(row.date, {
+      eps_expected,
+      eps_surprise,
+      eps_surprise_pct: pct(eps_surprise, eps_expected),
+      rev_expected,
+      rev_surprise,
+      rev_surprise_pct: pct(rev_surprise, rev_expected),
+      sue_price,
+      sue_sd,
+      expectation_model,
+      rev_expectation_model,
+    });
+  });
+  return out;
+}
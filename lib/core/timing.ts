@@ -0,0 +1,48 @@
+// lib/core/timing.ts
+// Announcement-timing inference from the price reaction, for events with no BMO/AMC flag from any source.
+// Compares the announcement-date session with the next session:
+//   score = |AR| / σ_resid + max(0, abnormal log-volume z)
+// and picks the session with the larger score. Confidence = logistic(score gap), i.e. 0.5 (coin flip) .. 1.
+
+export type TimingSession = 'announcement_day' | 'next_day';
+
+export type TimingEvidence = {
+  ar: number | null;                // market-model abnormal return of the session
+  abn_volume_z: number | null;      // abnormal log-volume z (computeVolumeMetrics)
+};
+
+export type TimingInference = {
+  method: 'price_reaction';
+  session: TimingSession;           // inferred Day0 session
+  confidence: number;               // probability-like score of the chosen session (0.5-1)
+  score_announcement_day: number;
+  score_next_day: number;
+};
+
+function score(e: TimingEvidence, residSD: number): number | null {
+  if (e.ar === null || !isFinite(e.ar)) return null;
+  const volume = typeof e.abn_volume_z === 'number' && isFinite(e.abn_volume_z) ? Math.max(0, e.abn_volume_z) : 0;
+  return Math.abs(e.ar) / residSD + volume;
+}
+
+/**
+ * Returns null when either session lacks an abnormal return or the residual SD is unusable.
+ */
+export function inferTimingFromReaction(
+  announcementDay: TimingEvidence,
+  nextDay: TimingEvidence,
+  residSD: number
+): TimingInference | null {
+  if (!(residSD > 0)) return null;
+  const a = score(announcementDay, residSD);
+  const b = score(nextDay, residSD);
+  if (a === null || b === null) return null;
+  const gap = Math.abs(a - b);
+  return {
+    method: 'price_reaction',
+    session: a > b ? 'announcement_day' : 'next_day',
+    confidence: 1 / (1 + Math.exp(-gap)),
+    score_announcement_day: a,
+    score_next_day: b,
+  };
+}
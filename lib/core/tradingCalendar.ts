@@ -1,72 +1,206 @@
 // lib/core/tradingCalendar.ts
-// Minimal ET trading calendar helpers (weekend snap). Holidays optional.
+// Rule-based NYSE calendar (ET dates as YYYY-MM-DD strings, UTC date math).
+// - Holidays: New Year, MLK (1998+), Washington's Birthday, Good Friday, Memorial Day, Juneteenth (2022+),
+//   Independence Day, Labor Day, Thanksgiving, Christmas — Sat → Fri / Sun → Mon observance
+//   (New Year on a Saturday is not observed on Dec 31, per NYSE rule 7.2)
+// - Special closures: weather, 9/11, national days of mourning (1985+)
+// - 1pm early closes: Jul 3 (Mon-Thu), day after Thanksgiving, Dec 24 (Mon-Thu)
 
 export type SnapRule = 'same' | 'next' | 'prev';
 
-export function snapToTradingDayET(dateET: Date, rule: SnapRule): Date {
-  // Treat input as ET date (no tz conversion here). Snap weekends + minimal NYSE holidays.
-  let d = new Date(Date.UTC(dateET.getFullYear(), dateET.getMonth(), dateET.getDate()));
-  let day = d.getUTCDay(); // 0 Sun .. 6 Sat
-
-  if (rule === 'same') {
-    if (day === 0) return addDaysUTC(d, 1); // Sun -> Mon
-    if (day === 6) return addDaysUTC(d, 2); // Sat -> Mon
-    d = applyHolidaySnap(d, 'same');
-    return d;
-  }
+export type SessionPhase = 'pre' | 'open' | 'post' | 'closed';
+
+/** Announcement timing flag derived from a session phase (bmo = before open, dmh = during market hours, amc = after close). */
+export type SessionWhen = 'bmo' | 'dmh' | 'amc';
+
+export const SESSION_OPEN_ET = '09:30';
+export const SESSION_CLOSE_ET = '16:00';
+export const EARLY_CLOSE_ET = '13:00';
+
+// Unscheduled full-day closures
+export const SPECIAL_CLOSURES: Record<string, string> = {
+  '1985-09-27': 'Hurricane Gloria',
+  '1994-04-27': 'Funeral of President Nixon',
+  '2001-09-11': 'September 11 attacks',
+  '2001-09-12': 'September 11 attacks',
+  '2001-09-13': 'September 11 attacks',
+  '2001-09-14': 'September 11 attacks',
+  '2004-06-11': 'Funeral of President Reagan',
+  '2007-01-02': 'Funeral of President Ford',
+  '2012-10-29': 'Hurricane Sandy',
+  '2012-10-30': 'Hurricane Sandy',
+  '2018-12-05': 'Funeral of President George H.W. Bush',
+  '2025-01-09': 'Funeral of President Carter',
+};
+
+const DAY_MS = 86400000;
 
-  if (rule === 'next') {
-    if (day === 5) return addDaysUTC(d, 3); // Fri next -> Mon
-    if (day === 6) return addDaysUTC(d, 2); // Sat -> Mon
-    if (day === 0) return addDaysUTC(d, 1); // Sun -> Mon
-    d = addDaysUTC(d, 1);
-    return applyHolidaySnap(d, 'next');
+function toISO(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+function parseISO(iso: string): Date {
+  return new Date(`${iso.slice(0, 10)}T00:00:00Z`);
+}
+
+function addDaysISO(iso: string, days: number): string {
+  return toISO(new Date(parseISO(iso).getTime() + days * DAY_MS));
+}
+
+function ymd(year: number, month: number, day: number): string {
+  return toISO(new Date(Date.UTC(year, month - 1, day)));
+}
+
+// n-th weekday (0=Sun..6=Sat) of a month; n = -1 for the last one
+function nthWeekday(year: number, month: number, weekday: number, n: number): string {
+  if (n > 0) {
+    const first = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+    return ymd(year, month, 1 + ((weekday - first + 7) % 7) + (n - 1) * 7);
   }
+  const lastDay = new Date(Date.UTC(year, month, 0));
+  const back = (lastDay.getUTCDay() - weekday + 7) % 7;
+  return ymd(year, month, lastDay.getUTCDate() - back);
+}
+
+// Gregorian Easter Sunday (anonymous algorithm)
+function easterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return ymd(year, month, day);
+}
 
-  // prev
-  if (day === 1) return addDaysUTC(d, -3); // Mon prev -> Fri
-  if (day === 0) return addDaysUTC(d, -2); // Sun -> Fri
-  if (day === 6) return addDaysUTC(d, -1); // Sat -> Fri
-  d = addDaysUTC(d, -1);
-  return applyHolidaySnap(d, 'prev');
+// Fixed-date holiday observed on Friday when on Saturday, Monday when on Sunday
+function observed(iso: string): string {
+  const wd = parseISO(iso).getUTCDay();
+  if (wd === 6) return addDaysISO(iso, -1);
+  if (wd === 0) return addDaysISO(iso, 1);
+  return iso;
 }
 
-function addDaysUTC(d: Date, days: number): Date {
-  const r = new Date(d);
-  r.setUTCDate(r.getUTCDate() + days);
-  return r;
+const holidayCache = new Map<number, Map<string, string>>();
+
+/**
+ * Scheduled NYSE holidays for a year (observed dates → name).
+ */
+export function nyseHolidays(year: number): Map<string, string> {
+  const cached = holidayCache.get(year);
+  if (cached) return cached;
+  const out = new Map<string, string>();
+  const newYear = ymd(year, 1, 1);
+  if (parseISO(newYear).getUTCDay() !== 6) out.set(observed(newYear), "New Year's Day");
+  if (year >= 1998) out.set(nthWeekday(year, 1, 1, 3), 'Martin Luther King Jr. Day');
+  out.set(nthWeekday(year, 2, 1, 3), "Washington's Birthday");
+  out.set(addDaysISO(easterSunday(year), -2), 'Good Friday');
+  out.set(nthWeekday(year, 5, 1, -1), 'Memorial Day');
+  if (year >= 2022) out.set(observed(ymd(year, 6, 19)), 'Juneteenth');
+  out.set(observed(ymd(year, 7, 4)), 'Independence Day');
+  out.set(nthWeekday(year, 9, 1, 1), 'Labor Day');
+  out.set(nthWeekday(year, 11, 4, 4), 'Thanksgiving Day');
+  out.set(observed(ymd(year, 12, 25)), 'Christmas Day');
+  holidayCache.set(year, out);
+  return out;
 }
 
-// Minimal NYSE holiday set (observed) for snap: New Year (Jan 1), Independence Day (Jul 4), Christmas (Dec 25)
-function isMinimalHolidayET(d: Date): boolean {
-  const m = d.getUTCMonth() + 1;
+/**
+ * Why the exchange is closed on a weekday, or null when it trades (weekends return 'Weekend').
+ */
+export function closureReason(iso: string): string | null {
+  const wd = parseISO(iso).getUTCDay();
+  if (wd === 0 || wd === 6) return 'Weekend';
+  return nyseHolidays(Number(iso.slice(0, 4))).get(iso.slice(0, 10)) ?? SPECIAL_CLOSURES[iso.slice(0, 10)] ?? null;
+}
+
+export function isTradingDay(iso: string): boolean {
+  return closureReason(iso) === null;
+}
+
+export function isEarlyClose(iso: string): boolean {
+  if (!isTradingDay(iso)) return false;
+  const d = parseISO(iso);
+  const month = d.getUTCMonth() + 1;
   const day = d.getUTCDate();
-  // observe on nearest weekday when on weekend
-  const weekday = d.getUTCDay();
-  // New Year
-  if ((m === 1 && day === 1) || (m === 12 && day === 31 && weekday === 5)) return true; // Jan 1 or Dec 31 (Fri observed)
-  // Independence Day
-  if ((m === 7 && day === 4) || (m === 7 && day === 5 && weekday === 1) || (m === 7 && day === 3 && weekday === 5)) return true;
-  // Christmas
-  if ((m === 12 && day === 25) || (m === 12 && day === 26 && weekday === 1) || (m === 12 && day === 24 && weekday === 5)) return true;
-  return false;
-}
-
-function applyHolidaySnap(d: Date, rule: SnapRule): Date {
-  if (!isMinimalHolidayET(d)) return d;
-  if (rule === 'prev') {
-    let r = addDaysUTC(d, -1);
-    while (isMinimalHolidayET(r) || r.getUTCDay() === 0 || r.getUTCDay() === 6) {
-      r = addDaysUTC(r, -1);
-    }
-    return r;
-  }
-  // same/next -> forward
-  let r = addDaysUTC(d, 1);
-  while (isMinimalHolidayET(r) || r.getUTCDay() === 0 || r.getUTCDay() === 6) {
-    r = addDaysUTC(r, 1);
-  }
-  return r;
+  const wd = d.getUTCDay();
+  if (month === 7 && day === 3 && wd >= 1 && wd <= 4) return true;
+  if (month === 12 && day === 24 && wd >= 1 && wd <= 4) return true;
+  return iso.slice(0, 10) === addDaysISO(nthWeekday(d.getUTCFullYear(), 11, 4, 4), 1);
+}
+
+/**
+ * Regular close time ("HH:MM" ET) of the session on `iso`, or null when the market is closed.
+ */
+export function sessionClose(iso: string): string | null {
+  if (!isTradingDay(iso)) return null;
+  return isEarlyClose(iso) ? EARLY_CLOSE_ET : SESSION_CLOSE_ET;
+}
+
+const toMinutes = (hhmm: string) => parseInt(hhmm.slice(0, 2), 10) * 60 + parseInt(hhmm.slice(3, 5), 10);
+
+/**
+ * Where an ET clock time (minutes after midnight) falls relative to that day's session.
+ */
+export function sessionPhaseET(iso: string, minutesET: number): SessionPhase {
+  const close = sessionClose(iso);
+  if (!close) return 'closed';
+  if (minutesET < toMinutes(SESSION_OPEN_ET)) return 'pre';
+  return minutesET < toMinutes(close) ? 'open' : 'post';
+}
+
+/**
+ * Session phase of an ET wall-clock timestamp ("YYYY-MM-DDTHH:MM[:SS]"), e.g. EDGAR acceptanceDateTime.
+ */
+export function sessionPhaseAtET(dateTimeET: string): { date: string; phase: SessionPhase } | null {
+  const m = dateTimeET.match(/^(\d{4}-\d{2}-\d{2})[T ](\d{2}):(\d{2})/);
+  if (!m) return null;
+  return { date: m[1], phase: sessionPhaseET(m[1], parseInt(m[2], 10) * 60 + parseInt(m[3], 10)) };
 }
 
+/**
+ * Single phase → timing mapping for acceptance timestamps, press-release times and macro releases.
+ * A closed day counts as after the close: the next session is the first to trade on it.
+ */
+export function whenFromSessionPhase(phase: SessionPhase): SessionWhen {
+  return phase === 'pre' ? 'bmo' : phase === 'open' ? 'dmh' : 'amc';
+}
+
+export function nextTradingDay(iso: string, opts: { includeSameDay?: boolean } = {}): string {
+  let d = opts.includeSameDay ? iso.slice(0, 10) : addDaysISO(iso, 1);
+  while (!isTradingDay(d)) d = addDaysISO(d, 1);
+  return d;
+}
+
+export function prevTradingDay(iso: string, opts: { includeSameDay?: boolean } = {}): string {
+  let d = opts.includeSameDay ? iso.slice(0, 10) : addDaysISO(iso, -1);
+  while (!isTradingDay(d)) d = addDaysISO(d, -1);
+  return d;
+}
 
+/**
+ * NYSE sessions in [from, to] (inclusive, ascending); empty when from > to.
+ */
+export function tradingDaysBetween(from: string, to: string): string[] {
+  const out: string[] = [];
+  for (let d = from.slice(0, 10); d <= to.slice(0, 10); d = addDaysISO(d, 1)) {
+    if (isTradingDay(d)) out.push(d);
+  }
+  return out;
+}
+
+export function snapToTradingDayET(dateET: Date, rule: SnapRule): Date {
+  // Treat input as ET date (no tz conversion here)
+  const iso = toISO(new Date(Date.UTC(dateET.getFullYear(), dateET.getMonth(), dateET.getDate())));
+  if (rule === 'same') return parseISO(nextTradingDay(iso, { includeSameDay: true }));
+  if (rule === 'next') return parseISO(nextTradingDay(iso));
+  return parseISO(prevTradingDay(iso));
+}
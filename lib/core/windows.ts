@@ -0,0 +1,147 @@
+// lib/core/windows.ts
+// Event-window / estimation-window settings shared by analyze routes.
+
+export type EventWindow = { window: [number, number]; label: string };
+
+export type EstimationSettings = {
+  length: number; // trading days used for the market-model regression
+  gap: number;    // extra trading days between the end of estimation and the earliest window start (see effectiveEstimationGap)
+  excludeEvents: boolean; // drop other events' [-2,+2] days (breakpoints, 8-K filings) from estimation
+  winsorize: number;      // tail share clamped on each side of estimation returns (0 = off)
+};
+
+export const MAX_WINDOWS = 10;
+export const MAX_WINDOW_OFFSET = 250;
+
+export const DEFAULT_ESTIMATION: EstimationSettings = { length: 252, gap: 0, excludeEvents: true, winsorize: 0 };
+export const MAX_WINSORIZE = 0.1;
+// estimation days left after event exclusion below which segments are flagged estimation_short
+export const MIN_ESTIMATION_OBS = 60;
+
+export function formatWindowLabel(window: [number, number]): string {
+  const fmt = (n: number) => (n > 0 ? `+${n}` : `${n}`);
+  return `[${fmt(window[0])},${fmt(window[1])}]`;
+}
+
+export const DEFAULT_WINDOWS: EventWindow[] = [
+  { window: [-1, 5], label: formatWindowLabel([-1, 5]) },
+  { window: [-5, 20], label: formatWindowLabel([-5, 20]) },
+];
+
+/**
+ * Parse a window spec such as "-20:-1,0:1,2:60" (or an array of [start,end] tuples)
+ * into validated event windows. Throws ERR_INVALID_WINDOWS on malformed input.
+ */
+export function parseEventWindows(spec: string | Array<[number, number]> | null | undefined): EventWindow[] {
+  if (spec == null || (typeof spec === 'string' && spec.trim() === '')) return DEFAULT_WINDOWS;
+
+  const pairs: Array<[number, number]> = typeof spec === 'string'
+    ? spec.split(',').map(part => {
+        const m = part.trim().match(/^\[?\s*([+-]?\d+)\s*[:;]\s*([+-]?\d+)\s*\]?$/);
+        if (!m) throw new Error('ERR_INVALID_WINDOWS');
+        return [parseInt(m[1], 10), parseInt(m[2], 10)] as [number, number];
+      })
+    : spec;
+
+  if (pairs.length === 0 || pairs.length > MAX_WINDOWS) throw new Error('ERR_INVALID_WINDOWS');
+
+  const seen = new Set<string>();
+  const out: EventWindow[] = [];
+  for (const [start, end] of pairs) {
+    if (!Number.isInteger(start) || !Number.isInteger(end)) throw new Error('ERR_INVALID_WINDOWS');
+    if (start >= end) throw new Error('ERR_INVALID_WINDOWS');
+    if (Math.abs(start) > MAX_WINDOW_OFFSET || Math.abs(end) > MAX_WINDOW_OFFSET) throw new Error('ERR_INVALID_WINDOWS');
+    const label = formatWindowLabel([start, end]);
+    if (seen.has(label)) continue;
+    seen.add(label);
+    out.push({ window: [start, end], label });
+  }
+  return out;
+}
+
+/**
+ * One window for single-window routes (ERC, PEAD, compare): "start:end" or a [start, end] tuple,
+ * `fallback` when omitted. Throws ERR_INVALID_WINDOWS for a list.
+ */
+export function parseSingleWindow(
+  spec: string | [number, number] | null | undefined,
+  fallback: [number, number] = DEFAULT_WINDOWS[0].window
+): EventWindow {
+  if (spec == null || (typeof spec === 'string' && spec.trim() === '')) return { window: fallback, label: formatWindowLabel(fallback) };
+  if (typeof spec === 'string' && spec.includes(',')) throw new Error('ERR_INVALID_WINDOWS');
+  return parseEventWindows(Array.isArray(spec) ? [spec] : spec)[0];
+}
+
+/**
+ * Validate estimation length/gap (+ event exclusion, winsorize share 0-0.1), falling back to defaults when omitted.
+ * Throws ERR_INVALID_ESTIMATION when out of range.
+ */
+export function parseEstimationSettings(
+  length?: number | string | null,
+  gap?: number | string | null,
+  excludeEvents?: boolean | string | null,
+  winsorize?: number | string | null
+): EstimationSettings {
+  const toInt = (v: number | string | null | undefined): number | undefined => {
+    if (v === null || v === undefined || v === '') return undefined;
+    const n = typeof v === 'number' ? v : Number(v);
+    if (!Number.isInteger(n)) throw new Error('ERR_INVALID_ESTIMATION');
+    return n;
+  };
+  const len = toInt(length) ?? DEFAULT_ESTIMATION.length;
+  const g = toInt(gap) ?? DEFAULT_ESTIMATION.gap;
+  if (len < 30 || len > 1000) throw new Error('ERR_INVALID_ESTIMATION');
+  if (g < 0 || g > MAX_WINDOW_OFFSET) throw new Error('ERR_INVALID_ESTIMATION');
+
+  let exclude = DEFAULT_ESTIMATION.excludeEvents;
+  if (typeof excludeEvents === 'boolean') exclude = excludeEvents;
+  else if (excludeEvents != null && excludeEvents !== '') {
+    const s = excludeEvents.trim().toLowerCase();
+    if (s === '1' || s === 'true') exclude = true;
+    else if (s === '0' || s === 'false') exclude = false;
+    else throw new Error('ERR_INVALID_ESTIMATION');
+  }
+
+  let w = DEFAULT_ESTIMATION.winsorize;
+  if (winsorize != null && winsorize !== '') {
+    w = typeof winsorize === 'number' ? winsorize : Number(winsorize);
+    if (!Number.isFinite(w) || w < 0 || w > MAX_WINSORIZE) throw new Error('ERR_INVALID_ESTIMATION');
+  }
+  return { length: len, gap: g, excludeEvents: exclude, winsorize: w };
+}
+
+/**
+ * Trading days between the end of estimation and Day0 for an event with these windows: `gap` counted
+ * back from the earliest window start (Day0 at the latest), so neither the Day0 return nor pre-event
+ * window days enter the estimation regression. One value per event, shared by all its windows.
+ */
+export function effectiveEstimationGap(estimation: EstimationSettings, windows: EventWindow[]): number {
+  return estimation.gap + Math.max(1, ...windows.map(w => -w.window[0]));
+}
+
+/**
+ * Estimation days below which a segment is flagged estimation_short (MIN_ESTIMATION_OBS, or half
+ * the requested length for short estimation windows).
+ */
+export function minEstimationObs(estimation: EstimationSettings): number {
+  return Math.min(MIN_ESTIMATION_OBS, Math.floor(estimation.length / 2));
+}
+
+// Optional per-window response extras (include=path)
+export type AnalyzeInclude = 'path';
+
+export const ANALYZE_INCLUDES: AnalyzeInclude[] = ['path'];
+
+/**
+ * Parse include=path (comma-separated string or array). Throws ERR_INVALID_INCLUDE on unknown parts.
+ */
+export function parseIncludeSpec(spec: string | string[] | null | undefined): Set<AnalyzeInclude> {
+  const out = new Set<AnalyzeInclude>();
+  if (spec == null) return out;
+  const parts = (typeof spec === 'string' ? spec.split(',') : spec).map(s => s.trim().toLowerCase()).filter(Boolean);
+  for (const p of parts) {
+    if (!(ANALYZE_INCLUDES as string[]).includes(p)) throw new Error('ERR_INVALID_INCLUDE');
+    out.add(p as AnalyzeInclude);
+  }
+  return out;
+}
@@ -0,0 +1,42 @@
+/**
+ * Macro event calendar: FOMC statements, CPI releases and Employment Situation (jobs report) releases
+ * with their US Eastern release times.
+ *
+ * Data sources: federalreserve.gov FOMC calendars, bls.gov release schedules (see `sources` in the JSON)
+ * Bump `version` in macro-events.json whenever dates are added or corrected.
+ */
+
+import calendarData from './macro-events.json';
+
+export type MacroEventType = 'fomc' | 'cpi' | 'nfp';
+
+export interface MacroEvent {
+  type: MacroEventType;
+  date: string;              // release date (ET, YYYY-MM-DD)
+  time_et: string;           // release time (ET, HH:MM)
+  label: string;
+  reference_period?: string; // data month for CPI / jobs report (YYYY-MM)
+}
+
+export interface MacroCalendar {
+  version: string;
+  updated: string;
+  coverage: { from: string; to: string };
+  sources: Record<MacroEventType, string>;
+  notes: string[];
+  events: MacroEvent[];
+}
+
+export const MACRO_EVENT_TYPES: MacroEventType[] = ['fomc', 'cpi', 'nfp'];
+
+/**
+ * Bundled calendar loaded from JSON, sorted by date and release time
+ */
+export const MACRO_CALENDAR: MacroCalendar = calendarData as MacroCalendar;
+
+/**
+ * Events of the given types released within [from, to] (inclusive, YYYY-MM-DD)
+ */
+export function getMacroEvents(types: MacroEventType[], from: string, to: string): MacroEvent[] {
+  return MACRO_CALENDAR.events.filter(e => types.includes(e.type) && e.date >= from && e.date <= to);
+}
@@ -158,6 +158,8 @@ export async function fetchFinnhubEarnings(ticker: string, from: string, to: str
         when: (entry.time || entry.hour) === 'bmo' || (entry.time || entry.hour) === 'amc' || (entry.time || entry.hour) === 'dmh' ? (entry.time || entry.hour) as 'bmo' | 'amc' | 'dmh' : 'unknown',
         eps: typeof entry.epsActual === 'number' ? entry.epsActual : null,
         revenue: typeof entry.revenueActual === 'number' ? entry.revenueActual : null,
+        epsEstimate: typeof entry.epsEstimate === 'number' ? entry.epsEstimate : null,
+        revenueEstimate: typeof entry.revenueEstimate === 'number' ? entry.revenueEstimate : null,
       }));
     };
 
@@ -214,9 +216,13 @@ export async function fetchFinnhubPrices(ticker: string, from: string, to: strin
 
       const timestamps: number[] = json.t;
       const closes: number[] = json.c;
+      const num = (arr: unknown, index: number): number | undefined => {
+        const v = Array.isArray(arr) ? arr[index] : undefined;
+        return typeof v === 'number' && isFinite(v) ? v : undefined;
+      };
 
       const rows = timestamps
-        .map((timestamp, index) => {
+        .map((timestamp, index): PriceData | null => {
           const close = closes[index];
           if (typeof close !== 'number' || !isFinite(close)) {
             return null;
@@ -230,6 +236,11 @@ export async function fetchFinnhubPrices(ticker: string, from: string, to: strin
           return {
             date,
             adjClose: close,
+            open: num(json.o, index),
+            high: num(json.h, index),
+            low: num(json.l, index),
+            close,
+            volume: num(json.v, index),
           } satisfies PriceData;
         })
         .filter((value): value is PriceData => Boolean(value));
@@ -238,7 +249,7 @@ export async function fetchFinnhubPrices(ticker: string, from: string, to: strin
 
     try {
       const rows = await fetchWithRetry(url, parser, {
-        cacheKey: `finnhub:prices:${symbol}:${from}:${to}`,
+        cacheKey: `finnhub:prices:v2:${symbol}:${from}:${to}`,
         ttlSeconds: 60 * 60,
         logLabel: 'prices',
         skipCache: opts?.noCache === true,
@@ -23,6 +23,7 @@ function sleep(ms: number) {
 }
 // Debug logger (gate noisy logs behind env)
 import { isDebugFlag, debugLog } from '@/lib/core/debug';
+import { sessionPhaseAtET, whenFromSessionPhase } from '@/lib/core/tradingCalendar';
 
 function parseUSD(s: string): number | null {
   const m = s.trim().match(/\$?\s*([0-9][0-9,]*\.?[0-9]*)\s*(billion|million|thousand|bn|b|m|mm|k)?/i);
@@ -293,6 +294,8 @@ export interface NormalizedSECFiling {
   is_amendment: boolean;
   amends: string | null;
   urls: { index: string; primary: string };
+  // EDGAR acceptanceDateTime as ET wall clock ("YYYY-MM-DDTHH:MM:SS"); absent for full-index filings
+  accepted_at?: string | null;
   items: string[]; // 8-K item codes, e.g., ["2.02","7.01"]
   event_types: string[]; // normalized event types
   sections: {
@@ -317,6 +320,7 @@ type RawRecentFiling = {
   form: string;
   accession: string;
   filingDate: string;
+  acceptanceDateTime?: string; // submissions JSON; ET despite the trailing "Z"
   reportDate?: string;
   primaryDocument: string;
   size?: number;
@@ -437,8 +441,11 @@ export async function fetchEarningsCalendar(
       const epsActual = epsMatch ? parseFloat(epsMatch[1]) : null;
       const revenueActual = revenueMatch ? parseUSD(`${revenueMatch[2]} ${revenueMatch[4]||''}`) : null;
       
-      // Hour 추정
-      const hour = extractHourFlag(pressText);
+      // Hour 추정: EDGAR 접수 시각(세션 캘린더 기준) 우선, 없으면 본문 문구
+      const accepted = k8.acceptanceDateTime ? sessionPhaseAtET(k8.acceptanceDateTime) : null;
+      const hour = accepted && accepted.date === eventDate
+        ? whenFromSessionPhase(accepted.phase)
+        : extractHourFlag(pressText);
       
       // Quarter 계산
       const quarterEndDate = new Date(quarterEnd);
@@ -694,11 +701,56 @@ export async function getTickerAliasesFromSEC(ticker: string): Promise<string[]>
   }
 }
 
+// ---------- Company profile (SIC) ----------
+export type SECCompanyProfile = {
+  cik: string;
+  name: string | null;
+  sic: string | null;          // 4-digit SIC code
+  sicDescription: string | null;
+  fiscalYearEnd: string | null; // MMDD, e.g. "0128" (52/53-week years end near that date)
+};
+
+function companyProfileKey(cik: string) {
+  return `sec:company:v2:${cik.padStart(10, '0')}`;
+}
+
+// submissions JSON을 받을 때마다 SIC 프로필을 함께 캐시 (bench=auto 재사용)
+async function cacheCompanyProfile(cik: string, data: any): Promise<SECCompanyProfile> {
+  const profile: SECCompanyProfile = {
+    cik: cik.padStart(10, '0'),
+    name: data?.name || null,
+    sic: data?.sic ? String(data.sic) : null,
+    sicDescription: data?.sicDescription || null,
+    fiscalYearEnd: /^\d{4}$/.test(String(data?.fiscalYearEnd ?? '')) ? String(data.fiscalYearEnd) : null,
+  };
+  try {
+    await CacheService.setex(companyProfileKey(cik), 7 * 86400, JSON.stringify(profile));
+  } catch {}
+  return profile;
+}
+
+/**
+ * 티커의 SEC 회사 프로필(SIC 코드 포함). fetchRawSECReports가 캐시한 값을 우선 사용하고,
+ * 없으면 submissions JSON을 한 번 조회한다. CIK를 찾지 못하면 null.
+ */
+export async function getCompanyProfileFromSEC(ticker: string): Promise<SECCompanyProfile | null> {
+  let cik = getCIKForTicker(ticker);
+  if (!cik) cik = await getCIKFromTicker(ticker);
+  if (!cik) return null;
+
+  const cached = await CacheService.get(companyProfileKey(cik));
+  if (cached) return JSON.parse(cached);
+
+  const res = await secFetch(`${SEC_BASE}/submissions/CIK${cik.padStart(10, '0')}.json`);
+  return cacheCompanyProfile(cik, await res.json());
+}
+
 // ---------- Raw filings (submissions) ----------
 async function fetchRawSECReports(cik: string, from: string, to: string, ticker?: string): Promise<RawRecentFiling[]> {
   const url = `${SEC_BASE}/submissions/CIK${cik.padStart(10, '0')}.json`;
   const res = await secFetch(url);
   const data = await res.json();
+  await cacheCompanyProfile(cik, data);
   const fromDt = new Date(from);
   const toDt = new Date(to);
 
@@ -706,6 +758,7 @@ async function fetchRawSECReports(cik: string, from: string, to: string, ticker?
   const forms: string[] = filings.form || [];
   const accessions: string[] = filings.accessionNumber || [];
   const filingDate: string[] = filings.filingDate || [];
+  const acceptance: string[] = filings.acceptanceDateTime || [];
   const reportDate: string[] = filings.reportDate || filings.periodOfReport || [];
   const primaryDoc: string[] = filings.primaryDocument || [];
 
@@ -724,6 +777,7 @@ async function fetchRawSECReports(cik: string, from: string, to: string, ticker?
       form: f,
       accession: accessions[i],
       filingDate: filingDate[i],
+      acceptanceDateTime: acceptance[i],
       reportDate: reportDate?.[i],
       primaryDocument: primaryDoc?.[i] || 'index.html',
       size: filings.size?.[i],
@@ -747,6 +801,7 @@ async function fetchRawSECReports(cik: string, from: string, to: string, ticker?
       const shardForms: string[] = shardFilings.form || [];
       const shardAccessions: string[] = shardFilings.accessionNumber || [];
       const shardFilingDate: string[] = shardFilings.filingDate || [];
+      const shardAcceptance: string[] = shardFilings.acceptanceDateTime || [];
       const shardReportDate: string[] = shardFilings.reportDate || shardFilings.periodOfReport || [];
       const shardPrimaryDoc: string[] = shardFilings.primaryDocument || [];
       
@@ -761,6 +816,7 @@ async function fetchRawSECReports(cik: string, from: string, to: string, ticker?
           form: f,
           accession: shardAccessions[i],
           filingDate: shardFilingDate[i],
+          acceptanceDateTime: shardAcceptance[i],
           reportDate: shardReportDate?.[i],
           primaryDocument: shardPrimaryDoc?.[i] || 'index.html',
           size: shardFilings.size?.[i],
@@ -1111,6 +1167,7 @@ async function normalizeSECFiling(
     form: raw.form as any,
     accession: raw.accession,
     filed_at: raw.filingDate ? new Date(raw.filingDate).toISOString() : new Date().toISOString(),
+    accepted_at: raw.acceptanceDateTime ? raw.acceptanceDateTime.replace(/(\.\d+)?Z$/, '') : null,
     period_of_report: toISODate(raw.reportDate) || null,
     event_date: parsed.event_date || toISODate(raw.reportDate) || toISODate(raw.filingDate),
     is_amendment: isAmend,
@@ -40,7 +40,7 @@ async function fetchYahooAdjPrices(
   to: string,
   opts?: { noCache?: boolean }
 ): Promise<PriceData[]> {
-  const cacheKey = `yahoo_prices:${ticker}:${from}:${to}`;
+  const cacheKey = `yahoo_prices:v2:${ticker}:${from}:${to}`;
 
   if (!opts?.noCache) {
     const cached = await CacheService.get(cacheKey);
@@ -76,15 +76,26 @@ async function fetchYahooAdjPrices(
   const result = data.chart.result[0];
   const timestamps = result.timestamp;
   const adjClose = result.indicators.adjclose[0].adjclose;
+  const quote = result.indicators.quote?.[0] || {};
 
   if (!timestamps || !adjClose) {
     throw new Error('No price data found');
   }
 
+  const num = (arr: unknown, index: number): number | undefined => {
+    const v = Array.isArray(arr) ? arr[index] : undefined;
+    return typeof v === 'number' && isFinite(v) ? v : undefined;
+  };
+
   const prices: PriceData[] = timestamps
     .map((timestamp: number, index: number) => ({
       date: new Date(timestamp * 1000).toISOString().split('T')[0],
-      adjClose: adjClose[index]
+      adjClose: adjClose[index],
+      open: num(quote.open, index),
+      high: num(quote.high, index),
+      low: num(quote.low, index),
+      close: num(quote.close, index),
+      volume: num(quote.volume, index),
     }))
     .filter((price: PriceData) => price.adjClose !== null && !isNaN(price.adjClose));
 
@@ -260,6 +271,7 @@ export async function fetchEarnings(
               if (bestIdx >= 0) {
                 const a = alphaList[bestIdx];
                 return {
+                  ...row,
                   date: row.date,
                   when: row.when,
                   eps: row.eps ?? a.eps ?? null,
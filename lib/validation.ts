@@ -52,6 +52,21 @@ export const ChatResponseSchema = z.object({
   error: z.string().optional(),
 });
 
+// YYYY-MM-DD 형식 + 1900~2100 연도 + 실제 존재하는 날짜인지 검증
+export function isValidISODate(date: string): boolean {
+  const m = date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!m) return false;
+  const year = Number(m[1]);
+  const month = Number(m[2]);
+  const day = Number(m[3]);
+  if (!Number.isInteger(year) || year < 1900 || year > 2100) return false;
+  if (month < 1 || month > 12) return false;
+  if (day < 1 || day > 31) return false;
+  const d = new Date(date);
+  if (isNaN(d.getTime())) return false;
+  return d.toISOString().slice(0, 10) === date;
+}
+
 // 타입 추출
 export type CreateUserRequest = z.infer<typeof CreateUserSchema>;
 export type CreateConversationRequest = z.infer<typeof CreateConversationSchema>;
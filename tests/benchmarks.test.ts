@@ -0,0 +1,48 @@
+import { parseBenchSpec, sectorETFForSIC, sectorETFHistoryGap, buildBasketSeries, formatBenchLabel } from '../lib/core/benchmarks';
+
+describe('Benchmark selection', () => {
+  it('maps SIC codes to sector SPDR ETFs', () => {
+    expect(sectorETFForSIC('6021')!.etf).toBe('XLF');   // national commercial banks
+    expect(sectorETFForSIC(1311)!.etf).toBe('XLE');     // crude petroleum & natural gas
+    expect(sectorETFForSIC('3674')!.etf).toBe('XLK');   // semiconductors
+    expect(sectorETFForSIC('7370')!.etf).toBe('XLC');   // internet platforms override 73xx
+    expect(sectorETFForSIC('6798')!.etf).toBe('XLRE');  // REITs override 67xx
+    expect(sectorETFForSIC('2834')!.etf).toBe('XLV');   // pharmaceutical preparations
+    expect(sectorETFForSIC('9995')).toBeNull();
+    expect(sectorETFForSIC(null)).toBeNull();
+  });
+
+  it('detects sector ETF history that starts after the price range', () => {
+    expect(sectorETFHistoryGap('XLC', '2016-01-04')).toBe('2018-06-19');
+    expect(sectorETFHistoryGap('XLC', '2018-06-15')).toBeNull();   // within weekend/holiday slack
+    expect(sectorETFHistoryGap('XLRE', '2014-03-01')).toBe('2015-10-08');
+    expect(sectorETFHistoryGap('XLRE', '2016-01-04')).toBeNull();
+    expect(sectorETFHistoryGap('XLF', '2001-01-02')).toBeNull();
+    // first fetched bar overrides the table (e.g. a provider with shorter history)
+    expect(sectorETFHistoryGap('XLF', '2001-01-02', '2005-01-03')).toBe('2005-01-03');
+    expect(sectorETFHistoryGap('XLF', '2001-01-02', '2001-01-02')).toBeNull();
+  });
+
+  it('parses auto, tickers and baskets', () => {
+    expect(parseBenchSpec(undefined)).toEqual({ kind: 'ticker', ticker: 'SPY' });
+    expect(parseBenchSpec('AUTO')).toEqual({ kind: 'auto' });
+    expect(parseBenchSpec('xlf')).toEqual({ kind: 'ticker', ticker: 'XLF' });
+    const eq = parseBenchSpec(['XLF', 'KRE']);
+    expect(eq).toEqual({ kind: 'basket', members: [{ ticker: 'XLF', weight: 0.5 }, { ticker: 'KRE', weight: 0.5 }] });
+    const w = parseBenchSpec('XLF:3,KRE:1');
+    expect(w.kind === 'basket' && w.members[0].weight).toBeCloseTo(0.75, 12);
+    expect(formatBenchLabel(w as any)).toBe('basket(XLF:0.75,KRE:0.25)');
+    expect(() => parseBenchSpec('XLF,XLF')).toThrow('ERR_INVALID_BENCH');
+    expect(() => parseBenchSpec('XLF:0')).toThrow('ERR_INVALID_BENCH');
+    expect(() => parseBenchSpec('bad ticker')).toThrow('ERR_INVALID_BENCH');
+  });
+
+  it('builds a daily-rebalanced basket on common dates', () => {
+    const a = [{ date: '2024-01-02', adjClose: 10 }, { date: '2024-01-03', adjClose: 11 }, { date: '2024-01-04', adjClose: 11 }];
+    const b = [{ date: '2024-01-02', adjClose: 20 }, { date: '2024-01-04', adjClose: 18 }];
+    const s = buildBasketSeries([a, b], [0.5, 0.5]);
+    expect(s.map(p => p.date)).toEqual(['2024-01-02', '2024-01-04']);
+    // 0.5·(+10%) + 0.5·(−10%) = 0
+    expect(s[1].adjClose).toBeCloseTo(100, 10);
+  });
+});
@@ -0,0 +1,72 @@
+import { estimateBeta, parseBetaMethod } from '../lib/core/beta';
+import { mulberry32 } from '../lib/core/significance';
+
+// Synthetic daily log returns in the spirit of genSeries (selftest): r = α + β·m + noise,
+// with an optional share of the market move priced in one day late (thin trading).
+function genReturns(n: number, opts: { beta?: number; lagShare?: number; outliers?: number; seed?: number } = {}) {
+  const { beta = 1.2, lagShare = 0, outliers = 0, seed = 7 } = opts;
+  const rand = mulberry32(seed);
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let t = 0; t < n; t++) {
+    const m = (rand() - 0.5) * 0.02;
+    const prev = t > 0 ? xs[t - 1] : 0;
+    const noise = (rand() - 0.5) * 0.004;
+    xs.push(m);
+    ys.push(0.0002 + beta * ((1 - lagShare) * m + lagShare * prev) + noise);
+  }
+  for (let k = 0; k < outliers; k++) {
+    const t = Math.floor(rand() * n);
+    ys[t] += xs[t] > 0 ? -0.15 : 0.15; // jumps against the market pull OLS toward zero
+  }
+  return { xs, ys };
+}
+
+describe('Beta estimators', () => {
+  it('OLS recovers beta on a clean series', () => {
+    const { xs, ys } = genReturns(500);
+    const est = estimateBeta(xs, ys, 'ols')!;
+    expect(est.beta).toBeCloseTo(1.2, 1);
+    expect(est).toMatchObject({ method: 'ols', lags: 0, iterations: 1, n: 500, n_effective: 500 });
+    expect(est.resid).toHaveLength(500);
+  });
+
+  it('Scholes-Williams and Dimson correct the thin-trading bias of OLS', () => {
+    const { xs, ys } = genReturns(750, { lagShare: 0.4 });
+    const ols = estimateBeta(xs, ys, 'ols')!;
+    const sw = estimateBeta(xs, ys, 'scholes_williams')!;
+    const dimson = estimateBeta(xs, ys, 'dimson')!;
+    expect(ols.beta).toBeLessThan(0.85);
+    expect(Math.abs(sw.beta - 1.2)).toBeLessThan(0.1);
+    expect(Math.abs(dimson.beta - 1.2)).toBeLessThan(0.1);
+    expect(sw).toMatchObject({ lags: 1, n: 748 });
+    expect(estimateBeta(xs, ys, 'dimson', { lags: 3 })).toMatchObject({ lags: 3, n: 744 });
+  });
+
+  it('Huber down-weights outliers and reports its iterations', () => {
+    const { xs, ys } = genReturns(500, { outliers: 15 });
+    const ols = estimateBeta(xs, ys, 'ols')!;
+    const huber = estimateBeta(xs, ys, 'huber')!;
+    expect(Math.abs(huber.beta - 1.2)).toBeLessThan(Math.abs(ols.beta - 1.2));
+    expect(Math.abs(huber.beta - 1.2)).toBeLessThan(0.1);
+    expect(huber.iterations).toBeGreaterThan(1);
+    expect(huber.n_effective).toBeLessThan(huber.n);
+  });
+
+  it('skips excluded days but keeps their market returns as leads/lags', () => {
+    const { xs, ys } = genReturns(300, { lagShare: 0.4 });
+    const include = xs.map((_, t) => t % 10 !== 0);
+    const ols = estimateBeta(xs, ys, 'ols', { include })!;
+    const sw = estimateBeta(xs, ys, 'scholes_williams', { include })!;
+    expect(ols.n).toBe(270);
+    expect(sw.n).toBe(269); // only the last day lacks a lead
+  });
+
+  it('needs 20 usable days and validates the method name', () => {
+    const { xs, ys } = genReturns(19);
+    expect(estimateBeta(xs, ys, 'ols')).toBeNull();
+    expect(parseBetaMethod(undefined)).toBe('ols');
+    expect(parseBetaMethod('Dimson')).toBe('dimson');
+    expect(() => parseBetaMethod('blume')).toThrow('ERR_INVALID_BETA_METHOD');
+  });
+});
@@ -0,0 +1,91 @@
+import { aggregateCAAR, bmpT, patellZ, rankZ, signZ, standardizedCAR, twoSidedP, weightedMeanT, CAAREvent } from '../lib/core/caar';
+
+// deterministic pseudo-noise in [-0.5, 0.5)
+function lcg(seed: number) {
+  let s = seed >>> 0;
+  return () => {
+    s = (1664525 * s + 1013904223) >>> 0;
+    return s / 4294967296 - 0.5;
+  };
+}
+
+function makeEvent(rand: () => number, shift: number, L = 5, M = 120, sd = 0.01): CAAREvent {
+  const est_resid = Array.from({ length: M }, () => rand() * sd * 3.4);
+  const ars = Array.from({ length: L }, () => rand() * sd * 3.4 + shift);
+  return { car: ars.reduce((s, v) => s + v, 0), ars, resid_sd: sd, est_resid };
+}
+
+describe('CAAR aggregation', () => {
+  it('standardizes CAR by residual SD and window length', () => {
+    const ev: CAAREvent = { car: 0.04, ars: [0.01, 0.01, 0.01, 0.01], resid_sd: 0.01, est_resid: [] };
+    expect(standardizedCAR(ev)).toBeCloseTo(2, 10);
+    expect(standardizedCAR({ ...ev, resid_sd: 0 })).toBeNull();
+  });
+
+  it('sign test is zero for balanced CARs and positive when most CARs are positive', () => {
+    expect(signZ([0.01, -0.01, 0.02, -0.02])).toBe(0);
+    expect(signZ([0.01, 0.02, 0.03, 0.04])).toBeCloseTo(2, 10);
+    expect(signZ([])).toBeNull();
+  });
+
+  it('detects a strong common abnormal return across events', () => {
+    const rand = lcg(42);
+    const events = Array.from({ length: 30 }, () => makeEvent(rand, 0.01));
+    const res = aggregateCAAR(events)!;
+    expect(res.n).toBe(30);
+    expect(res.caar).toBeGreaterThan(0.03);
+    expect(res.positive_share).toBeGreaterThan(0.9);
+    expect(res.tests.patell_z!.stat).toBeGreaterThan(5);
+    expect(res.tests.bmp_t!.stat).toBeGreaterThan(5);
+    expect(res.tests.rank_z!.stat).toBeGreaterThan(3);
+    expect(res.tests.patell_z!.p_value).toBeLessThan(0.001);
+  });
+
+  it('stays insignificant under the null', () => {
+    const rand = lcg(7);
+    const events = Array.from({ length: 40 }, () => makeEvent(rand, 0));
+    expect(Math.abs(patellZ(events)!)).toBeLessThan(3);
+    expect(Math.abs(bmpT(events)!)).toBeLessThan(3);
+    expect(Math.abs(rankZ(events)!)).toBeLessThan(3);
+  });
+
+  it('applies weights to CAAR and the test statistics', () => {
+    const rand = lcg(1);
+    const a = makeEvent(rand, 0.02);
+    const b = makeEvent(rand, -0.02);
+    const res = aggregateCAAR([{ ...a, weight: 1 }, { ...b, weight: 0 }])!;
+    expect(res.caar).toBeCloseTo(a.car, 12);
+    expect(res.mean_car).toBeCloseTo((a.car + b.car) / 2, 12);
+    // a zero-weight event drops out of Patell / rank / sign
+    expect(res.tests.patell_z!.stat).toBeCloseTo(patellZ([a])!, 12);
+    expect(res.tests.rank_z!.stat).toBeCloseTo(rankZ([a])!, 12);
+    expect(res.tests.sign_z!.stat).toBeCloseTo(signZ([a.car])!, 12);
+  });
+
+  it('weighted mean t matches a hand-computed sample and the equal-weight t', () => {
+    // m = 0.03/2.5 = 0.012; var = Σw(x−m)² / (Σw − Σw²/Σw) = 0.00084 / 1.6; SE = √(var·2.25) / 2.5
+    expect(weightedMeanT([0.03, 0.01, -0.02], [1, 1, 0.5])).toBeCloseTo(0.012 / (Math.sqrt(0.000525 * 2.25) / 2.5), 10);
+    expect(signZ([0.03, 0.01, -0.02], [1, 1, 0.5])).toBeCloseTo((2 - 1.25) / (0.5 * 1.5), 10);
+
+    const rand = lcg(3);
+    const events = Array.from({ length: 12 }, () => makeEvent(rand, 0.005));
+    const cars = events.map(e => e.car);
+    const m = cars.reduce((s, v) => s + v, 0) / cars.length;
+    const sd = Math.sqrt(cars.reduce((s, v) => s + (v - m) ** 2, 0) / (cars.length - 1));
+    const equal = aggregateCAAR(events)!;
+    const ones = aggregateCAAR(events.map(e => ({ ...e, weight: 1 })))!;
+    expect(equal.tests.cross_sectional_t!.stat).toBeCloseTo(m / (sd / Math.sqrt(cars.length)), 10);
+    expect(ones.tests).toEqual(equal.tests);
+
+    // halving one event's weight moves every statistic toward the others
+    const down = aggregateCAAR(events.map((e, i) => (i === 0 ? { ...e, weight: 0.5 } : e)))!;
+    expect(down.tests.cross_sectional_t!.stat).not.toBeCloseTo(equal.tests.cross_sectional_t!.stat, 6);
+    expect(down.tests.bmp_t!.stat).not.toBeCloseTo(equal.tests.bmp_t!.stat, 6);
+  });
+
+  it('returns a two-sided p-value', () => {
+    expect(twoSidedP(0)).toBeCloseTo(1, 6);
+    expect(twoSidedP(1.959964)).toBeCloseTo(0.05, 4);
+    expect(aggregateCAAR([])).toBeNull();
+  });
+});
@@ -0,0 +1,155 @@
+import type { PriceData } from '../lib/core/schema';
+import type { FactorSeries } from '../lib/core/factors';
+import type { ExpectedReturnModel } from '../lib/core/factors';
+import { computeBHAR, computeGapDecomposition, computeModelCAR, skewnessAdjustedT } from '../lib/core/car';
+import { EventContext, computeWindowReaction } from '../lib/core/analyze-pipeline';
+import { DEFAULT_ESTIMATION, parseEventWindows } from '../lib/core/windows';
+
+// Synthetic daily series: bench return b_t, stock return 0.0002 + 1.3·b_t + noise
+const N = 320;
+const dateOf = (i: number) => new Date(Date.UTC(2020, 0, 1) + i * 86400000).toISOString().split('T')[0];
+const benchRet = (t: number) => 0.01 * Math.sin(t * 0.45);
+const stockRet = (t: number) => 0.0002 + 1.3 * benchRet(t) + 0.002 * Math.cos(t * 3.1);
+
+function series(ret: (t: number) => number): PriceData[] {
+  const out: PriceData[] = [{ date: dateOf(0), adjClose: 100 }];
+  for (let t = 1; t < N; t++) out.push({ date: dateOf(t), adjClose: out[t - 1].adjClose * (1 + ret(t)) });
+  return out;
+}
+
+const prices = series(stockRet);
+const bench = series(benchRet);
+const DAY0 = 300;
+
+function factorsFor(dates: number[]): FactorSeries {
+  const f: FactorSeries = new Map();
+  for (const t of dates) {
+    f.set(dateOf(t), { 'Mkt-RF': benchRet(t) - 0.0001, SMB: 0.005 * Math.cos(t * 1.7), HML: 0.004 * Math.sin(t * 0.9), RF: 0.0001 });
+  }
+  return f;
+}
+
+describe('Expected-return model CAR', () => {
+  const opts = { estimationWindow: 250, estimationGap: 5 };
+
+  it('uses the factor model when the estimation window has factor rows', () => {
+    const all = Array.from({ length: N }, (_, t) => t);
+    const r = computeModelCAR(prices, bench, DAY0, [0, 3], { ...opts, model: 'ff3', factors: factorsFor(all) });
+    expect(r.model).toBe('ff3');
+    expect(r.factor_model_unavailable).toBeUndefined();
+    expect(r.alpha_beta.n).toBeGreaterThan(200);
+    expect(Object.keys(r.factor_loadings!)).toEqual(['Mkt-RF', 'SMB', 'HML']);
+    expect(r.factor_loadings!['Mkt-RF']).toBeCloseTo(1.3, 1);
+  });
+
+  it('falls back to the market model with a flag when factor rows are too sparse', () => {
+    // factor file covering only the event window (e.g. downloaded for a later period)
+    const sparse = factorsFor([DAY0, DAY0 + 1, DAY0 + 2, DAY0 + 3]);
+    const r = computeModelCAR(prices, bench, DAY0, [0, 3], { ...opts, model: 'ff3', factors: sparse });
+    const market = computeModelCAR(prices, bench, DAY0, [0, 3], { ...opts, model: 'market' });
+    expect(r.model).toBe('market');
+    expect(r.factor_model_unavailable).toBe(true);
+    expect(Object.keys(r.factor_loadings!)).toEqual(['market']);
+    expect(r.car).toBeCloseTo(market.car, 12);
+    expect(r.car_tstat).toBeCloseTo(market.car_tstat!, 12);
+    expect(r.alpha_beta).toEqual(market.alpha_beta);
+  });
+
+  it('clamps an implausible t-stat to ±10 and flags it', () => {
+    // steady +5% a day over the window: both the residual- and event-SD t exceed 10
+    const drift = prices.map((p, t) => ({ ...p, adjClose: p.adjClose * 1.05 ** Math.max(0, Math.min(t, DAY0 + 3) - (DAY0 - 1)) }));
+    const r = computeModelCAR(drift, bench, DAY0, [0, 3], { ...opts, model: 'market' });
+    expect(r.car_tstat).toBe(10);
+    expect(r.tstat_flags).toEqual({ event_sd: true, recomputed: true, clamped: true });
+  });
+});
+
+describe('Buy-and-hold abnormal return', () => {
+  const px = (closes: number[]): PriceData[] => closes.map((c, i) => ({ date: dateOf(i), adjClose: c }));
+
+  it('compounds returns instead of summing them', () => {
+    // +10% then −10% sums to 0 but compounds to −1%; bench +5% over the same days
+    const r = computeBHAR(px([100, 110, 99]), px([100, 100, 105]), 0, [0, 2])!;
+    expect(r.stock_bh).toBeCloseTo(-0.01, 12);
+    expect(r.bench_bh).toBeCloseTo(0.05, 12);
+    expect(r.bhar).toBeCloseTo(-0.06, 12);
+    expect(r.days).toBe(2);
+  });
+
+  it('clamps the window to the available prices', () => {
+    const r = computeBHAR(px([100, 110, 99]), px([100, 100, 105]), 1, [-1, 5])!;
+    expect(r.days).toBe(2);
+    expect(r.bhar).toBeCloseTo(-0.06, 12);
+    expect(computeBHAR(px([100, 110]), px([100, 101]), 1, [1, 3])).toBeNull();
+  });
+
+  it('matches a hand-computed Lyon-Barber-Tsai skewness-adjusted t', () => {
+    // mean 0.0625, sd 0.1108678, γ = 0.1805861, S = 0.5637345
+    // t = √4 · (S + γS²/3 + γ/24) = 1.1807777
+    const r = skewnessAdjustedT([0.1, -0.05, 0.2, 0])!;
+    expect(r.n).toBe(4);
+    expect(r.skew).toBeCloseTo(0.1805861, 6);
+    expect(r.t).toBeCloseTo(1.1807777, 6);
+  });
+
+  it('needs at least two values with dispersion', () => {
+    expect(skewnessAdjustedT([0.1])).toBeNull();
+    expect(skewnessAdjustedT([0.02, 0.02, 0.02])).toBeNull();
+  });
+});
+
+describe('Overnight / intraday gap split', () => {
+  // opens sit part-way through each day's move; raw close = adjClose / 0.98 (dividend adjustment)
+  const withOpens = (p: PriceData[], share: number): PriceData[] => p.map((d, t) => ({
+    ...d,
+    close: d.adjClose / 0.98,
+    open: t === 0 ? d.adjClose / 0.98 : (p[t - 1].adjClose + share * (d.adjClose - p[t - 1].adjClose)) / 0.98,
+  }));
+  const stock = withOpens(prices, 0.6);
+  const market = withOpens(bench, 0.3);
+  const opts = { model: 'market' as const, estimationWindow: 250, estimationGap: 5 };
+
+  it('splits Day0 into legs that add up to the log return and the market-model AR', () => {
+    const mm = computeModelCAR(stock, market, DAY0, [-1, 1], opts);
+    const split = computeGapDecomposition(stock, market, DAY0, mm.alpha_beta)!;
+    const day0 = mm.__path!.find(p => p.offset === 0)!;
+    expect(split.bench_components).toBe(true);
+    expect(split.day0!.overnight_ret + split.day0!.intraday_ret).toBeCloseTo(Math.log(stock[DAY0].adjClose / stock[DAY0 - 1].adjClose), 12);
+    expect(split.day0!.overnight_ret + split.day0!.intraday_ret).toBeCloseTo(day0.ret, 12);
+    expect(split.day0!.overnight_ar + split.day0!.intraday_ar).toBeCloseTo(day0.ar, 12);
+    const day1 = mm.__path!.find(p => p.offset === 1)!;
+    expect(split.day1!.overnight_ar + split.day1!.intraday_ar).toBeCloseTo(day1.ar, 12);
+  });
+
+  it('returns null without open prices', () => {
+    expect(computeGapDecomposition(prices, bench, DAY0)).toBeNull();
+  });
+});
+
+describe('Event-time path (include=path)', () => {
+  const windows = parseEventWindows('-1:5,-5:10');
+  const all = Array.from({ length: N }, (_, t) => t);
+  const ctxFor = (model: ExpectedReturnModel): EventContext => ({
+    ticker: 'AAA',
+    prices,
+    bench,
+    tradingDates: prices.map(p => p.date),
+    windows,
+    estimation: DEFAULT_ESTIMATION,
+    model,
+    factors: model === 'market' || model === 'market_adjusted' ? null : factorsFor(all),
+    betaMethod: 'ols',
+    includePath: true,
+    filings8K: null,
+    estimationFilterFor: () => ({}),
+  });
+
+  it.each<ExpectedReturnModel>(['market', 'market_adjusted', 'ff3'])('ends on the window CAR (%s)', (model) => {
+    for (const w of windows) {
+      const { price_reaction } = computeWindowReaction(ctxFor(model), DAY0, w, dateOf(DAY0), new Set(), null);
+      const path = price_reaction.path!;
+      expect(path.map(p => p.offset)).toEqual(Array.from({ length: w.window[1] - w.window[0] }, (_, i) => w.window[0] + 1 + i));
+      expect(path[path.length - 1].car).toBeCloseTo(price_reaction.car, 12);
+    }
+  });
+});
@@ -0,0 +1,62 @@
+import { inflateSync } from 'zlib';
+import { buildChartSeries, parseChartOptions, renderChartPNG, renderChartSVG } from '../lib/core/chart';
+
+// Minimal segment carrying an include=path array (offsets -4..+5, i.e. window [-5,+5])
+function segment(date: string, ars: number[]): any {
+  let car = 0;
+  const path = ars.map((ar, k) => {
+    car += ar;
+    return { date, offset: k - 4, ret: ar + 0.001, bench_ret: 0.001, expected: 0.001, ar, car };
+  });
+  return { earnings: { date }, price_reaction: { window: '[-5,+5]', path } };
+}
+
+describe('Event-study charts', () => {
+  const segs = [
+    segment('2024-01-25', [0, 0.001, -0.002, 0.001, 0.06, 0.01, 0, 0.002, -0.001, 0.001]),
+    segment('2024-04-25', [0.001, 0, 0, -0.001, -0.04, -0.005, 0.001, 0, 0, -0.002]),
+  ];
+
+  it('validates chart options', () => {
+    expect(parseChartOptions()).toEqual({ mode: 'car', format: 'svg', width: 800, height: 450 });
+    expect(parseChartOptions('PRICE', 'png', '640', 360)).toEqual({ mode: 'price', format: 'png', width: 640, height: 360 });
+    expect(() => parseChartOptions('bars')).toThrow('ERR_INVALID_CHART');
+    expect(() => parseChartOptions('car', 'svg', 100)).toThrow('ERR_INVALID_CHART');
+  });
+
+  it('builds CAR series from the base day and price/benchmark index pairs', () => {
+    const car = buildChartSeries(segs, 'car', { logReturns: true });
+    expect(car).toHaveLength(2);
+    expect(car[0].points[0]).toEqual({ offset: -5, value: 0 });
+    expect(car[0].points[car[0].points.length - 1].value).toBeCloseTo(0.072, 10);
+
+    const price = buildChartSeries(segs, 'price', { logReturns: false, ticker: 'AAPL', benchLabel: 'SPY' });
+    expect(price.map(s => s.label)).toEqual(['2024-01-25 AAPL', '2024-01-25 SPY', '2024-04-25 AAPL', '2024-04-25 SPY']);
+    expect(price[1].dashed).toBe(true);
+    expect(price[1].points[price[1].points.length - 1].value).toBeCloseTo(100 * Math.pow(1.001, 10), 8);
+  });
+
+  it('renders an SVG with Day 0, window boundaries and one polyline per series', () => {
+    const spec = { title: 'T&C <CAR>', mode: 'car' as const, series: buildChartSeries(segs, 'car', { logReturns: true }), windows: [[-1, 5]] as Array<[number, number]> };
+    const svg = renderChartSVG(spec, 640, 360);
+    expect(svg.startsWith('<svg')).toBe(true);
+    expect(svg).toContain('T&amp;C &lt;CAR&gt;');
+    expect(svg).toContain('>Day 0</text>');
+    expect(svg).toContain('>[-1,+5]</text>');
+    expect((svg.match(/stroke-width="2"/g) || []).length).toBe(2 + 2); // series + legend swatches
+  });
+
+  it('rasterizes the same scene to a valid RGBA PNG', () => {
+    const spec = { title: 'AAPL', mode: 'price' as const, series: buildChartSeries(segs, 'price', { logReturns: true }), windows: [[-1, 5]] as Array<[number, number]> };
+    const png = renderChartPNG(spec, 400, 240);
+    expect(png.subarray(0, 8)).toEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+    expect(png.readUInt32BE(16)).toBe(400);
+    expect(png.readUInt32BE(20)).toBe(240);
+    const idatLen = png.readUInt32BE(33);
+    expect(png.toString('ascii', 37, 41)).toBe('IDAT');
+    const raw = inflateSync(png.subarray(41, 41 + idatLen));
+    expect(raw.length).toBe((400 * 4 + 1) * 240);
+    // top-left corner is the white background
+    expect(Array.from(raw.subarray(1, 5))).toEqual([255, 255, 255, 255]);
+  });
+});
@@ -0,0 +1,61 @@
+import type { AnalysisSegment } from '../lib/core/schema';
+import { calendarQuarterLabel, compareByPeriod } from '../lib/core/compare';
+
+const segment = (date: string, car: number, epsYoY: number | null, revYoY: number | null, window = '[-1,+5]'): AnalysisSegment => ({
+  label: `${date} ${window}`,
+  earnings: { date, when: 'amc', eps: 1, eps_yoy: epsYoY, rev_yoy: revYoY },
+  period: { start: date, end: date },
+  price_reaction: { window, car, ret_sum: car, bench_sum: 0, car_tstat: car * 100 },
+  source_urls: [],
+});
+
+describe('peer comparison by reporting cycle', () => {
+  it('labels a fiscal quarter by the calendar quarter covering most of it', () => {
+    expect(calendarQuarterLabel({ year: 2024, month: 3 })).toBe('CY2024 Q1');
+    expect(calendarQuarterLabel({ year: 2024, month: 4 })).toBe('CY2024 Q1');
+    expect(calendarQuarterLabel({ year: 2024, month: 5 })).toBe('CY2024 Q2');
+    expect(calendarQuarterLabel({ year: 2024, month: 1 })).toBe('CY2023 Q4');
+    expect(calendarQuarterLabel({ year: 2024, month: 12 })).toBe('CY2024 Q4');
+  });
+
+  it('aligns peers with different fiscal years and computes differences vs the first ticker', () => {
+    const { rows, duplicates } = compareByPeriod([
+      { ticker: 'MSFT', fiscalYearEnd: '0630', segments: [segment('2024-04-25', 0.02, 0.2, 0.17), segment('2024-07-30', -0.01, 0.1, 0.15)] },
+      {
+        ticker: 'GOOGL',
+        fiscalYearEnd: '1231',
+        segments: [segment('2024-04-25', 0.1, 0.6, 0.15), segment('2024-05-01', 0.5, 0, 0), segment('2024-04-25', 0.3, 0, 0, '[-5,+20]')],
+      },
+      { ticker: 'NVDA', fiscalYearEnd: '0128', segments: [segment('2024-05-22', 0.09, null, 2.62), segment('2024-08-28', -0.07, 1.5, 1.22)] },
+    ], '[-1,+5]');
+
+    expect(duplicates).toBe(1);
+    expect(rows.map(r => [r.period, r.complete])).toEqual([['CY2024 Q1', true], ['CY2024 Q2', false]]);
+
+    const q1 = rows[0];
+    expect(q1.tickers.MSFT).toEqual({ date: '2024-04-25', fiscal: 'FY2024 Q3', eps_yoy: 0.2, rev_yoy: 0.17, car: 0.02, car_tstat: 2 });
+    expect(q1.tickers.GOOGL!.fiscal).toBe('FY2024 Q1');
+    expect(q1.tickers.GOOGL!.car).toBe(0.1);
+    expect(q1.tickers.NVDA!.fiscal).toBe('FY2025 Q1');
+    expect(q1.diff).toEqual({
+      GOOGL_minus_MSFT: { eps_yoy: 0.4, rev_yoy: -0.02, car: 0.08 },
+      NVDA_minus_MSFT: { eps_yoy: null, rev_yoy: 2.45, car: 0.07 },
+    });
+
+    const q2 = rows[1];
+    expect(q2.tickers.GOOGL).toBeNull();
+    expect(q2.tickers.MSFT!.fiscal).toBe('FY2024 Q4');
+    expect(q2.tickers.NVDA!.fiscal).toBe('FY2025 Q2');
+    expect(q2.diff.GOOGL_minus_MSFT).toBeNull();
+    expect(q2.diff.NVDA_minus_MSFT!.car).toBe(-0.06);
+  });
+
+  it('keeps a ticker without segments as empty cells', () => {
+    const { rows } = compareByPeriod([
+      { ticker: 'AAA', fiscalYearEnd: null, segments: [] },
+      { ticker: 'BBB', fiscalYearEnd: null, segments: [segment('2024-01-30', 0.01, null, null)] },
+    ], '[-1,+5]');
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ period: 'CY2023 Q4', complete: false, tickers: { AAA: null }, diff: { BBB_minus_AAA: null } });
+  });
+});
@@ -0,0 +1,49 @@
+import { mapWithConcurrency } from '../lib/core/concurrency';
+
+const delay = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+describe('Bounded-concurrency map', () => {
+  it('keeps results in input order when workers finish out of order', async () => {
+    const results = await mapWithConcurrency([30, 5, 20, 0, 10], 3, async (ms, i) => {
+      await delay(ms);
+      return `${i}:${ms}`;
+    });
+    expect(results).toEqual(['0:30', '1:5', '2:20', '3:0', '4:10']);
+  });
+
+  it('never runs more than `limit` workers at once', async () => {
+    let active = 0;
+    let peak = 0;
+    const started: number[] = [];
+    await mapWithConcurrency(Array.from({ length: 8 }, (_, i) => i), 2, async (i) => {
+      started.push(i);
+      active++;
+      peak = Math.max(peak, active);
+      await delay(5);
+      active--;
+    });
+    expect(peak).toBe(2);
+    expect(started.sort((a, b) => a - b)).toEqual([0, 1, 2, 3, 4, 5, 6, 7]);
+  });
+
+  it('treats a limit below 1 as sequential and handles empty input', async () => {
+    let active = 0;
+    let peak = 0;
+    await mapWithConcurrency([1, 2, 3], 0, async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await delay(1);
+      active--;
+    });
+    expect(peak).toBe(1);
+    await expect(mapWithConcurrency([], 3, async () => 1)).resolves.toEqual([]);
+  });
+
+  it('propagates a rejection from any item', async () => {
+    await expect(mapWithConcurrency(['AAPL', 'FAIL', 'MSFT'], 2, async (t) => {
+      await delay(1);
+      if (t === 'FAIL') throw new Error('ERR_NO_DATA');
+      return t;
+    })).rejects.toThrow('ERR_NO_DATA');
+  });
+});
@@ -0,0 +1,50 @@
+import { confoundWeight, findConfoundingFilings, parseConfoundPolicy, FilingLike } from '../lib/core/confounding';
+
+function filing(date: string, items: string[], event_types: string[], form = '8-K'): FilingLike {
+  return {
+    form,
+    filed_at: `${date}T21:05:00.000Z`,
+    event_date: date,
+    items,
+    event_types,
+    urls: { index: `https://www.sec.gov/idx/${date}`, primary: `https://www.sec.gov/doc/${date}.htm` },
+  };
+}
+
+describe('Confounding 8-K detection', () => {
+  const filings: FilingLike[] = [
+    filing('2024-01-25', ['2.02', '9.01'], ['earnings']),                  // the earnings release itself
+    filing('2024-01-26', ['5.02'], ['governance_exec']),                   // CFO departure inside the window
+    filing('2024-01-29', ['1.01', '2.01'], ['agreement', 'mna']),          // acquisition inside the window
+    filing('2024-01-30', ['7.01'], ['reg_fd']),                            // routine Reg FD
+    filing('2024-03-01', ['2.05'], ['restructuring']),                     // outside the window
+    { ...filing('2024-01-26', [], []), form: '10-Q' },
+  ];
+
+  it('lists only material 8-Ks dated inside the period', () => {
+    const hits = findConfoundingFilings(filings, { start: '2024-01-24', end: '2024-02-01' });
+    expect(hits.map(h => h.date)).toEqual(['2024-01-26', '2024-01-29']);
+    expect(hits[1]).toEqual({
+      form: '8-K',
+      items: ['1.01', '2.01'],
+      event_types: ['agreement', 'mna'],
+      date: '2024-01-29',
+      url: 'https://www.sec.gov/doc/2024-01-29.htm',
+    });
+  });
+
+  it('falls back to the filing date when the event date is missing', () => {
+    const hits = findConfoundingFilings([{ ...filing('2024-01-26', ['1.03'], ['bankruptcy']), event_date: null }], { start: '2024-01-26', end: '2024-01-26' });
+    expect(hits).toHaveLength(1);
+  });
+
+  it('maps the aggregate policy to CAAR weights', () => {
+    expect(parseConfoundPolicy(undefined)).toBe('keep');
+    expect(() => parseConfoundPolicy('ignore')).toThrow('ERR_INVALID_CONFOUND');
+    expect(confoundWeight('keep', true)).toBe(1);
+    expect(confoundWeight('drop', true)).toBeNull();
+    expect(confoundWeight('drop', false)).toBe(1);
+    expect(confoundWeight('downweight', true)).toBe(0.5);
+    expect(confoundWeight('downweight', undefined)).toBe(1);
+  });
+});
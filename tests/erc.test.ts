@@ -0,0 +1,32 @@
+import { ERC_MIN_POINTS, ERCPoint, ercRegression, parseSurpriseMeasure } from '../lib/core/erc';
+
+const points = (surprises: number[], cars: number[]): ERCPoint[] =>
+  surprises.map((surprise, i) => ({ ticker: 'AAA', event_date: `2024-0${i + 1}-15`, surprise, car: cars[i] }));
+
+describe('Earnings response coefficient', () => {
+  it('recovers the slope and HC1 standard error on a hand-computed fixture', () => {
+    // x̄ = 0, ȳ = 0.006, Σx² = 10 → b = Σxy/Σx² = 0.019, a = 0.006
+    // e = [0.002, 0.003, −0.006, −0.005, 0.006]; HC1 Var(b) = n/(n−k) · Σx²e² / (Σx²)² = 5/3 · 194e-6 / 100
+    const r = ercRegression(points([-2, -1, 0, 1, 2], [-0.03, -0.01, 0, 0.02, 0.05]))!;
+    expect(r.n).toBe(5);
+    expect(r.coefficient).toBeCloseTo(0.019, 12);
+    expect(r.intercept).toBeCloseTo(0.006, 12);
+    expect(r.se_hc1).toBeCloseTo(Math.sqrt((5 / 3) * 194e-6 / 100), 10);
+    expect(r.t_stat).toBeCloseTo(10.5664, 3);
+    expect(r.p_value).toBeLessThan(1e-6);
+    expect(r.r2).toBeCloseTo(0.97043, 5);
+  });
+
+  it(`needs at least ${ERC_MIN_POINTS} points and variation in the surprise`, () => {
+    expect(ERC_MIN_POINTS).toBe(5);
+    expect(ercRegression(points([-1, 0, 1, 2], [-0.01, 0, 0.01, 0.02]))).toBeNull();
+    expect(ercRegression(points([-1, 0, 1, 2, 3], [-0.01, 0, 0.01, 0.02, 0.04]))).not.toBeNull();
+    expect(ercRegression(points([1, 1, 1, 1, 1], [-0.01, 0, 0.01, 0.02, 0.04]))).toBeNull();
+  });
+
+  it('validates the surprise measure', () => {
+    expect(parseSurpriseMeasure(null)).toBe('sue_price');
+    expect(parseSurpriseMeasure('SUE_SD')).toBe('sue_sd');
+    expect(() => parseSurpriseMeasure('eps')).toThrow('ERR_INVALID_SURPRISE');
+  });
+});
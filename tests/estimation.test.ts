@@ -0,0 +1,94 @@
+import type { PriceData } from '../lib/core/schema';
+import type { NormalizedSECFiling } from '../lib/external/sec-edgar';
+import { buildEstimationFilter } from '../lib/core/analyze-pipeline';
+import { computeModelCAR } from '../lib/core/car';
+import { DEFAULT_ESTIMATION, DEFAULT_WINDOWS, effectiveEstimationGap, minEstimationObs, parseEstimationSettings, parseEventWindows } from '../lib/core/windows';
+
+const N = 320;
+const DAY0 = 300;
+const dateOf = (i: number) => new Date(Date.UTC(2020, 0, 1) + i * 86400000).toISOString().split('T')[0];
+const benchRet = (t: number) => 0.01 * Math.sin(t * 0.45);
+const stockRet = (t: number) => 0.0002 + 1.3 * benchRet(t) + 0.002 * Math.cos(t * 3.1);
+
+// shocks: return index → extra multiplicative move on that day's close (and every later close)
+function series(ret: (t: number) => number, shocks: Record<number, number> = {}): PriceData[] {
+  const out: PriceData[] = [{ date: dateOf(0), adjClose: 100 }];
+  for (let t = 1; t < N; t++) out.push({ date: dateOf(t), adjClose: out[t - 1].adjClose * (1 + ret(t)) * (shocks[t] ?? 1) });
+  return out;
+}
+
+const bench = series(benchRet);
+const prices = series(stockRet);
+
+const filing = (date: string, form: '8-K' | '8-K/A'): NormalizedSECFiling => ({
+  cik: '0000000001', ticker: 'AAA', company: null, form, accession: `acc-${date}`, filed_at: `${date}T21:05:00`,
+  period_of_report: null, event_date: date, is_amendment: form === '8-K/A', amends: null,
+  urls: { index: '', primary: '' }, items: ['8.01'],
+} as NormalizedSECFiling);
+
+describe('Estimation window placement', () => {
+  it('ends estimation before the earliest window start (Day0 at the latest)', () => {
+    expect(effectiveEstimationGap(DEFAULT_ESTIMATION, DEFAULT_WINDOWS)).toBe(5);          // [-5,+20]
+    expect(effectiveEstimationGap(DEFAULT_ESTIMATION, parseEventWindows('2:60'))).toBe(1); // still skips the Day0 return
+    expect(effectiveEstimationGap(parseEstimationSettings(252, 10), parseEventWindows('-1:5'))).toBe(11);
+  });
+
+  it('keeps the Day0 and pre-window returns out of the regression', () => {
+    // +50% on Day0 and −30% on Day−3: inside the [-5,+5] window, so alpha/beta must not move
+    const shocked = series(stockRet, { [DAY0]: 1.5, [DAY0 - 3]: 0.7 });
+    const opts = { estimationWindow: 250, estimationGap: effectiveEstimationGap(DEFAULT_ESTIMATION, parseEventWindows('-5:5')) };
+    const clean = computeModelCAR(prices, bench, DAY0, [-5, 5], opts);
+    const hit = computeModelCAR(shocked, bench, DAY0, [-5, 5], opts);
+    expect(hit.alpha_beta).toEqual(clean.alpha_beta);
+    expect(hit.car - clean.car).toBeCloseTo(Math.log(1.5 * 0.7), 10);
+    // even a caller passing gap=0 never estimates over the window
+    expect(computeModelCAR(shocked, bench, DAY0, [-5, 5], { estimationWindow: 250, estimationGap: 0 }).alpha_beta).toEqual(clean.alpha_beta);
+  });
+
+  it('flags short estimation below 60 days (half the length for short windows)', () => {
+    expect(minEstimationObs(DEFAULT_ESTIMATION)).toBe(60);
+    expect(minEstimationObs(parseEstimationSettings(80))).toBe(40);
+  });
+});
+
+describe('Estimation cleaning', () => {
+  const tradingDates = prices.map(p => p.date);
+
+  it('excludes ±2 trading days around other events and 8-Ks, but not the event itself', () => {
+    const filterFor = buildEstimationFilter(
+      tradingDates,
+      [dateOf(250), dateOf(DAY0)],
+      [filing(dateOf(270), '8-K'), filing(dateOf(280), '8-K/A')],
+      { ...DEFAULT_ESTIMATION, winsorize: 0.02 }
+    );
+    const f = filterFor(DAY0);
+    expect(Array.from(f.excludeDates!).sort()).toEqual([248, 249, 250, 251, 252, 268, 269, 270, 271, 272].map(dateOf));
+    expect(f.winsorize).toBe(0.02);
+
+    const off = buildEstimationFilter(tradingDates, [dateOf(250)], [filing(dateOf(270), '8-K')], { ...DEFAULT_ESTIMATION, excludeEvents: false });
+    expect(off(DAY0).excludeDates!.size).toBe(0);
+  });
+
+  it('reports excluded days and the effective estimation N', () => {
+    const opts = { estimationWindow: 250, estimationGap: 5 };
+    const base = computeModelCAR(prices, bench, DAY0, [-1, 5], opts);
+    const excludeDates = new Set([248, 249, 250, 251, 252, 268, 269, 270, 271, 272].map(dateOf));
+    const filtered = computeModelCAR(prices, bench, DAY0, [-1, 5], { ...opts, filter: { excludeDates } });
+    expect(base.__excludedDays).toBe(0);
+    expect(filtered.__excludedDays).toBe(10);
+    expect(filtered.alpha_beta.n).toBe(base.alpha_beta.n - 10);
+  });
+
+  it('winsorizes estimation returns so one outlier barely moves beta', () => {
+    // +40% stock jump on a strong market day inside the estimation period
+    const t = 200;
+    expect(benchRet(t)).toBeGreaterThan(0.005);
+    const outlier = series(stockRet, { [t]: 1.4 });
+    const opts = { estimationWindow: 250, estimationGap: 5 };
+    const clean = computeModelCAR(prices, bench, DAY0, [-1, 5], opts).alpha_beta.beta;
+    const raw = computeModelCAR(outlier, bench, DAY0, [-1, 5], opts).alpha_beta.beta;
+    const wins = computeModelCAR(outlier, bench, DAY0, [-1, 5], { ...opts, filter: { winsorize: 0.01 } }).alpha_beta.beta;
+    expect(Math.abs(raw - clean)).toBeGreaterThan(0.1);
+    expect(Math.abs(wins - clean)).toBeLessThan(Math.abs(raw - clean) / 5);
+  });
+});
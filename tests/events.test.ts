@@ -0,0 +1,52 @@
+import { MAX_EVENT_TICKERS, MAX_USER_EVENTS, eventPriceRange, groupEventsByTicker, parseUserEvents } from '../lib/core/events';
+
+describe('User event-study inputs', () => {
+  it('normalizes, dedupes and sorts events', () => {
+    const events = parseUserEvents([
+      { ticker: ' mrna ', date: '2024-05-31', when: 'AMC', label: ' FDA approval ' },
+      { ticker: 'AAPL', date: '2024-06-10' },
+      { ticker: 'aapl', date: '2024-06-10', when: 'bmo' },
+      { ticker: 'AAPL', date: '2023-06-05', when: null, label: null },
+    ]);
+    expect(events).toEqual([
+      { ticker: 'AAPL', date: '2023-06-05', when: 'unknown' },
+      { ticker: 'AAPL', date: '2024-06-10', when: 'unknown' },
+      { ticker: 'MRNA', date: '2024-05-31', when: 'amc', label: 'FDA approval' },
+    ]);
+  });
+
+  it('rejects bad entries and counts', () => {
+    expect(() => parseUserEvents([])).toThrow('ERR_INVALID_EVENTS');
+    expect(() => parseUserEvents([{ ticker: 'AAPL', date: '2024-02-30' }])).toThrow('ERR_INVALID_EVENTS');
+    expect(() => parseUserEvents([{ ticker: 'AAPL', date: '2024-02-01', when: 'noon' }])).toThrow('ERR_INVALID_EVENTS');
+    expect(() => parseUserEvents([{ ticker: 'AAPL', date: '2024-02-01', label: 'x'.repeat(101) }])).toThrow('ERR_INVALID_EVENTS');
+    expect(() => parseUserEvents([{ ticker: 'NOT A TICKER', date: '2024-02-01' }])).toThrow('ERR_INVALID_EVENTS');
+
+    const tooMany = Array.from({ length: MAX_USER_EVENTS + 1 }, (_, i) => ({ ticker: 'AAPL', date: `2020-01-${String((i % 28) + 1).padStart(2, '0')}` }));
+    expect(() => parseUserEvents(tooMany)).toThrow('ERR_INVALID_EVENTS');
+
+    const tickers = Array.from({ length: MAX_EVENT_TICKERS + 1 }, (_, i) => ({ ticker: `T${i}`, date: '2024-01-02' }));
+    expect(() => parseUserEvents(tickers)).toThrow('ERR_TOO_MANY_TICKERS');
+  });
+
+  it('groups events by ticker in order', () => {
+    const grouped = groupEventsByTicker(parseUserEvents([
+      { ticker: 'XOM', date: '2024-03-01' },
+      { ticker: 'CVX', date: '2024-02-01' },
+      { ticker: 'XOM', date: '2024-01-01' },
+    ]));
+    expect(Array.from(grouped.keys())).toEqual(['CVX', 'XOM']);
+    expect(grouped.get('XOM')!.map(e => e.date)).toEqual(['2024-01-01', '2024-03-01']);
+  });
+
+  it('covers the post-event window and caps the range at today', () => {
+    const events = parseUserEvents([
+      { ticker: 'AAPL', date: '2024-06-10' },
+      { ticker: 'AAPL', date: '2023-06-05' },
+    ]);
+    // 20 trading days → ceil(20 × 1.45) + 10 = 39 calendar days
+    expect(eventPriceRange(events, 20, '2025-01-01')).toEqual({ from: '2023-06-05', to: '2024-07-19' });
+    expect(eventPriceRange(events, 20, '2024-06-20')).toEqual({ from: '2023-06-05', to: '2024-06-20' });
+    expect(eventPriceRange(events, -1, '2025-01-01')).toEqual({ from: '2023-06-05', to: '2024-06-20' });
+  });
+});
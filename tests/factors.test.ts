@@ -0,0 +1,104 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { parseKenFrenchCSV, parseFactorJSON, parseExpectedReturnModel, missingFactors, loadFactorSeries } from '../lib/core/factors';
+import { olsFit, hc1StdErrors } from '../lib/core/regression';
+
+const KF_DAILY = [
+  'This file was created by CMPT_ME_BEME_RETS_DAILY using the 202312 CRSP database.',
+  'The 1-month TBill rate data until 202405 are from Ibbotson and Associates.',
+  '',
+  ',Mkt-RF,SMB,HML,RF',
+  '20240102,  -0.71,   0.43,   1.07,  0.021',
+  '20240103,  -1.06,  -0.95,   0.10,  0.021',
+  '20240104,-99.99,   0.10,   0.20,  0.021',
+  '',
+  ' Annual Factors: January-December ',
+  ',Mkt-RF,SMB,HML,RF',
+  '2023,  21.69,  -3.88, -11.72,   5.01',
+].join('\n');
+
+describe('Factor data', () => {
+  it('parses the first daily block of a Ken French CSV into decimals', () => {
+    const s = parseKenFrenchCSV(KF_DAILY);
+    expect(s.size).toBe(3);
+    expect(s.get('2024-01-02')!['Mkt-RF']).toBeCloseTo(-0.0071, 10);
+    expect(s.get('2024-01-02')!.RF).toBeCloseTo(0.00021, 10);
+    // -99.99 sentinel is dropped, other columns kept
+    expect(s.get('2024-01-04')!['Mkt-RF']).toBeUndefined();
+    expect(s.get('2024-01-04')!.SMB).toBeCloseTo(0.001, 10);
+    expect(missingFactors(s, 'ff3')).toEqual([]);
+    expect(missingFactors(s, 'carhart')).toEqual(['Mom']);
+  });
+
+  it('merges momentum from JSON and normalizes the column name', () => {
+    const s = parseKenFrenchCSV(KF_DAILY);
+    parseFactorJSON([{ date: '20240102', UMD: 0.5 }], s);
+    expect(s.get('2024-01-02')!.Mom).toBeCloseTo(0.005, 10);
+    expect(missingFactors(s, 'carhart')).toEqual([]);
+  });
+
+  it('takes each model\'s columns from its own file when FF3 and FF5 files are both present', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'factors-'));
+    const ff5 = [',Mkt-RF,SMB,HML,RMW,CMA,RF', '20240102,  -0.70,   0.50,   1.00,  0.30, -0.20,  0.021'].join('\n');
+    const mom = [',Mom   ', '20240102,   0.40'].join('\n');
+    // file names sort the 5-factor file last, which used to overwrite the 3-factor SMB/HML
+    await fs.writeFile(path.join(dir, 'F-F_Momentum_Factor_daily.CSV'), mom);
+    await fs.writeFile(path.join(dir, 'F-F_Research_Data_Factors_daily.CSV'), KF_DAILY);
+    await fs.writeFile(path.join(dir, 'F-F_Research_Data_5_Factors_2x3_daily.CSV'), ff5);
+    const prev = process.env.FACTOR_DATA_PATH;
+    process.env.FACTOR_DATA_PATH = dir;
+    try {
+      const ff3 = await loadFactorSeries('ff3');
+      const row = ff3.get('2024-01-02')!;
+      expect(Object.keys(row).sort()).toEqual(['HML', 'Mkt-RF', 'RF', 'SMB']);
+      expect(row['Mkt-RF']).toBeCloseTo(-0.0071, 10);
+      expect(row.SMB).toBeCloseTo(0.0043, 10);
+      expect(row.HML).toBeCloseTo(0.0107, 10);
+      expect(ff3.size).toBe(3);
+
+      const five = await loadFactorSeries('ff5');
+      expect(five.get('2024-01-02')!.SMB).toBeCloseTo(0.005, 10);
+      expect(five.get('2024-01-02')!.CMA).toBeCloseTo(-0.002, 10);
+      expect(missingFactors(five, 'ff5')).toEqual([]);
+
+      const carhart = await loadFactorSeries('carhart');
+      expect(carhart.get('2024-01-02')!.SMB).toBeCloseTo(0.0043, 10);
+      expect(carhart.get('2024-01-02')!.Mom).toBeCloseTo(0.004, 10);
+      expect(carhart.get('2024-01-03')!.Mom).toBeUndefined();
+    } finally {
+      if (prev === undefined) delete process.env.FACTOR_DATA_PATH;
+      else process.env.FACTOR_DATA_PATH = prev;
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('validates the model parameter', () => {
+    expect(parseExpectedReturnModel(null)).toBe('market');
+    expect(parseExpectedReturnModel('FF5')).toBe('ff5');
+    expect(() => parseExpectedReturnModel('capm')).toThrow('ERR_INVALID_MODEL');
+  });
+});
+
+describe('OLS helpers', () => {
+  it('recovers exact coefficients and reports R² and HC1 errors', () => {
+    const X: number[][] = [];
+    const y: number[] = [];
+    for (let i = 0; i < 40; i++) {
+      const a = Math.sin(i), b = Math.cos(i * 0.7);
+      X.push([1, a, b]);
+      y.push(0.001 + 1.2 * a - 0.5 * b + (i % 2 === 0 ? 1e-3 : -1e-3));
+    }
+    const fit = olsFit(X, y)!;
+    expect(fit.coef[1]).toBeCloseTo(1.2, 2);
+    expect(fit.coef[2]).toBeCloseTo(-0.5, 2);
+    expect(fit.r2).toBeGreaterThan(0.99);
+    const se = hc1StdErrors(fit, X);
+    expect(se).toHaveLength(3);
+    se.forEach(v => expect(v).toBeGreaterThan(0));
+  });
+
+  it('returns null for a singular design', () => {
+    expect(olsFit([[1, 2], [1, 2], [1, 2]], [1, 2, 3])).toBeNull();
+  });
+});
@@ -0,0 +1,66 @@
+import { EventFilingLike, filingEvents, formatEventSelector, parseEventSelectors } from '../lib/core/filing-events';
+
+const filing = (over: Partial<EventFilingLike>): EventFilingLike => ({
+  form: '8-K',
+  accession: '0000000000-24-000001',
+  filed_at: '2024-03-05T00:00:00.000Z',
+  accepted_at: null,
+  event_date: '2024-03-04',
+  items: ['5.02'],
+  event_types: ['governance_exec'],
+  urls: { index: 'https://www.sec.gov/idx', primary: 'https://www.sec.gov/doc.htm' },
+  ...over,
+});
+
+describe('8-K filing events', () => {
+  it('parses item and event-type selectors', () => {
+    expect(parseEventSelectors(null)).toBeNull();
+    expect(parseEventSelectors('earnings')).toBeNull();
+    const sels = parseEventSelectors('8k:5.02, 8-K:1.01,8k:governance_exec,8k:5.02')!;
+    expect(sels).toEqual([
+      { kind: 'item', item: '5.02' },
+      { kind: 'item', item: '1.01' },
+      { kind: 'type', type: 'governance_exec' },
+    ]);
+    expect(sels.map(formatEventSelector).join(',')).toBe('8k:5.02,8k:1.01,8k:governance_exec');
+    expect(parseEventSelectors(['8k:mna'])).toEqual([{ kind: 'type', type: 'mna' }]);
+  });
+
+  it('rejects unknown selectors', () => {
+    expect(() => parseEventSelectors('10k:5.02')).toThrow('ERR_INVALID_EVENTS');
+    expect(() => parseEventSelectors('8k:ceo')).toThrow('ERR_INVALID_EVENTS');
+    expect(() => parseEventSelectors('earnings,8k:5.02')).toThrow('ERR_INVALID_EVENTS');
+    expect(() => parseEventSelectors(Array.from({ length: 11 }, (_, i) => `8k:1.0${i % 10}`))).toThrow('ERR_INVALID_EVENTS');
+  });
+
+  it('dates events by acceptance time and session', () => {
+    const events = filingEvents([
+      filing({ accession: 'a', accepted_at: '2024-03-05T07:45:00' }),
+      filing({ accession: 'b', accepted_at: '2024-03-12T11:30:00', event_date: '2024-03-11' }),
+      filing({ accession: 'c', accepted_at: '2024-03-15T16:20:00', event_date: '2024-03-15' }),
+      filing({ accession: 'd', accepted_at: '2024-03-29T10:00:00', event_date: '2024-03-29' }), // Good Friday
+    ], [{ kind: 'item', item: '5.02' }], { from: '2024-01-01', to: '2024-12-31' });
+    expect(events.map(e => [e.date, e.when, e.when_source])).toEqual([
+      ['2024-03-05', 'bmo', 'acceptance_timestamp'],
+      ['2024-03-12', 'dmh', 'acceptance_timestamp'],
+      ['2024-03-15', 'amc', 'acceptance_timestamp'],
+      ['2024-03-29', 'amc', 'acceptance_timestamp'],
+    ]);
+  });
+
+  it('falls back to event_date, skips amendments and merges same-day filings', () => {
+    const events = filingEvents([
+      filing({ accession: 'x', items: ['1.01', '2.03'], event_types: ['agreement', 'mna'], event_date: '2024-05-01' }),
+      filing({ accession: 'y', form: '8-K/A', accepted_at: '2024-05-20T08:00:00' }),
+      filing({ accession: 'z', items: ['2.02'], event_types: ['earnings'], accepted_at: '2024-06-03T16:05:00' }),
+      filing({ accession: 'p', accepted_at: '2024-06-03T17:30:00' }),
+      filing({ accession: 'q', items: ['5.02', '9.01'], accepted_at: '2024-06-03T06:30:00' }),
+      filing({ accession: 'r', accepted_at: '2025-02-03T08:00:00' }),
+    ], [{ kind: 'item', item: '5.02' }, { kind: 'type', type: 'agreement' }], { from: '2024-01-01', to: '2024-12-31' });
+    expect(events).toHaveLength(2);
+    expect(events[0]).toMatchObject({ date: '2024-05-01', when: 'unknown', when_source: null });
+    expect(events[0].filings[0]).toMatchObject({ accession: 'x', items: ['1.01', '2.03'], url: 'https://www.sec.gov/doc.htm' });
+    expect(events[1]).toMatchObject({ date: '2024-06-03', when: 'bmo', when_source: 'acceptance_timestamp' });
+    expect(events[1].filings.map(f => f.accession)).toEqual(['p', 'q']);
+  });
+});
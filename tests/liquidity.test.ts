@@ -0,0 +1,40 @@
+import { computeVolumeMetrics } from '../lib/core/liquidity';
+import type { PriceData } from '../lib/core/schema';
+
+function series(n: number, volumeAt: (i: number) => number, absRet: (i: number) => number): PriceData[] {
+  const out: PriceData[] = [];
+  let px = 100;
+  for (let i = 0; i < n; i++) {
+    if (i > 0) px *= 1 + (i % 2 === 0 ? 1 : -1) * absRet(i);
+    const d = new Date(Date.UTC(2023, 0, 2 + i)).toISOString().slice(0, 10);
+    out.push({ date: d, adjClose: px, close: px, volume: volumeAt(i) });
+  }
+  return out;
+}
+
+describe('Volume / liquidity metrics', () => {
+  const day0 = 80;
+
+  it('measures abnormal log volume against the pre-event baseline', () => {
+    const prices = series(120, i => (i === day0 ? 1_000_000 * Math.E : 1_000_000), () => 0.01);
+    const m = computeVolumeMetrics(prices, day0, [0, 1])!;
+    expect(m.baseline_days).toBe(50);
+    expect(m.abn_log_volume_day0!).toBeCloseTo(1, 5);
+    expect(m.volume_ratio_day0!).toBeCloseTo(Math.E, 4);
+    expect(m.abn_log_volume_mean!).toBeCloseTo(0.5, 5);
+    expect(m.abn_log_volume_z_day0).toBeNull(); // flat baseline → SD 0
+  });
+
+  it('reports Amihud illiquidity before and after the event', () => {
+    const prices = series(120, () => 1_000_000, i => (i > day0 ? 0.02 : 0.01));
+    const m = computeVolumeMetrics(prices, day0, [0, 1])!;
+    expect(m.amihud_pre).not.toBeNull();
+    expect(m.amihud_post!).toBeGreaterThan(m.amihud_pre!);
+    expect(m.amihud_change!).toBeGreaterThan(0.5);
+  });
+
+  it('returns null without volume data', () => {
+    const prices = series(120, () => 1, () => 0.01).map(({ date, adjClose }) => ({ date, adjClose }));
+    expect(computeVolumeMetrics(prices, day0, [0, 1])).toBeNull();
+  });
+});
@@ -0,0 +1,75 @@
+import { MACRO_CALENDAR, getMacroEvents } from '../lib/data/macro-events';
+import { macroStudyEvents, parseMacroTypes, parseStudyMeasure, summarizeReturns } from '../lib/core/macro';
+import { isTradingDay } from '../lib/core/tradingCalendar';
+
+describe('Macro event calendar', () => {
+  const weekday = (iso: string) => new Date(`${iso}T00:00:00Z`).getUTCDay();
+
+  it('is sorted, unique and inside its coverage', () => {
+    const { events, coverage } = MACRO_CALENDAR;
+    const keys = events.map(e => `${e.date}T${e.time_et}|${e.type}`);
+    expect([...keys].sort()).toEqual(keys);
+    expect(new Set(keys).size).toBe(keys.length);
+    for (const e of events) {
+      expect(e.date >= coverage.from && e.date <= coverage.to).toBe(true);
+      expect(e.time_et).toMatch(/^\d{2}:\d{2}$/);
+    }
+  });
+
+  it('has the expected cadence per release type', () => {
+    const year = (type: string, y: number) => MACRO_CALENDAR.events.filter(e => e.type === type && e.date.startsWith(`${y}`));
+    expect(year('fomc', 2023)).toHaveLength(8);
+    expect(year('cpi', 2024)).toHaveLength(12);
+    expect(year('nfp', 2022)).toHaveLength(12);
+    // BLS releases at 08:30 on weekdays; scheduled FOMC statements at 14:00 on Wednesdays (Thursday after elections)
+    for (const e of MACRO_CALENDAR.events.filter(e => e.type !== 'fomc')) {
+      expect(e.time_et).toBe('08:30');
+      expect([1, 2, 3, 4, 5]).toContain(weekday(e.date));
+    }
+    for (const e of MACRO_CALENDAR.events.filter(e => e.type === 'fomc' && e.time_et === '14:00')) {
+      expect([3, 4]).toContain(weekday(e.date));
+    }
+  });
+
+  it('filters by type and range', () => {
+    const evs = getMacroEvents(['fomc'], '2022-01-01', '2022-06-30');
+    expect(evs.map(e => e.date)).toEqual(['2022-01-26', '2022-03-16', '2022-05-04', '2022-06-15']);
+    expect(getMacroEvents(['cpi', 'nfp'], '2024-06-01', '2024-06-30').map(e => e.type)).toEqual(['nfp', 'cpi']);
+  });
+});
+
+describe('Macro event studies', () => {
+  it('parses types and measure', () => {
+    expect(parseMacroTypes(null)).toEqual(['fomc', 'cpi', 'nfp']);
+    expect(parseMacroTypes('NFP, fomc')).toEqual(['fomc', 'nfp']);
+    expect(() => parseMacroTypes('ppi')).toThrow('ERR_INVALID_MACRO_TYPES');
+    expect(parseStudyMeasure(undefined)).toBe('car');
+    expect(parseStudyMeasure('RAW')).toBe('raw');
+    expect(() => parseStudyMeasure('bhar')).toThrow('ERR_INVALID_MEASURE');
+  });
+
+  it('maps release times to Day0 sessions and merges coinciding releases', () => {
+    const evs = macroStudyEvents(getMacroEvents(['fomc', 'cpi'], '2024-06-01', '2024-06-30'));
+    expect(evs).toEqual([{
+      date: '2024-06-12',
+      when: 'bmo',
+      time_et: '08:30',
+      types: ['cpi', 'fomc'],
+      label: 'CPI (2024-05) + FOMC statement',
+    }]);
+    const march2020 = macroStudyEvents(getMacroEvents(['fomc'], '2020-03-01', '2020-03-31'));
+    expect(march2020.map(e => [e.date, e.when])).toEqual([['2020-03-03', 'dmh'], ['2020-03-15', 'amc']]);
+    expect(isTradingDay('2020-03-15')).toBe(false);
+  });
+
+  it('summarizes raw returns', () => {
+    const s = summarizeReturns([0.01, -0.02, 0.03, 0.02])!;
+    expect(s.n).toBe(4);
+    expect(s.mean).toBeCloseTo(0.01, 12);
+    expect(s.median).toBeCloseTo(0.015, 12);
+    expect(s.positive_share).toBe(0.75);
+    expect(s.t_stat).toBeCloseTo(0.01 / (s.sd! / 2), 12);
+    expect(summarizeReturns([])).toBeNull();
+    expect(summarizeReturns([0.01])!.t_stat).toBeNull();
+  });
+});
@@ -0,0 +1,75 @@
+import { PEADEvent, PEAD_MIN_EVENTS, PEAD_MIN_PATH_N, assignQuintiles, carAtWindowEnd, peadStudy } from '../lib/core/pead';
+
+// CAR drifts linearly with the surprise: car(offset) = drift · (offset − 1)
+const event = (i: number, surprise: number, drift: number, lastOffset = 60): PEADEvent => ({
+  ticker: i % 2 ? 'AAA' : 'BBB',
+  event_date: `2020-01-${String((i % 28) + 1).padStart(2, '0')}`,
+  surprise,
+  path: Array.from({ length: lastOffset - 1 }, (_, k) => ({ offset: k + 2, car: drift * (k + 1) })),
+});
+
+describe('PEAD quintile study', () => {
+  it('ranks events into equal-sized quintiles reproducibly', () => {
+    const events = Array.from({ length: 12 }, (_, i) => event(i, (i * 7) % 12, 0));
+    const q = assignQuintiles(events);
+    expect(events.map((e, i) => [e.surprise, q[i]]).sort((a, b) => a[0] - b[0]).map(x => x[1]))
+      .toEqual([1, 1, 1, 2, 2, 3, 3, 3, 4, 4, 5, 5]);
+    // ties are broken by ticker then date
+    const tied = [event(0, 1, 0), event(1, 1, 0), event(2, 1, 0), event(3, 1, 0), event(4, 1, 0)];
+    expect(assignQuintiles(tied)).toEqual([3, 1, 4, 2, 5]);
+  });
+
+  it('averages event-time paths and the top-minus-bottom spread', () => {
+    const events = Array.from({ length: 20 }, (_, i) => event(i, i - 10, (i - 10) * 0.0001 + (i % 2 ? 0.00002 : -0.00002)));
+    const res = peadStudy(events)!;
+    expect(res.n).toBe(20);
+    expect(res.quintiles.map(q => q.n)).toEqual([4, 4, 4, 4, 4]);
+    expect(res.quintiles[0].surprise_min).toBe(-10);
+    expect(res.quintiles[4].surprise_max).toBe(9);
+
+    const q1 = res.quintiles[0];
+    expect(q1.path[0]).toEqual({ offset: 2, car: expect.any(Number), n: 4 });
+    expect(q1.path).toHaveLength(59);
+    // bottom quintile drifts down, top drifts up, monotone across quintiles
+    const ends = res.quintiles.map(q => q.car_end!.mean);
+    expect(ends).toEqual([...ends].sort((a, b) => a - b));
+    expect(ends[0]).toBeLessThan(0);
+    expect(ends[4]).toBeGreaterThan(0);
+
+    const spread = res.spread!;
+    expect(spread.car_end).toBeCloseTo(ends[4] - ends[0], 12);
+    expect(spread.path[spread.path.length - 1]).toEqual({ offset: 60, car: expect.any(Number) });
+    expect(spread.path[spread.path.length - 1].car).toBeCloseTo(spread.car_end, 12);
+    expect(spread.t_stat!).toBeGreaterThan(2);
+    expect(spread.p_value!).toBeLessThan(0.05);
+  });
+
+  it('reads car_end at the window end from complete paths only', () => {
+    // top quintile: one full event drifting +0.001/day and one truncated at offset 10 drifting −0.01/day
+    const events = Array.from({ length: 10 }, (_, i) => event(i, i, i === 9 ? -0.01 : 0.001, i === 9 ? 10 : 60));
+    expect(carAtWindowEnd(events[9], 60)).toBeNull();
+    expect(carAtWindowEnd(events[8], 60)).toBeCloseTo(0.001 * 59, 12);
+    const top = peadStudy(events)!.quintiles[4];
+    expect(top.n).toBe(2);
+    expect(top.car_end!.n).toBe(1);
+    expect(top.car_end!.mean).toBeCloseTo(0.001 * 59, 12);
+  });
+
+  it(`drops average-path offsets backed by fewer than ${PEAD_MIN_PATH_N} events`, () => {
+    // 20 events → 4 per quintile; two bottom-quintile paths stop at offset 30
+    const events = Array.from({ length: 20 }, (_, i) => event(i, i, -0.001, i < 2 ? 30 : 60));
+    const res = peadStudy(events)!;
+    const bottom = res.quintiles[0];
+    expect(bottom.path.find(p => p.offset === 30)!.n).toBe(4);
+    expect(bottom.path.find(p => p.offset === 31)).toBeUndefined();
+    expect(bottom.path[bottom.path.length - 1].offset).toBe(30);
+    expect(bottom.car_end!.n).toBe(2);
+    expect(res.spread!.path[res.spread!.path.length - 1].offset).toBe(30);
+  });
+
+  it('needs enough usable events', () => {
+    const few = Array.from({ length: PEAD_MIN_EVENTS - 1 }, (_, i) => event(i, i, 0));
+    expect(peadStudy(few)).toBeNull();
+    expect(peadStudy([...few, { ...event(99, NaN, 0) }])).toBeNull();
+  });
+});
@@ -0,0 +1,77 @@
+import type { AnalysisSegment } from '../lib/core/schema';
+import { PROFILE_LARGEST, buildWindowProfile, fiscalQuarterOf, reactionStats } from '../lib/core/profile';
+
+const segment = (date: string, car: number, epsSurprise: number | null, window = '[-1,+1]'): AnalysisSegment => ({
+  label: `${date} ${window}`,
+  earnings: {
+    date,
+    when: 'amc',
+    eps: 1,
+    eps_yoy: null,
+    rev_yoy: null,
+    eps_surprise: epsSurprise,
+    eps_surprise_pct: epsSurprise === null ? null : epsSurprise * 10,
+  },
+  period: { start: date, end: date },
+  price_reaction: { window, car, ret_sum: car, bench_sum: 0 },
+  source_urls: [],
+});
+
+describe('earnings reaction profile', () => {
+  it('summarizes mean, median, absolute move and positive share', () => {
+    expect(reactionStats([0.02, -0.04, 0.06, 0.01])).toEqual({
+      n: 4, mean: 0.0125, median: 0.015, mean_abs: 0.0325, positive_share: 0.75,
+    });
+    expect(reactionStats([0.03, NaN, -0.01, 0.1])!.median).toBe(0.03);
+    expect(reactionStats([])).toBeNull();
+  });
+
+  it('maps announcement dates to fiscal quarters', () => {
+    // December year end (default)
+    expect(fiscalQuarterOf('2024-01-25', null)).toEqual({ fiscal_quarter: 4, fiscal_year: 2023 });
+    expect(fiscalQuarterOf('2024-04-25', '1231')).toEqual({ fiscal_quarter: 1, fiscal_year: 2024 });
+    // reported within a week of quarter end → previous quarter
+    expect(fiscalQuarterOf('2024-04-05', null)).toEqual({ fiscal_quarter: 4, fiscal_year: 2023 });
+    // AAPL (September year end)
+    expect(fiscalQuarterOf('2024-08-01', '0928')).toEqual({ fiscal_quarter: 3, fiscal_year: 2024 });
+    expect(fiscalQuarterOf('2024-10-31', '0928')).toEqual({ fiscal_quarter: 4, fiscal_year: 2024 });
+    expect(fiscalQuarterOf('2025-01-30', '0928')).toEqual({ fiscal_quarter: 1, fiscal_year: 2025 });
+    // NVDA (late January year end)
+    expect(fiscalQuarterOf('2024-02-21', '0128')).toEqual({ fiscal_quarter: 4, fiscal_year: 2024 });
+    expect(fiscalQuarterOf('2024-05-22', '0128')).toEqual({ fiscal_quarter: 1, fiscal_year: 2025 });
+    // 52/53-week year ending in the first days of January counts as December
+    expect(fiscalQuarterOf('2024-02-20', '0103')).toEqual({ fiscal_quarter: 4, fiscal_year: 2023 });
+    expect(fiscalQuarterOf('2024-05-01', '0103')).toEqual({ fiscal_quarter: 1, fiscal_year: 2024 });
+  });
+
+  it('builds a per-window profile with beat/miss split, fiscal quarters and largest moves', () => {
+    const segments = [
+      segment('2023-02-02', 0.05, 0.1),
+      segment('2023-04-27', -0.08, -0.05),
+      segment('2023-07-27', 0.02, 0),
+      segment('2023-10-26', 0.01, 0.02),
+      segment('2024-02-01', -0.03, null),
+      segment('2024-02-01', 0.5, 0.1, '[0,+5]'),
+    ];
+    const p = buildWindowProfile(segments, '[-1,+1]', null);
+    expect(p.window).toBe('[-1,+1]');
+    expect(p.stats).toMatchObject({ n: 5, mean: -0.006, median: 0.01, mean_abs: 0.038, positive_share: 0.6 });
+    expect(p.stats!.sd).toBe(0.0503);
+    expect(p.beat).toMatchObject({ n: 2, mean: 0.03 });
+    expect(p.miss).toMatchObject({ n: 1, mean: -0.08 });
+    expect(p.inline_n).toBe(1);
+    expect(p.by_fiscal_quarter.map(q => [q.fiscal_quarter, q.n])).toEqual([[1, 1], [2, 1], [3, 1], [4, 2]]);
+    expect(p.largest).toHaveLength(PROFILE_LARGEST);
+    expect(p.largest[0]).toEqual({ date: '2023-04-27', fiscal: 'FY2023 Q1', car: -0.08, eps_surprise_pct: -0.5 });
+    expect(p.largest.map(l => l.date)).toEqual(['2023-04-27', '2023-02-02', '2024-02-01']);
+    expect(p.largest[2].eps_surprise_pct).toBeNull();
+  });
+
+  it('returns empty stats when the window has no segments', () => {
+    const p = buildWindowProfile([segment('2023-02-02', 0.05, 0.1)], '[0,+5]', null);
+    expect(p.stats).toBeNull();
+    expect(p.beat).toBeNull();
+    expect(p.by_fiscal_quarter).toEqual([]);
+    expect(p.largest).toEqual([]);
+  });
+});
@@ -0,0 +1,38 @@
+import { empiricalSignificance, parseSignificanceSettings, mulberry32 } from '../lib/core/significance';
+
+function noise(seed: number, n: number, scale: number): number[] {
+  const r = mulberry32(seed);
+  return Array.from({ length: n }, () => (r() - 0.5) * scale);
+}
+
+describe('Empirical CAR significance', () => {
+  const est = noise(3, 250, 0.04);
+
+  it('is deterministic for a given seed and segment key', () => {
+    const settings = parseSignificanceSettings('bootstrap', 7, 500)!;
+    const a = empiricalSignificance(0.03, [0.01, 0.01, 0.01], est, settings, '2024-01-25|[-1,+1]')!;
+    const b = empiricalSignificance(0.03, [0.01, 0.01, 0.01], est, settings, '2024-01-25|[-1,+1]')!;
+    const c = empiricalSignificance(0.03, [0.01, 0.01, 0.01], est, settings, '2024-04-25|[-1,+1]')!;
+    expect(a).toEqual(b);
+    expect(c.seed).not.toBe(a.seed);
+  });
+
+  it('flags large CARs and not small ones', () => {
+    for (const method of ['bootstrap', 'permutation'] as const) {
+      const settings = { method, seed: 1, resamples: 2000 };
+      const big = empiricalSignificance(0.2, [0.07, 0.07, 0.06], est, settings)!;
+      expect(big.p_value).toBeLessThan(0.01);
+      expect(big.percentile).toBeGreaterThan(0.99);
+      const small = empiricalSignificance(0.001, [0.001, 0, 0], est, settings)!;
+      expect(small.p_value).toBeGreaterThan(0.5);
+    }
+  });
+
+  it('validates settings and requires enough estimation residuals', () => {
+    expect(parseSignificanceSettings(null)).toBeNull();
+    expect(parseSignificanceSettings('permutation')).toEqual({ method: 'permutation', seed: 42, resamples: 2000 });
+    expect(() => parseSignificanceSettings('jackknife')).toThrow('ERR_INVALID_SIGNIFICANCE');
+    expect(() => parseSignificanceSettings('bootstrap', 1, 10)).toThrow('ERR_INVALID_SIGNIFICANCE');
+    expect(empiricalSignificance(0.1, [0.1], est.slice(0, 10), { method: 'bootstrap', seed: 1, resamples: 100 })).toBeNull();
+  });
+});
@@ -0,0 +1,43 @@
+import { computeEarningsSurprises, SurpriseInput } from '../lib/core/surprise';
+
+const quarters = ['2022-02-01', '2022-05-01', '2022-08-01', '2022-11-01', '2023-02-01', '2023-05-01', '2023-08-01'];
+
+describe('Earnings surprise', () => {
+  it('prefers consensus and compares it with the vendor actual', () => {
+    const events: SurpriseInput[] = [
+      { date: '2023-02-01', eps: 1.0, revenue: 100, epsEstimate: 1.1, revenueEstimate: 95, epsActualVendor: 1.2 },
+    ];
+    const s = computeEarningsSurprises(events, () => 50).get('2023-02-01')!;
+    expect(s.expectation_model).toBe('consensus');
+    expect(s.eps_surprise).toBeCloseTo(0.1, 12);
+    expect(s.eps_surprise_pct).toBeCloseTo(0.1 / 1.1, 12);
+    expect(s.rev_surprise).toBe(5);
+    expect(s.sue_price).toBeCloseTo(0.1 / 50, 12);
+    expect(s.sue_sd).toBeNull();
+  });
+
+  it('falls back to the seasonal random walk from the prior-year quarter', () => {
+    const events: SurpriseInput[] = [
+      { date: '2022-02-03', eps: 0.8, revenue: 90 },
+      { date: '2023-01-30', eps: 1.0, revenue: 99 },
+    ];
+    const s = computeEarningsSurprises(events, () => null).get('2023-01-30')!;
+    expect(s.expectation_model).toBe('seasonal_random_walk');
+    expect(s.rev_expectation_model).toBe('seasonal_random_walk');
+    expect(s.eps_expected).toBe(0.8);
+    expect(s.eps_surprise).toBeCloseTo(0.2, 12);
+    expect(s.sue_price).toBeNull();
+    expect(computeEarningsSurprises(events, () => null).get('2022-02-03')!.expectation_model).toBeNull();
+  });
+
+  it('scales by the SD of prior surprises once enough history exists', () => {
+    const surprisesSeq = [0.1, -0.1, 0.1, -0.1, 0.1, -0.1, 0.3];
+    const events: SurpriseInput[] = quarters.map((date, i) => ({
+      date, eps: 1 + surprisesSeq[i], revenue: null, epsEstimate: 1,
+    }));
+    const out = computeEarningsSurprises(events, () => 10);
+    expect(out.get('2022-11-01')!.sue_sd).toBeNull();
+    const sd = Math.sqrt((6 * 0.01) / 5); // six prior ±0.1 surprises, mean 0
+    expect(out.get('2023-08-01')!.sue_sd).toBeCloseTo(0.3 / sd, 6);
+  });
+});
@@ -0,0 +1,75 @@
+import type { PriceData } from '../lib/core/schema';
+import type { ExpectedReturnModel } from '../lib/core/factors';
+import { inferTimingFromReaction } from '../lib/core/timing';
+import { computeModelCAR } from '../lib/core/car';
+import { EventContext, inferDay0Session } from '../lib/core/analyze-pipeline';
+import { DEFAULT_ESTIMATION, DEFAULT_WINDOWS, effectiveEstimationGap } from '../lib/core/windows';
+
+describe('Timing inference from the price reaction', () => {
+  const sd = 0.015;
+
+  it('picks the announcement-day session when the reaction happens there', () => {
+    const inf = inferTimingFromReaction({ ar: -0.08, abn_volume_z: 5 }, { ar: 0.004, abn_volume_z: 1.2 }, sd)!;
+    expect(inf.session).toBe('announcement_day');
+    expect(inf.confidence).toBeGreaterThan(0.99);
+  });
+
+  it('picks the next session for an after-close release', () => {
+    const inf = inferTimingFromReaction({ ar: 0.003, abn_volume_z: 0.8 }, { ar: 0.06, abn_volume_z: 4 }, sd)!;
+    expect(inf.session).toBe('next_day');
+    expect(inf.score_next_day).toBeCloseTo(0.06 / sd + 4, 10);
+  });
+
+  it('is close to a coin flip when both sessions look alike', () => {
+    const inf = inferTimingFromReaction({ ar: 0.01, abn_volume_z: 1 }, { ar: -0.0102, abn_volume_z: 1 }, sd)!;
+    expect(inf.confidence).toBeLessThan(0.55);
+  });
+
+  it('ignores negative volume z and works without volume', () => {
+    const inf = inferTimingFromReaction({ ar: 0.03, abn_volume_z: -3 }, { ar: 0.01, abn_volume_z: null }, sd)!;
+    expect(inf.score_announcement_day).toBeCloseTo(2, 10);
+    expect(inf.session).toBe('announcement_day');
+  });
+
+  it('returns null without abnormal returns or residual SD', () => {
+    expect(inferTimingFromReaction({ ar: null, abn_volume_z: 3 }, { ar: 0.01, abn_volume_z: 1 }, sd)).toBeNull();
+    expect(inferTimingFromReaction({ ar: 0.02, abn_volume_z: 3 }, { ar: 0.01, abn_volume_z: 1 }, 0)).toBeNull();
+  });
+});
+
+describe('Day0 session inference', () => {
+  // stock beta 1.3 with a +6% jump on the session after the announcement (after-close release)
+  const N = 320;
+  const ANNOUNCE = 300;
+  const dateOf = (i: number) => new Date(Date.UTC(2020, 0, 1) + i * 86400000).toISOString().split('T')[0];
+  const benchRet = (t: number) => 0.01 * Math.sin(t * 0.45);
+  const stockRet = (t: number) => 0.0002 + 1.3 * benchRet(t) + 0.002 * Math.cos(t * 3.1) + (t === ANNOUNCE + 1 ? 0.06 : 0);
+  const series = (ret: (t: number) => number): PriceData[] => {
+    const out: PriceData[] = [{ date: dateOf(0), adjClose: 100 }];
+    for (let t = 1; t < N; t++) out.push({ date: dateOf(t), adjClose: out[t - 1].adjClose * (1 + ret(t)) });
+    return out;
+  };
+  const prices = series(stockRet);
+  const bench = series(benchRet);
+  const ctxFor = (model: ExpectedReturnModel, betaMethod: 'ols' | 'huber' = 'ols'): EventContext => ({
+    ticker: 'AAA', prices, bench, tradingDates: prices.map(p => p.date), windows: DEFAULT_WINDOWS,
+    estimation: DEFAULT_ESTIMATION, model, factors: null, betaMethod, filings8K: null, estimationFilterFor: () => ({}),
+  });
+
+  it.each<[ExpectedReturnModel, 'ols' | 'huber']>([['market', 'huber'], ['market_adjusted', 'ols']])(
+    'scores the sessions with the event\'s own model (%s, %s)', (model, betaMethod) => {
+      const inf = inferDay0Session(ctxFor(model, betaMethod), dateOf(ANNOUNCE))!;
+      const mm = computeModelCAR(prices, bench, ANNOUNCE, [-1, 1], {
+        model, betaMethod, estimationWindow: DEFAULT_ESTIMATION.length, estimationGap: effectiveEstimationGap(DEFAULT_ESTIMATION, DEFAULT_WINDOWS),
+      });
+      expect(inf.session).toBe('next_day');
+      expect(inf.score_announcement_day).toBeCloseTo(Math.abs(mm.__ars![0]) / mm.__residSD!, 10);
+      expect(inf.score_next_day).toBeCloseTo(Math.abs(mm.__ars![1]) / mm.__residSD!, 10);
+    });
+
+  it('differs from the default market model when the event uses another model', () => {
+    const adjusted = inferDay0Session(ctxFor('market_adjusted'), dateOf(ANNOUNCE))!;
+    const market = inferDay0Session(ctxFor('market'), dateOf(ANNOUNCE))!;
+    expect(adjusted.score_next_day).not.toBeCloseTo(market.score_next_day, 3);
+  });
+});
@@ -0,0 +1,86 @@
+import {
+  closureReason,
+  isEarlyClose,
+  isTradingDay,
+  nextTradingDay,
+  prevTradingDay,
+  sessionClose,
+  sessionPhaseAtET,
+  sessionPhaseET,
+  snapToTradingDayET,
+  tradingDaysBetween,
+  whenFromSessionPhase,
+  type SessionPhase,
+} from '../lib/core/tradingCalendar';
+import { resolveDay0 } from '../lib/core/calendar';
+
+describe('NYSE trading calendar', () => {
+  it('closes on every scheduled 2024 holiday', () => {
+    const holidays = ['2024-01-01', '2024-01-15', '2024-02-19', '2024-03-29', '2024-05-27', '2024-06-19', '2024-07-04', '2024-09-02', '2024-11-28', '2024-12-25'];
+    for (const d of holidays) expect(isTradingDay(d)).toBe(false);
+    expect(closureReason('2024-03-29')).toBe('Good Friday');
+    expect(closureReason('2024-03-30')).toBe('Weekend');
+    expect(tradingDaysBetween('2024-01-01', '2024-12-31')).toHaveLength(252);
+    expect(tradingDaysBetween('2023-01-01', '2023-12-31')).toHaveLength(250);
+  });
+
+  it('applies weekend observance rules', () => {
+    expect(isTradingDay('2021-12-31')).toBe(true);   // New Year 2022 on Saturday: not observed
+    expect(isTradingDay('2021-12-24')).toBe(false);  // Christmas on Saturday → Friday
+    expect(isTradingDay('2021-07-05')).toBe(false);  // Independence Day on Sunday → Monday
+    expect(isTradingDay('2022-06-20')).toBe(false);  // Juneteenth on Sunday → Monday
+    expect(isTradingDay('2021-06-18')).toBe(true);   // Juneteenth starts in 2022
+  });
+
+  it('knows historical special closures', () => {
+    for (const d of ['2001-09-11', '2001-09-14', '2012-10-29', '2012-10-30', '2018-12-05']) expect(isTradingDay(d)).toBe(false);
+    expect(prevTradingDay('2012-10-31')).toBe('2012-10-26');
+    expect(nextTradingDay('2001-09-10')).toBe('2001-09-17');
+  });
+
+  it('reports 1pm early closes and session phases', () => {
+    expect(sessionClose('2024-11-29')).toBe('13:00');
+    expect(sessionClose('2024-07-03')).toBe('13:00');
+    expect(sessionClose('2024-12-24')).toBe('13:00');
+    expect(sessionClose('2024-12-23')).toBe('16:00');
+    expect(sessionClose('2024-11-28')).toBeNull();
+    expect(isEarlyClose('2020-07-02')).toBe(false);  // Jul 3 2020 was the observed holiday
+    expect(sessionPhaseET('2024-11-29', 13 * 60 + 30)).toBe('post');
+    expect(sessionPhaseET('2024-11-27', 13 * 60 + 30)).toBe('open');
+    expect(sessionPhaseET('2024-11-27', 8 * 60)).toBe('pre');
+    expect(sessionPhaseET('2024-11-28', 12 * 60)).toBe('closed');
+  });
+
+  it('classifies EDGAR acceptance timestamps (ET wall clock)', () => {
+    expect(sessionPhaseAtET('2024-02-01T16:30:12')).toEqual({ date: '2024-02-01', phase: 'post' });
+    expect(sessionPhaseAtET('2024-02-01T07:02:45')).toEqual({ date: '2024-02-01', phase: 'pre' });
+    expect(sessionPhaseAtET('2024-02-01T11:15:00')).toEqual({ date: '2024-02-01', phase: 'open' });
+    expect(sessionPhaseAtET('2024-11-29T13:05:00')?.phase).toBe('post');  // early close
+    expect(sessionPhaseAtET('2024-11-28T08:00:00')?.phase).toBe('closed');
+    expect(sessionPhaseAtET('2024-02-01')).toBeNull();
+  });
+
+  it('steps and snaps across holidays', () => {
+    expect(nextTradingDay('2024-11-27')).toBe('2024-11-29');
+    expect(nextTradingDay('2024-11-29', { includeSameDay: true })).toBe('2024-11-29');
+    expect(tradingDaysBetween('2024-12-23', '2024-12-31')).toEqual(['2024-12-23', '2024-12-24', '2024-12-26', '2024-12-27', '2024-12-30', '2024-12-31']);
+    expect(tradingDaysBetween('2024-12-31', '2024-12-23')).toEqual([]);
+    const iso = (d: Date) => d.toISOString().slice(0, 10);
+    expect(iso(snapToTradingDayET(new Date(2024, 0, 13), 'same'))).toBe('2024-01-16'); // Sat before MLK Day
+    expect(iso(snapToTradingDayET(new Date(2024, 6, 3), 'next'))).toBe('2024-07-05');
+    expect(iso(snapToTradingDayET(new Date(2024, 0, 2), 'prev'))).toBe('2023-12-29');
+  });
+
+  it('maps every session phase to one timing flag', () => {
+    const phases: SessionPhase[] = ['pre', 'open', 'post', 'closed'];
+    expect(phases.map(whenFromSessionPhase)).toEqual(['bmo', 'dmh', 'amc', 'amc']);
+  });
+
+  it('puts Day0 on the announcement day only for BMO', () => {
+    const dates = tradingDaysBetween('2024-11-25', '2024-12-06');
+    expect(dates[resolveDay0('2024-11-27', 'bmo', dates)!]).toBe('2024-11-27');
+    expect(dates[resolveDay0('2024-11-27', 'dmh', dates)!]).toBe('2024-11-29');
+    expect(dates[resolveDay0('2024-11-27', 'amc', dates)!]).toBe('2024-11-29');
+    expect(dates[resolveDay0('2024-11-28', 'bmo', dates)!]).toBe('2024-11-29'); // holiday → next session
+  });
+});
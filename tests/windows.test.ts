@@ -0,0 +1,74 @@
+import { AnalysisRequestSchema } from '../lib/core/schema';
+import {
+  DEFAULT_ESTIMATION, DEFAULT_WINDOWS, MAX_WINDOWS, parseEstimationSettings, parseEventWindows, parseIncludeSpec, parseSingleWindow,
+} from '../lib/core/windows';
+
+describe('Event / estimation window parsing', () => {
+  it('parses window specs and rejects malformed ones', () => {
+    expect(parseEventWindows('-20:-1,0:1').map(w => w.label)).toEqual(['[-20,-1]', '[0,+1]']);
+    expect(() => parseEventWindows('0-1')).toThrow('ERR_INVALID_WINDOWS');
+  });
+
+  it('defaults, accepts tuples and brackets, and drops duplicate windows', () => {
+    expect(parseEventWindows(null)).toBe(DEFAULT_WINDOWS);
+    expect(parseEventWindows(' ')).toBe(DEFAULT_WINDOWS);
+    expect(parseEventWindows('[-1:5], 2:60, -1:5').map(w => w.window)).toEqual([[-1, 5], [2, 60]]);
+    expect(parseEventWindows([[0, 1], [-5, 20]]).map(w => w.label)).toEqual(['[0,+1]', '[-5,+20]']);
+  });
+
+  it('enforces start < end, the offset bound and the window count', () => {
+    expect(() => parseEventWindows('1:1')).toThrow('ERR_INVALID_WINDOWS');
+    expect(() => parseEventWindows('5:-1')).toThrow('ERR_INVALID_WINDOWS');
+    expect(() => parseEventWindows('0:251')).toThrow('ERR_INVALID_WINDOWS');
+    expect(() => parseEventWindows([])).toThrow('ERR_INVALID_WINDOWS');
+    const many = Array.from({ length: MAX_WINDOWS + 1 }, (_, i) => `0:${i + 1}`).join(',');
+    expect(() => parseEventWindows(many)).toThrow('ERR_INVALID_WINDOWS');
+  });
+
+  it('parses a single window with a fallback', () => {
+    expect(parseSingleWindow(null).label).toBe('[-1,+5]');
+    expect(parseSingleWindow('', [2, 60]).window).toEqual([2, 60]);
+    expect(parseSingleWindow('0:1').label).toBe('[0,+1]');
+    expect(parseSingleWindow([-2, 2]).label).toBe('[-2,+2]');
+    expect(() => parseSingleWindow('0:1,2:5')).toThrow('ERR_INVALID_WINDOWS');
+  });
+
+  it('validates estimation length and gap', () => {
+    expect(parseEstimationSettings(30, 250)).toMatchObject({ length: 30, gap: 250 });
+    expect(() => parseEstimationSettings(1001)).toThrow('ERR_INVALID_ESTIMATION');
+    expect(() => parseEstimationSettings(120, -1)).toThrow('ERR_INVALID_ESTIMATION');
+    expect(() => parseEstimationSettings('12.5')).toThrow('ERR_INVALID_ESTIMATION');
+  });
+
+  it('rejects malformed POST window/model fields at the schema (400, not 500)', () => {
+    const base = { ticker: 'AAPL', from: '2020-01-01', to: '2020-12-31' };
+    expect(AnalysisRequestSchema.safeParse({ ...base, windows: [[0, 1]], model: 'ff3' }).success).toBe(true);
+    expect(AnalysisRequestSchema.safeParse({ ...base, windows: [[0, 1.5]] }).success).toBe(false);
+    expect(AnalysisRequestSchema.safeParse({ ...base, model: 'capm' }).success).toBe(false);
+    expect(AnalysisRequestSchema.safeParse({ ...base, estimation_window: '252' }).success).toBe(false);
+  });
+
+  it('defaults to excluding other events without winsorizing', () => {
+    expect(parseEstimationSettings()).toEqual(DEFAULT_ESTIMATION);
+    expect(DEFAULT_ESTIMATION.excludeEvents).toBe(true);
+    expect(DEFAULT_ESTIMATION.winsorize).toBe(0);
+  });
+
+  it('accepts exclude_events / winsorize from query strings and bodies', () => {
+    expect(parseEstimationSettings('120', '10', 'false', '0.01')).toEqual({ length: 120, gap: 10, excludeEvents: false, winsorize: 0.01 });
+    expect(parseEstimationSettings(undefined, undefined, true, 0.05).winsorize).toBe(0.05);
+  });
+
+  it('rejects out-of-range settings', () => {
+    expect(() => parseEstimationSettings(10)).toThrow('ERR_INVALID_ESTIMATION');
+    expect(() => parseEstimationSettings(undefined, undefined, 'maybe')).toThrow('ERR_INVALID_ESTIMATION');
+    expect(() => parseEstimationSettings(undefined, undefined, undefined, 0.2)).toThrow('ERR_INVALID_ESTIMATION');
+  });
+
+  it('parses include=path and rejects unknown extras', () => {
+    expect(parseIncludeSpec(null).size).toBe(0);
+    expect(parseIncludeSpec('Path').has('path')).toBe(true);
+    expect(parseIncludeSpec(['path', '']).has('path')).toBe(true);
+    expect(() => parseIncludeSpec('path,chart')).toThrow('ERR_INVALID_INCLUDE');
+  });
+});